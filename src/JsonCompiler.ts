@@ -0,0 +1,306 @@
+import { isFuzzy } from "./flags.js";
+import { getPluralCategories } from "./pluralForms.js";
+import {
+	parseNPluralFromHeadersSafely,
+	parsePluralFromHeaders,
+} from "./shared.js";
+import type {
+	GetTextTranslations,
+	JsonFormat,
+	TranslationEntry,
+	jsonCompilerOptions,
+} from "./types.js";
+
+/**
+ * The separator of msgctxt and msgid in the keys, the same as in MO files
+ */
+export const CONTEXT_SEPARATOR = "\u0004";
+
+/**
+ * The JSON formats of the compiler
+ */
+export const JSON_FORMATS = ["jed1.x", "jed", "gettext.js", "i18next"];
+
+/**
+ * Adds a value to i18next resources, the key is split into nested objects
+ * with the key separator
+ *
+ * @param {Record<string, unknown>} resources The resources
+ * @param {string} key The key
+ * @param {string} value The value
+ * @param {string | false} keySeparator The key separator
+ * @throws TypeError Will throw an error if the key conflicts with another one
+ */
+function assignKey(
+	resources: Record<string, unknown>,
+	key: string,
+	value: string,
+	keySeparator: string | false,
+) {
+	const path = keySeparator ? key.split(keySeparator) : [key];
+	const name = path.pop() as string;
+	let target = resources;
+
+	for (const part of path) {
+		if (!(part in target)) {
+			target[part] = {};
+		}
+
+		if (typeof target[part] !== "object") {
+			throw new TypeError(`i18next key conflict: "${key}" is inside a string`);
+		}
+
+		target = target[part] as Record<string, unknown>;
+	}
+
+	if (typeof target[name] === "object") {
+		throw new TypeError(`i18next key conflict: "${key}" has nested keys`);
+	}
+
+	target[name] = value;
+}
+
+/**
+ * The plural forms used when the table has no Plural-Forms header
+ */
+const DEFAULT_PLURAL_FORMS = "nplurals=2; plural=(n != 1);";
+
+/**
+ * Creates a JSON compiler object, for the JSON formats of the JavaScript
+ * translation runtimes
+ *
+ * @constructor
+ * @param {GetTextTranslations} table Translation table as defined in the README
+ * @param {jsonCompilerOptions} [options] Compiler options
+ */
+class JsonCompiler {
+	_table: GetTextTranslations;
+	_options: jsonCompilerOptions & { format: JsonFormat; domain: string };
+
+	constructor(table: GetTextTranslations, options: jsonCompilerOptions = {}) {
+		this._table = table;
+		this._options = {
+			format: "jed1.x",
+			domain: "messages",
+			useFuzzy: false,
+			// i18next shows the empty strings instead of falling back to the key
+			skipUntranslated: options.format === "i18next",
+			...options,
+		};
+
+		if (!JSON_FORMATS.includes(this._options.format)) {
+			throw new TypeError(`Unknown JSON format "${this._options.format}"`);
+		}
+	}
+
+	/**
+	 * Finds a header value, the header names are case insensitive
+	 *
+	 * @param {string} name The header name
+	 * @return {string | undefined} The header value
+	 */
+	_header(name: string): string | undefined {
+		const headers = this._table.headers || {};
+		const key = Object.keys(headers).find(
+			(key) => key.toLowerCase() === name.toLowerCase(),
+		);
+
+		return key ? headers[key] : undefined;
+	}
+
+	/**
+	 * Lists the entries to output, without the header, the fuzzy entries (unless
+	 * useFuzzy is set) and the untranslated entries (if skipUntranslated is set)
+	 *
+	 * @return {TranslationEntry[]} The entries
+	 */
+	_entries(): TranslationEntry[] {
+		const entries: TranslationEntry[] = [];
+		const { translations = {} } = this._table;
+
+		for (const msgctxt of Object.keys(translations)) {
+			for (const msgid of Object.keys(translations[msgctxt])) {
+				const entry = translations[msgctxt][msgid];
+
+				if (!msgctxt && !msgid) {
+					continue;
+				}
+
+				if (!this._options.useFuzzy && isFuzzy(entry)) {
+					continue;
+				}
+
+				if (
+					this._options.skipUntranslated &&
+					!entry.msgstr?.some((msgstr) => !!msgstr)
+				) {
+					continue;
+				}
+
+				entries.push(entry);
+			}
+		}
+
+		return entries;
+	}
+
+	/**
+	 * Builds the key of an entry, msgctxt and msgid joined by the EOT character
+	 *
+	 * @param {TranslationEntry} entry The translation entry
+	 * @return {string} The key
+	 */
+	_key(entry: TranslationEntry): string {
+		return entry.msgctxt
+			? `${entry.msgctxt}${CONTEXT_SEPARATOR}${entry.msgid}`
+			: entry.msgid;
+	}
+
+	/**
+	 * Builds the value of an entry
+	 *
+	 * @param {TranslationEntry} entry The translation entry
+	 * @return {string | (string | null)[]} The value
+	 */
+	_value(entry: TranslationEntry): string | (string | null)[] {
+		const msgstr = entry.msgid_plural
+			? [...(entry.msgstr || [])]
+			: [entry.msgstr?.[0] || ""];
+
+		switch (this._options.format) {
+			case "jed":
+				// before 1.0 the first item is the plural msgid
+				return [entry.msgid_plural || null, ...msgstr];
+			case "gettext.js":
+				return entry.msgid_plural ? msgstr : msgstr[0];
+			default:
+				return msgstr;
+		}
+	}
+
+	/**
+	 * Builds the header object
+	 *
+	 * @return {Record<string, string>} The header object
+	 */
+	_headers(): Record<string, string> {
+		if (this._options.format !== "gettext.js") {
+			return {
+				domain: this._options.domain,
+				lang: this._header("Language") || "",
+				plural_forms: this._header("Plural-Forms") || DEFAULT_PLURAL_FORMS,
+			};
+		}
+
+		const headers: Record<string, string> = {};
+
+		for (const [key, value] of Object.entries(this._table.headers || {})) {
+			headers[key.toLowerCase()] = value;
+		}
+
+		headers.language = headers.language || "";
+		headers["plural-forms"] = headers["plural-forms"] || DEFAULT_PLURAL_FORMS;
+
+		return headers;
+	}
+
+	/**
+	 * Finds the CLDR plural category of each plural form, from the language and
+	 * the Plural-Forms header
+	 *
+	 * @return {string[]} The categories
+	 */
+	_pluralCategories(): string[] {
+		const language = this._options.language || this._header("Language") || "en";
+
+		if (!this._header("Plural-Forms")) {
+			return getPluralCategories(language);
+		}
+
+		const headers = { "Plural-Forms": this._header("Plural-Forms") as string };
+
+		return getPluralCategories(
+			language,
+			parsePluralFromHeaders(headers),
+			parseNPluralFromHeadersSafely(headers),
+		);
+	}
+
+	/**
+	 * Compiles the translation table to i18next v4 JSON, the plural forms get
+	 * the suffix of their CLDR category (e.g. "key_one")
+	 *
+	 * @return {string} The JSON string
+	 */
+	_compileI18next(): string {
+		const {
+			keySeparator = false,
+			context = "suffix",
+			namespace = "translation",
+		} = this._options;
+		// the language only matters for the plural entries
+		let categories: string[] | undefined;
+		const namespaces: Record<string, Record<string, unknown>> = {};
+
+		for (const entry of this._entries()) {
+			const ns = (context === "namespace" && entry.msgctxt) || namespace;
+			const key =
+				context === "suffix" && entry.msgctxt
+					? `${entry.msgid}_${entry.msgctxt}`
+					: entry.msgid;
+
+			if (!namespaces[ns]) {
+				namespaces[ns] = {};
+			}
+
+			if (!entry.msgid_plural) {
+				assignKey(namespaces[ns], key, entry.msgstr?.[0] || "", keySeparator);
+				continue;
+			}
+
+			categories = categories || this._pluralCategories();
+			categories.forEach((category, index) => {
+				assignKey(
+					namespaces[ns],
+					`${key}_${category}`,
+					entry.msgstr?.[index] || "",
+					keySeparator,
+				);
+			});
+		}
+
+		if (context === "namespace") {
+			return JSON.stringify(namespaces);
+		}
+
+		return JSON.stringify(namespaces[namespace] || {});
+	}
+
+	/**
+	 * Compiles the translation table
+	 *
+	 * @return {string} The JSON string
+	 */
+	compile(): string {
+		if (this._options.format === "i18next") {
+			return this._compileI18next();
+		}
+
+		const messages: Record<string, unknown> = { "": this._headers() };
+
+		for (const entry of this._entries()) {
+			messages[this._key(entry)] = this._value(entry);
+		}
+
+		if (this._options.format === "gettext.js") {
+			return JSON.stringify(messages);
+		}
+
+		return JSON.stringify({
+			domain: this._options.domain,
+			locale_data: { [this._options.domain]: messages },
+		});
+	}
+}
+
+export default JsonCompiler;
@@ -0,0 +1,367 @@
+import { CONTEXT_SEPARATOR } from "./JsonCompiler.js";
+import { decodeUtf8, isBytes } from "./bytes.js";
+import { getPluralCategories } from "./pluralForms.js";
+import {
+	HEADERS,
+	generateHeader,
+	parseNPluralFromHeadersSafely,
+	parsePluralFromHeaders,
+} from "./shared.js";
+import type {
+	GetTextTranslations,
+	JsonFormat,
+	TranslationEntry,
+	jsonParserOptions,
+} from "./types.js";
+
+/**
+ * The header object keys of the Jed formats and their header names
+ */
+const JED_HEADERS: Record<string, string> = {
+	lang: "Language",
+	plural_forms: "Plural-Forms",
+};
+
+/**
+ * Creates a JSON parser object, for the JSON formats of the JavaScript
+ * translation runtimes
+ *
+ * @constructor
+ * @param {string | Uint8Array | object} input The JSON string or the parsed object
+ * @param {jsonParserOptions} [options] Parser options
+ */
+class JsonParser {
+	_data: Record<string, unknown>;
+	_options: jsonParserOptions;
+
+	constructor(
+		input: string | Uint8Array | object,
+		options: jsonParserOptions = {},
+	) {
+		this._data =
+			typeof input === "string" || isBytes(input)
+				? JSON.parse(isBytes(input) ? decodeUtf8(input) : input)
+				: (input as Record<string, unknown>);
+		this._options = options;
+
+		if (!this._data || typeof this._data !== "object") {
+			throw new TypeError("Invalid JSON translations: not an object");
+		}
+	}
+
+	/**
+	 * Detects the format from the structure: Jed has a locale_data property, and
+	 * before 1.0 the singular values start with null
+	 *
+	 * @param {Record<string, unknown>} messages The messages of the Jed domain
+	 * @return {JsonFormat} The format
+	 */
+	_detectFormat(messages?: Record<string, unknown>): JsonFormat {
+		if (!messages) {
+			return "gettext.js";
+		}
+
+		const legacy = Object.keys(messages).some((key) => {
+			const value = messages[key];
+
+			return key && Array.isArray(value) && value[0] === null;
+		});
+
+		return legacy ? "jed" : "jed1.x";
+	}
+
+	/**
+	 * Finds the messages of the Jed domain
+	 *
+	 * @return {Record<string, unknown> | undefined} The messages, undefined if the data is not Jed
+	 * @throws TypeError Will throw an error if the domain is missing
+	 */
+	_jedMessages(): Record<string, unknown> | undefined {
+		const localeData = this._data.locale_data as
+			| Record<string, Record<string, unknown>>
+			| undefined;
+
+		if (!localeData || typeof localeData !== "object") {
+			return undefined;
+		}
+
+		const domain =
+			this._options.domain ||
+			(this._data.domain as string | undefined) ||
+			Object.keys(localeData)[0];
+
+		if (!localeData[domain]) {
+			throw new TypeError(
+				`Invalid Jed translations: locale_data has no "${domain}" domain`,
+			);
+		}
+
+		return localeData[domain];
+	}
+
+	/**
+	 * Converts the header object to headers
+	 *
+	 * @param {Record<string, string>} [header] The header object ("" key)
+	 * @param {boolean} jed The header object is in a Jed format
+	 * @return {Record<string, string>} The headers
+	 */
+	_parseHeaders(
+		header: Record<string, string> | undefined,
+		jed: boolean,
+	): Record<string, string> {
+		const headers: Record<string, string> = {};
+
+		for (const [key, value] of Object.entries(header || {})) {
+			if (jed && key === "domain") {
+				continue;
+			}
+
+			const name =
+				(jed && JED_HEADERS[key]) || HEADERS.get(key.toLowerCase()) || key;
+
+			if (value) {
+				headers[name] = value;
+			}
+		}
+
+		return headers;
+	}
+
+	/**
+	 * Converts a message to a translation entry. Jed 1.x and gettext.js do not
+	 * keep msgid_plural, msgid is used instead
+	 *
+	 * @param {string} key The key, msgctxt and msgid joined by the EOT character
+	 * @param {unknown} value The value
+	 * @param {JsonFormat} format The format
+	 * @return {TranslationEntry} The translation entry
+	 * @throws TypeError Will throw an error if the value is not valid
+	 */
+	_parseEntry(
+		key: string,
+		value: unknown,
+		format: JsonFormat,
+	): TranslationEntry {
+		const separator = key.indexOf(CONTEXT_SEPARATOR);
+		const msgctxt = separator >= 0 ? key.slice(0, separator) : "";
+		const msgid = separator >= 0 ? key.slice(separator + 1) : key;
+		let msgidPlural: string | null = null;
+		let msgstr: unknown[];
+
+		if (format === "gettext.js" && typeof value === "string") {
+			msgstr = [value];
+		} else if (!Array.isArray(value)) {
+			throw new TypeError(
+				`Invalid JSON translations: unexpected value of "${msgid}" in "${msgctxt}" context`,
+			);
+		} else if (format === "jed") {
+			[msgidPlural, ...msgstr] = value;
+		} else {
+			msgstr = value;
+
+			if (format === "gettext.js" || value.length > 1) {
+				msgidPlural = msgid;
+			}
+		}
+
+		const entry: TranslationEntry = {
+			msgid,
+			msgstr: msgstr.map((translation) => String(translation ?? "")),
+		};
+
+		if (msgctxt) {
+			entry.msgctxt = msgctxt;
+		}
+
+		if (msgidPlural) {
+			entry.msgid_plural = msgidPlural;
+		}
+
+		return entry;
+	}
+
+	/**
+	 * Creates a translation table with its header entry. JSON is always UTF-8,
+	 * the Content-Type header is added if missing
+	 *
+	 * @param {Record<string, string>} headers The headers
+	 * @return {GetTextTranslations} Translation table
+	 */
+	_createTable(headers: Record<string, string>): GetTextTranslations {
+		if (!headers["Content-Type"]) {
+			headers["Content-Type"] = "text/plain; charset=UTF-8";
+		}
+
+		return {
+			charset: "utf-8",
+			headers,
+			translations: {
+				"": { "": { msgid: "", msgstr: [generateHeader(headers)] } },
+			},
+		};
+	}
+
+	/**
+	 * Adds an entry to a translation table
+	 *
+	 * @param {GetTextTranslations} table Translation table
+	 * @param {TranslationEntry} entry The translation entry
+	 */
+	_addEntry(table: GetTextTranslations, entry: TranslationEntry) {
+		const msgctxt = entry.msgctxt || "";
+
+		if (!table.translations[msgctxt]) {
+			table.translations[msgctxt] = {};
+		}
+
+		table.translations[msgctxt][entry.msgid] = entry;
+	}
+
+	/**
+	 * Flattens nested i18next resources, the keys are joined with the key separator
+	 *
+	 * @param {Record<string, unknown>} resources The resources
+	 * @param {string} [prefix] The key of the resources
+	 * @param {Record<string, string>} [result] The flat resources
+	 * @return {Record<string, string>} The flat resources
+	 * @throws TypeError Will throw an error if a value is not a string or an object
+	 */
+	_flatten(
+		resources: Record<string, unknown>,
+		prefix = "",
+		result: Record<string, string> = {},
+	): Record<string, string> {
+		const separator = this._options.keySeparator || ".";
+
+		for (const [name, value] of Object.entries(resources)) {
+			const key = prefix ? `${prefix}${separator}${name}` : name;
+
+			if (typeof value === "string") {
+				result[key] = value;
+			} else if (value && typeof value === "object" && !Array.isArray(value)) {
+				this._flatten(value as Record<string, unknown>, key, result);
+			} else {
+				throw new TypeError(
+					`Invalid i18next translations: unexpected value of "${key}"`,
+				);
+			}
+		}
+
+		return result;
+	}
+
+	/**
+	 * Parses i18next v4 JSON, the keys with the suffix of a plural category of
+	 * the language (e.g. "key_one") are merged into plural entries. The i18next
+	 * contexts can't be told apart from the keys, only the namespaces become msgctxt
+	 *
+	 * @return {GetTextTranslations} Translation table
+	 */
+	_parseI18next(): GetTextTranslations {
+		const {
+			language,
+			pluralForms,
+			context = "suffix",
+			namespace = "translation",
+		} = this._options;
+		const headers: Record<string, string> = {};
+
+		if (language) {
+			headers.Language = language;
+		}
+
+		if (pluralForms) {
+			headers["Plural-Forms"] = pluralForms;
+		}
+
+		const categories = pluralForms
+			? getPluralCategories(
+					language || "en",
+					parsePluralFromHeaders(headers),
+					parseNPluralFromHeadersSafely(headers),
+				)
+			: getPluralCategories(language || "en");
+		const table = this._createTable(headers);
+		const namespaces = (
+			context === "namespace" ? this._data : { [namespace]: this._data }
+		) as Record<string, Record<string, unknown>>;
+
+		for (const ns of Object.keys(namespaces)) {
+			const entryContext = ns === namespace ? {} : { msgctxt: ns };
+			const plurals: Record<string, string[]> = {};
+
+			if (!namespaces[ns] || typeof namespaces[ns] !== "object") {
+				throw new TypeError(
+					`Invalid i18next translations: namespace "${ns}" is not an object`,
+				);
+			}
+
+			for (const [key, value] of Object.entries(
+				this._flatten(namespaces[ns]),
+			)) {
+				const match = key.match(/^(.+)_(zero|one|two|few|many|other)$/);
+				const index = match ? categories.indexOf(match[2]) : -1;
+
+				if (match && index >= 0) {
+					if (!plurals[match[1]]) {
+						plurals[match[1]] = categories.map(() => "");
+					}
+
+					plurals[match[1]][index] = value;
+				} else {
+					this._addEntry(table, {
+						...entryContext,
+						msgid: key,
+						msgstr: [value],
+					});
+				}
+			}
+
+			for (const msgid of Object.keys(plurals)) {
+				this._addEntry(table, {
+					...entryContext,
+					msgid,
+					msgid_plural: msgid,
+					msgstr: plurals[msgid],
+				});
+			}
+		}
+
+		return table;
+	}
+
+	/**
+	 * Parses the JSON translations into a translation table
+	 *
+	 * @return {GetTextTranslations} Translation table
+	 */
+	parse(): GetTextTranslations {
+		if (this._options.format === "i18next") {
+			return this._parseI18next();
+		}
+
+		const jedMessages = this._jedMessages();
+		const format = this._options.format || this._detectFormat(jedMessages);
+		const jed = format !== "gettext.js";
+		const messages = jed ? jedMessages : this._data;
+
+		if (!messages) {
+			throw new TypeError("Invalid Jed translations: missing locale_data");
+		}
+
+		const table = this._createTable(
+			this._parseHeaders(messages[""] as Record<string, string>, jed),
+		);
+
+		for (const key of Object.keys(messages)) {
+			if (key) {
+				this._addEntry(table, this._parseEntry(key, messages[key], format));
+			}
+		}
+
+		return table;
+	}
+}
+
+export default JsonParser;
@@ -0,0 +1,201 @@
+import { MoParser } from "./MoParser.js";
+import { compareBytes } from "./bytes.js";
+import { encode } from "./encoding.js";
+import { hashString } from "./shared.js";
+
+/**
+ * Lazy lookup over a binary MO object. Unlike MoParser.parse, strings are decoded
+ * only when they are requested and the lookup uses the embedded hash table if present
+ * (binary search on the sorted originals otherwise)
+ *
+ * @constructor
+ * @param {Uint8Array} fileContents Binary MO object
+ * @param {String} [defaultCharset] Default charset to use
+ */
+export class MoCatalog extends MoParser {
+	/**
+	 * Decoded translations, indexed by string number
+	 */
+	private _decoded: Map<number, string[]> = new Map();
+
+	/**
+	 * The parsed headers of the MO object
+	 */
+	get headers(): Record<string, string> {
+		return this._table.headers || {};
+	}
+
+	/**
+	 * The charset of the MO object strings
+	 */
+	get charset(): string {
+		return this._charset;
+	}
+
+	/**
+	 * Reads the MO header and detects the charset, no string gets decoded apart from the header
+	 *
+	 * @return {MoCatalog | false} The catalog or false if the magic bytes are not valid
+	 */
+	open(): MoCatalog | false {
+		if (!this._readHeader()) {
+			return false;
+		}
+
+		const index = this._findIndex(new Uint8Array(0));
+
+		if (index >= 0) {
+			this._handleCharset(
+				this._readString(this._offsetTranslations as number, index),
+			);
+		}
+
+		return this;
+	}
+
+	/**
+	 * Compares a key with an original string the way strcmp does, so the plural form
+	 * that follows the NUL separator of the original string is ignored
+	 *
+	 * @param {Uint8Array} key The encoded lookup key
+	 * @param {number} index Index of the original string
+	 * @return {number} The comparator index
+	 */
+	_compareOriginal(key: Uint8Array, index: number): number {
+		const original = this._readString(this._offsetOriginals as number, index);
+		const separator = original.indexOf(0x00);
+
+		return compareBytes(
+			key,
+			separator === -1 ? original : original.subarray(0, separator),
+		);
+	}
+
+	/**
+	 * Finds the string index using the hash table
+	 *
+	 * @param {Uint8Array} key The encoded lookup key
+	 * @return {number} The string index or -1 if not found
+	 */
+	_findInHashTable(key: Uint8Array): number {
+		const size = this._hashTableSize;
+		const offset = this._offsetHashTable as number;
+		const hashValue = hashString(key);
+		const increment = 1 + (hashValue % (size - 2));
+		let slot = hashValue % size;
+
+		for (let probes = 0; probes < size; probes++) {
+			const entry = this._read(offset + slot * 4);
+
+			if (entry === 0) {
+				return -1;
+			}
+
+			// the slots after the static strings are the system dependent strings
+			if (entry <= this._total && this._compareOriginal(key, entry - 1) === 0) {
+				return entry - 1;
+			}
+
+			if (slot >= size - increment) {
+				slot -= size - increment;
+			} else {
+				slot += increment;
+			}
+		}
+
+		return -1;
+	}
+
+	/**
+	 * Finds the string index with a binary search over the sorted originals
+	 *
+	 * @param {Uint8Array} key The encoded lookup key
+	 * @return {number} The string index or -1 if not found
+	 */
+	_findInOriginals(key: Uint8Array): number {
+		let bottom = 0;
+		let top = this._total;
+
+		while (bottom < top) {
+			const middle = (bottom + top) >> 1;
+			const result = this._compareOriginal(key, middle);
+
+			if (result < 0) {
+				top = middle;
+			} else if (result > 0) {
+				bottom = middle + 1;
+			} else {
+				return middle;
+			}
+		}
+
+		return -1;
+	}
+
+	/**
+	 * Finds the index of a string in the MO object
+	 *
+	 * @param {Uint8Array} key The encoded lookup key
+	 * @return {number} The string index or -1 if not found
+	 */
+	_findIndex(key: Uint8Array): number {
+		// the hash table needs at least 3 slots for the second hashing function
+		if (this._hashTableSize > 2) {
+			return this._findInHashTable(key);
+		}
+
+		return this._findInOriginals(key);
+	}
+
+	/**
+	 * Looks up and decodes the translation forms of a message
+	 *
+	 * @param {string} msgctxt The message context, an empty string for the default context
+	 * @param {string} msgid The message to be translated
+	 * @return {string[] | undefined} The translation forms or undefined if not found
+	 */
+	_lookup(msgctxt: string, msgid: string): string[] | undefined {
+		const key = encode(
+			msgctxt ? `${msgctxt}\u0004${msgid}` : msgid,
+			this._charset,
+		);
+		const index = this._findIndex(key);
+
+		if (index < 0) {
+			return;
+		}
+
+		let msgstr = this._decoded.get(index);
+
+		if (!msgstr) {
+			msgstr = this._decodeString(
+				this._readString(this._offsetTranslations as number, index),
+			).split("\u0000");
+			this._decoded.set(index, msgstr);
+		}
+
+		return msgstr;
+	}
+
+	/**
+	 * Returns the translation of a message
+	 *
+	 * @param {string} msgctxt The message context, an empty string for the default context
+	 * @param {string} msgid The message to be translated
+	 * @return {string | undefined} The translation or undefined if not found
+	 */
+	get(msgctxt: string, msgid: string): string | undefined {
+		return this._lookup(msgctxt, msgid)?.[0];
+	}
+
+	/**
+	 * Returns all the plural forms of the translation of a message
+	 *
+	 * @param {string} msgctxt The message context, an empty string for the default context
+	 * @param {string} msgid The singular form of the message to be translated
+	 * @return {string[] | undefined} The translation plural forms or undefined if not found
+	 */
+	getPlural(msgctxt: string, msgid: string): string[] | undefined {
+		return this._lookup(msgctxt, msgid);
+	}
+}
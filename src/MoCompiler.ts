@@ -1,21 +1,58 @@
 import * as contentType from "content-type";
-import convert from "./encoding.js";
+import { compareBytes, encodeLatin1 } from "./bytes.js";
+import { encode } from "./encoding.js";
+import { isFuzzy } from "./flags.js";
 import {
 	HEADERS,
-	compareMsgid,
 	formatCharset,
 	generateHeader,
+	hashString,
+	nextPrime,
 } from "./shared.js";
+import { getSysdepSegment, splitSysdepString } from "./sysdep.js";
 import type {
-	BufferWriteFunc,
 	GetTextTranslations,
 	TranslationEntry,
+	moCompilerOptions,
+	moCompilerStatistics,
 } from "./types.js";
 
+/**
+ * The MO file format revisions of the compiler
+ */
+export const MO_REVISIONS = [0, 1];
+
+/**
+ * The segment reference that ends a system dependent string
+ */
+const SEGMENTS_END = 0xffffffff;
+
+/**
+ * A system dependent string, its static parts (encoded) around the segments
+ */
+interface MoSysdepString {
+	statics: Uint8Array[];
+	segments: string[];
+}
+
+/**
+ * A system dependent translation, the key is the msgid expanded for the
+ * platform of the hash table
+ */
+interface MoSysdepEntry {
+	msgid: MoSysdepString;
+	msgstr: MoSysdepString;
+	key: Uint8Array;
+}
+
 class MoCompiler {
 	_table: GetTextTranslations;
+	_options: moCompilerOptions;
 	_translations: GetTextTranslations["translations"][];
-	_writeFunc: BufferWriteFunc;
+	_littleEndian: boolean;
+	_sysdepList: MoSysdepEntry[] = [];
+	_revision = 0;
+	statistics: moCompilerStatistics;
 	MAGIC: number;
 	/**
 	 * Creates a MO compiler object.
@@ -24,9 +61,32 @@ class MoCompiler {
 	 * @this {MoCompiler}
 	 *
 	 * @param {GetTextTranslations} table Translation table as defined in the README
+	 * @param {moCompilerOptions} [options] Compiler options
 	 */
-	constructor(table: GetTextTranslations) {
+	constructor(table: GetTextTranslations, options: moCompilerOptions = {}) {
 		this._table = table;
+		this._options = {
+			hashTable: true,
+			useFuzzy: false,
+			endianness: "le",
+			platform: "lp64",
+			...options,
+		};
+
+		if (!["le", "be"].includes(this._options.endianness as string)) {
+			throw new TypeError(
+				`Unknown MO endianness "${this._options.endianness}"`,
+			);
+		}
+
+		if (
+			this._options.revision !== undefined &&
+			!MO_REVISIONS.includes(this._options.revision)
+		) {
+			throw new TypeError(`Unsupported MO revision ${this._options.revision}`);
+		}
+
+		this.statistics = { translated: 0, skipped: { fuzzy: 0, untranslated: 0 } };
 
 		let { headers = {}, translations = {} } = this._table;
 
@@ -49,17 +109,26 @@ class MoCompiler {
 			{},
 		);
 
-		// filter out empty translations
+		// filter out empty and fuzzy translations, like msgfmt does
 		translations = Object.keys(translations).reduce(
 			(result: GetTextTranslations["translations"], msgctxt: string) => {
 				const context = translations[msgctxt];
 				const msgs = Object.keys(context).reduce(
 					(result: { [msgid: string]: TranslationEntry }, msgid: string) => {
+						// the header is generated from the headers, even if it is fuzzy
+						const isHeader = !msgctxt && !msgid;
 						const hasTranslation = context[msgid].msgstr.some(
 							(item) => !!item.length,
 						);
 
-						if (hasTranslation) {
+						if (isHeader) {
+							result[msgid] = context[msgid];
+						} else if (!hasTranslation) {
+							this.statistics.skipped.untranslated++;
+						} else if (isFuzzy(context[msgid]) && !this._options.useFuzzy) {
+							this.statistics.skipped.fuzzy++;
+						} else {
+							this.statistics.translated++;
 							result[msgid] = context[msgid];
 						}
 
@@ -81,7 +150,7 @@ class MoCompiler {
 		this._table.headers = headers;
 
 		this._translations = [];
-		this._writeFunc = "writeUInt32LE";
+		this._littleEndian = this._options.endianness !== "be";
 
 		this._handleCharset();
 		/**
@@ -114,21 +183,55 @@ class MoCompiler {
 		this._table.headers["Content-Type"] = contentType.format(ct);
 	}
 
+	/**
+	 * Splits a string at its system dependent segments and encodes the static parts
+	 *
+	 * @param {string} str The string
+	 * @return {MoSysdepString} The system dependent string
+	 */
+	_splitSysdep(str: string): MoSysdepString {
+		const { statics, segments } = splitSysdepString(str);
+
+		return {
+			statics: statics.map((part) => encode(part, this._table.charset)),
+			segments,
+		};
+	}
+
+	/**
+	 * Lists the names of the system dependent segments, in the order of use
+	 *
+	 * @return {string[]} The segment names
+	 */
+	_sysdepSegments(): string[] {
+		const names: string[] = [];
+
+		for (const entry of this._sysdepList) {
+			for (const name of [...entry.msgid.segments, ...entry.msgstr.segments]) {
+				if (!names.includes(name)) {
+					names.push(name);
+				}
+			}
+		}
+
+		return names;
+	}
+
 	/**
 	 * Generates an array of translation strings
-	 * in the form of [{msgid:... , msgstr:...}]
+	 * in the form of [{msgid:... , msgstr:...}]. The system dependent strings (with
+	 * a format directive like "%<PRId64>") are added to _sysdepList instead
 	 *
 	 * @return {GetTextTranslations} Translation strings array
 	 */
-	_generateList(): { msgid: Buffer; msgstr: Buffer }[] {
-		const list: { msgid: Buffer; msgstr: Buffer }[] = [];
+	_generateList(): { msgid: Uint8Array; msgstr: Uint8Array }[] {
+		const list: { msgid: Uint8Array; msgstr: Uint8Array }[] = [];
+
+		this._sysdepList = [];
 
 		list.push({
-			msgid: Buffer.alloc(0),
-			msgstr: convert(
-				generateHeader(this._table.headers),
-				this._table.charset,
-			) as Buffer,
+			msgid: new Uint8Array(0),
+			msgstr: encode(generateHeader(this._table.headers), this._table.charset),
 		});
 
 		const result = [];
@@ -158,10 +261,36 @@ class MoCompiler {
 				}
 
 				const value = entry.msgstr?.join("\u0000") || "";
+				const sysdepKey = splitSysdepString(key);
+
+				if (
+					sysdepKey.segments.length ||
+					splitSysdepString(value).segments.length
+				) {
+					const expanded = sysdepKey.statics
+						.map(
+							(part, index) =>
+								part +
+								(index < sysdepKey.segments.length
+									? getSysdepSegment(
+											sysdepKey.segments[index],
+											this._options.platform || "lp64",
+										) || ""
+									: ""),
+						)
+						.join("");
+
+					this._sysdepList.push({
+						msgid: this._splitSysdep(key),
+						msgstr: this._splitSysdep(value),
+						key: encode(expanded, this._table.charset),
+					});
+					continue;
+				}
 
 				list.push({
-					msgid: convert(key, this._table.charset) as Buffer,
-					msgstr: convert(value, this._table.charset) as Buffer,
+					msgid: encode(key, this._table.charset),
+					msgstr: encode(value, this._table.charset),
 				});
 			}
 		}
@@ -169,83 +298,209 @@ class MoCompiler {
 		return list;
 	}
 
+	/**
+	 * Calculates the number of slots of the hash table, the same way msgfmt does
+	 * (the next prime after 4/3 of the strings count, at least 3)
+	 *
+	 * @param {number} count Number of strings in the MO object
+	 * @return {number} Hash table size, 0 if the hash table is disabled
+	 */
+	_calculateHashTableSize(count: number): number {
+		if (!this._options.hashTable) {
+			return 0;
+		}
+
+		const size = nextPrime(Math.floor((count * 4) / 3));
+
+		return size <= 2 ? 3 : size;
+	}
+
+	/**
+	 * Calculates the size of the MO header, revision 1 adds the counts and the
+	 * offsets of the system dependent segments and strings
+	 *
+	 * @return {number} Header size in bytes
+	 */
+	_headerSize(): number {
+		return this._revision ? 48 : 28;
+	}
+
 	/**
 	 * Calculate buffer size for the final binary object
 	 *
 	 * @param {any[]} list An array of translation strings from _generateList
-	 * @return {Object} Size data of {msgid, msgstr, total}
+	 * @return {Object} Size data of {msgid, msgstr, hashTable, sysdep, total}
 	 */
-	_calculateSize(list: { msgid: Buffer; msgstr: Buffer }[]): {
+	_calculateSize(list: { msgid: Uint8Array; msgstr: Uint8Array }[]): {
 		msgid: number;
 		msgstr: number;
+		hashTable: number;
+		sysdep: number;
 		total: number;
 	} {
+		const hashTableSize = this._calculateHashTableSize(
+			list.length + this._sysdepList.length,
+		);
+		const segments = this._sysdepSegments();
 		let msgidLength = 0;
 		let msgstrLength = 0;
 		let totalLength = 0;
+		// the segment table and the original and translation offset tables
+		let sysdepLength = 8 * segments.length + 8 * this._sysdepList.length;
 
 		for (const translation of list) {
 			msgidLength += translation.msgid.length + 1; // + extra 0x00
 			msgstrLength += translation.msgstr.length + 1; // + extra 0x00
 		}
 
+		for (const name of segments) {
+			sysdepLength += name.length + 1;
+		}
+
+		for (const entry of this._sysdepList) {
+			for (const str of [entry.msgid, entry.msgstr]) {
+				// the static offset, a segment pair per static part and the static parts
+				sysdepLength += 4 + 8 * str.statics.length + 1;
+
+				for (const part of str.statics) {
+					sysdepLength += part.length;
+				}
+			}
+		}
+
 		totalLength =
-			4 + // magic number
-			4 + // revision
-			4 + // string count
-			4 + // original string table offset
-			4 + // translation string table offset
-			4 + // hash table size
-			4 + // hash table offset
+			this._headerSize() + // magic number, revision, counts and offsets
 			(4 + 4) * list.length + // original string table
 			(4 + 4) * list.length + // translations string table
+			4 * hashTableSize + // hash table
 			msgidLength + // originals
-			msgstrLength; // translations
+			msgstrLength + // translations
+			sysdepLength; // system dependent strings
 
 		return {
 			msgid: msgidLength,
 			msgstr: msgstrLength,
+			hashTable: hashTableSize,
+			sysdep: sysdepLength,
 			total: totalLength,
 		};
 	}
 
+	/**
+	 * Builds the hash table for the sorted translation list. Collisions are resolved with
+	 * open addressing using the same double hashing as GNU gettext
+	 *
+	 * @param list sorted translation list, followed by the system dependent strings
+	 * @param hashTableSize number of slots in the hash table
+	 * @return {number[]} The hash table, each slot holds the string index + 1 (0 for empty slots)
+	 */
+	_generateHashTable(
+		list: { msgid: Uint8Array }[],
+		hashTableSize: number,
+	): number[] {
+		const hashTable: number[] = new Array(hashTableSize).fill(0);
+
+		for (let i = 0; i < list.length; i++) {
+			const hashValue = hashString(list[i].msgid);
+			let index = hashValue % hashTableSize;
+
+			if (hashTable[index] !== 0) {
+				const increment = 1 + (hashValue % (hashTableSize - 2));
+
+				do {
+					if (index >= hashTableSize - increment) {
+						index -= hashTableSize - increment;
+					} else {
+						index += increment;
+					}
+				} while (hashTable[index] !== 0);
+			}
+
+			hashTable[index] = i + 1;
+		}
+
+		return hashTable;
+	}
+
 	/**
 	 * Generates the binary MO object from the translation list
 	 *
 	 * @param list translation list
 	 * @param size Byte size information
-	 * @return {Buffer} Compiled MO object
+	 * @return {Uint8Array} Compiled MO object
 	 */
 	_build(
-		list: { msgid: Buffer; msgstr: Buffer }[],
-		size: { msgid: number; msgstr: number; total: number },
-	): Buffer {
-		const returnBuffer: Buffer = Buffer.alloc(size.total);
+		list: { msgid: Uint8Array; msgstr: Uint8Array }[],
+		size: {
+			msgid: number;
+			msgstr: number;
+			hashTable: number;
+			sysdep: number;
+			total: number;
+		},
+	): Uint8Array {
+		const returnBuffer = new Uint8Array(size.total);
+		const view = new DataView(returnBuffer.buffer);
+		const write = (value: number, offset: number) =>
+			view.setUint32(offset, value, this._littleEndian);
 		let curPosition = 0;
 
-		const { MAGIC, _writeFunc } = this;
-
-		// Write the headers
-		returnBuffer[_writeFunc](MAGIC, 0);
-		returnBuffer[_writeFunc](0, 4);
-		returnBuffer[_writeFunc](list.length, 8);
-		returnBuffer[_writeFunc](28, 12);
-		returnBuffer[_writeFunc](28 + (4 + 4) * list.length, 16);
-		returnBuffer[_writeFunc](0, 20);
-		returnBuffer[_writeFunc](28 + (4 + 4) * list.length * 2, 24);
+		const { MAGIC } = this;
 
 		// Calculate the position for the msgid and msgstr tables
-		const tableStart = 28;
+		const tableStart = this._headerSize();
 		const keyTableStart = tableStart + list.length * 8;
-		const valueTableStart = keyTableStart + list.length * 8;
-		curPosition = valueTableStart;
+		const hashTableStart = keyTableStart + list.length * 8;
+		const valueTableStart = hashTableStart + size.hashTable * 4;
+		const segments = this._sysdepSegments();
+		const origSysdepTableStart = valueTableStart + segments.length * 8;
+		const transSysdepTableStart =
+			origSysdepTableStart + this._sysdepList.length * 4;
+		let structPosition = transSysdepTableStart + this._sysdepList.length * 4;
+
+		curPosition = structPosition;
+
+		// the strings follow the structures of the system dependent strings
+		for (const entry of this._sysdepList) {
+			curPosition += 8 + 8 * entry.msgid.statics.length;
+			curPosition += 8 * entry.msgstr.statics.length;
+		}
+
+		// Write the headers
+		write(MAGIC, 0);
+		write(this._revision, 4);
+		write(list.length, 8);
+		write(tableStart, 12);
+		write(keyTableStart, 16);
+		write(size.hashTable, 20);
+		write(hashTableStart, 24);
+
+		if (this._revision) {
+			// the system dependent segments and strings, their tables follow the hash table
+			write(segments.length, 28);
+			write(valueTableStart, 32);
+			write(this._sysdepList.length, 36);
+			write(origSysdepTableStart, 40);
+			write(transSysdepTableStart, 44);
+		}
+
+		if (size.hashTable) {
+			const hashTable = this._generateHashTable(
+				[...list, ...this._sysdepList.map((entry) => ({ msgid: entry.key }))],
+				size.hashTable,
+			);
+
+			for (let i = 0; i < hashTable.length; i++) {
+				write(hashTable[i], hashTableStart + i * 4);
+			}
+		}
 
 		for (let i = 0; i < list.length; i++) {
 			const item = list[i];
 			// Write table entries for msgid
-			returnBuffer[_writeFunc](item.msgid.length, tableStart + i * 8);
-			returnBuffer[_writeFunc](curPosition, tableStart + i * 8 + 4);
-			item.msgid.copy(returnBuffer, curPosition);
+			write(item.msgid.length, tableStart + i * 8);
+			write(curPosition, tableStart + i * 8 + 4);
+			returnBuffer.set(item.msgid, curPosition);
 			curPosition += item.msgid.length + 1; // +1 for the null terminator
 			returnBuffer[curPosition - 1] = 0x00;
 		}
@@ -253,26 +508,74 @@ class MoCompiler {
 		for (let i = 0; i < list.length; i++) {
 			const item = list[i];
 			// Write table entries for msgstr
-			returnBuffer[_writeFunc](item.msgstr.length, keyTableStart + i * 8);
-			returnBuffer[_writeFunc](curPosition, keyTableStart + i * 8 + 4);
-			item.msgstr.copy(returnBuffer, curPosition);
+			write(item.msgstr.length, keyTableStart + i * 8);
+			write(curPosition, keyTableStart + i * 8 + 4);
+			returnBuffer.set(item.msgstr, curPosition);
 			curPosition += item.msgstr.length + 1; // +1 for the null terminator
 			returnBuffer[curPosition - 1] = 0x00;
 		}
 
+		segments.forEach((name, i) => {
+			// the length of the segment names includes the null terminator
+			write(name.length + 1, valueTableStart + i * 8);
+			write(curPosition, valueTableStart + i * 8 + 4);
+			returnBuffer.set(encodeLatin1(name), curPosition);
+			curPosition += name.length + 1;
+		});
+
+		this._sysdepList.forEach((entry, i) => {
+			for (const [str, tableStart] of [
+				[entry.msgid, origSysdepTableStart],
+				[entry.msgstr, transSysdepTableStart],
+			] as [MoSysdepString, number][]) {
+				write(structPosition, tableStart + i * 4);
+				write(curPosition, structPosition);
+
+				str.statics.forEach((part, index) => {
+					const last = index === str.segments.length;
+
+					// the last static part includes the null terminator
+					write(part.length + (last ? 1 : 0), structPosition + 4 + index * 8);
+					write(
+						last ? SEGMENTS_END : segments.indexOf(str.segments[index]),
+						structPosition + 8 + index * 8,
+					);
+					returnBuffer.set(part, curPosition);
+					curPosition += part.length;
+				});
+
+				curPosition += 1;
+				structPosition += 4 + 8 * str.statics.length;
+			}
+		});
+
 		return returnBuffer;
 	}
 
 	/**
 	 * Compiles translation object into a binary MO object
 	 *
-	 * @return {Buffer} Compiled MO object
+	 * @return {Uint8Array} Compiled MO object
 	 */
-	compile(): Buffer {
+	compile(): Uint8Array {
 		const list = this._generateList();
+
+		this._revision =
+			this._options.revision ?? (this._sysdepList.length ? 1 : 0);
+
+		if (!this._revision && this._sysdepList.length) {
+			throw new TypeError(
+				"MO revision 0 can't hold the system dependent strings",
+			);
+		}
+
 		const size = this._calculateSize(list);
 
-		list.sort(compareMsgid as (a: unknown, b: unknown) => number);
+		// sort by the raw bytes, like msgfmt does, so that lookups can use binary search
+		list.sort((left, right) => compareBytes(left.msgid, right.msgid));
+		this._sysdepList.sort((left, right) => compareBytes(left.key, right.key));
+
+		this._options.onStatistics?.(this.statistics);
 
 		return this._build(list, size);
 	}
@@ -1,43 +1,70 @@
-import convert from "./encoding.js";
-import { formatCharset, parseHeader } from "./shared.js";
+import {
+	compareBytes,
+	concatBytes,
+	decodeLatin1,
+	decodeUtf8,
+	encodeLatin1,
+	isBytes,
+} from "./bytes.js";
+import { decode } from "./encoding.js";
+import { formatCharset, hashString, parseHeader } from "./shared.js";
+import { getSysdepSegment } from "./sysdep.js";
 import type {
-	BufferReadFunc,
-	BufferWriteFunc,
 	GetTextTranslations,
+	MoDiagnostic,
+	MoDiagnosticCode,
+	MoValidationError,
 	TranslationEntry,
+	moParserOptions,
 } from "./types.js";
 
+/**
+ * The segment reference that ends a system dependent string
+ */
+const SEGMENTS_END = 0xffffffff;
+
 /**
  * Creates a MO parser object.
  *
  * @constructor
- * @param {Buffer} fileContents Binary MO object
+ * @param {Uint8Array} fileContents Binary MO object
  * @param {String} [defaultCharset] Default charset to use
+ * @param {moParserOptions} [options] Parser options
  */
 export class MoParser {
-	private _fileContents: Buffer;
-
-	/**
-	 * Method name for writing int32 values, default littleendian
-	 */
-	private _writeFunc: BufferWriteFunc = "writeUInt32LE";
+	protected _fileContents: Uint8Array;
+	protected _view: DataView;
 
 	/**
-	 * Method name for reading int32 values, default littleendian
+	 * The byte order of the int32 values, default littleendian
 	 */
-	private _readFunc: BufferReadFunc = "readUInt32LE";
-	private _charset: string;
-	private _table: GetTextTranslations;
+	protected _littleEndian = true;
+	protected _charset: string;
+	protected _table: GetTextTranslations;
 	/**
 	 * Magic constant to check the endianness of the input file
 	 */
 	MAGIC = 0x950412de;
 	_offsetOriginals?: number;
 	_offsetTranslations?: number;
+	_hashTableSize = 0;
+	_offsetHashTable?: number;
 	private _revision?: number = 0;
-	private _total = 0;
-	constructor(fileContents: Buffer, defaultCharset = "iso-8859-1") {
+	protected _total = 0;
+	protected _options: moParserOptions;
+	protected _diagnostics: MoDiagnostic[] = [];
+	constructor(
+		fileContents: Uint8Array,
+		defaultCharset = "iso-8859-1",
+		options: moParserOptions = {},
+	) {
 		this._fileContents = fileContents;
+		this._view = new DataView(
+			fileContents.buffer,
+			fileContents.byteOffset,
+			fileContents.byteLength,
+		);
+		this._options = options;
 
 		this._charset = defaultCharset;
 
@@ -53,15 +80,13 @@ export class MoParser {
 	 * @return {Boolean} Return true if magic was detected
 	 */
 	_checkMagick() {
-		if (this._fileContents.readUInt32LE(0) === this.MAGIC) {
-			this._readFunc = "readUInt32LE";
-			this._writeFunc = "writeUInt32LE";
+		if (this._view.getUint32(0, true) === this.MAGIC) {
+			this._littleEndian = true;
 
 			return true;
 		}
-		if (this._fileContents.readUInt32BE(0) === this.MAGIC) {
-			this._readFunc = "readUInt32BE";
-			this._writeFunc = "writeUInt32BE";
+		if (this._view.getUint32(0, false) === this.MAGIC) {
+			this._littleEndian = false;
 
 			return true;
 		}
@@ -69,57 +94,167 @@ export class MoParser {
 		return false;
 	}
 
+	/**
+	 * Reads an int32 value with the byte order of the input file
+	 *
+	 * @param {number} offset The offset of the value
+	 * @return {number} The value
+	 */
+	_read(offset: number): number {
+		return this._view.getUint32(offset, this._littleEndian);
+	}
+
+	/**
+	 * Returns the raw bytes of a string from the originals or the translations table
+	 *
+	 * @param {number} tableOffset Offset of the string table
+	 * @param {number} index Index of the string in the table
+	 * @return {Uint8Array} The string bytes, without the NUL terminator
+	 */
+	_readString(tableOffset: number, index: number): Uint8Array {
+		const length = this._read(tableOffset + index * 8);
+		const position = this._read(tableOffset + index * 8 + 4);
+
+		return this._fileContents.subarray(position, position + length);
+	}
+
+	/**
+	 * Decodes a raw string from the MO file charset
+	 *
+	 * @param {Uint8Array} bytes The string bytes
+	 * @return {string} The decoded string
+	 */
+	_decodeString(bytes: Uint8Array): string {
+		return decode(bytes, this._charset);
+	}
+
 	/**
 	 * Read the original strings and translations from the input MO file. Use the
 	 * first translation string in the file as the header.
 	 */
 	_loadTranslationTable() {
-		let offsetOriginals = this._offsetOriginals as number;
-		let offsetTranslations = this._offsetTranslations as number;
-		let position: number;
-		let length: number;
-
 		for (let i = 0; i < this._total; i++) {
 			// msgid string
-			length = this._fileContents[this._readFunc](offsetOriginals);
-			offsetOriginals += 4;
-			position = this._fileContents[this._readFunc](offsetOriginals);
-			offsetOriginals += 4;
-			const msgidBuffer = this._fileContents.subarray(
-				position,
-				position + length,
-			);
-			const msgid = convert(msgidBuffer, "utf-8", this._charset).toString(
-				"utf8",
-			);
+			const msgidBuffer = this._readString(this._offsetOriginals as number, i);
+			const msgid = this._decodeString(msgidBuffer);
 
 			// matching msgstr
-			length = this._fileContents[this._readFunc](offsetTranslations);
-			offsetTranslations += 4;
-			position = this._fileContents[this._readFunc](offsetTranslations);
-			offsetTranslations += 4;
-			const msgstrBuffer = this._fileContents.subarray(
-				position,
-				position + length,
-			);
-			const msgstr = convert(msgstrBuffer, "utf-8", this._charset).toString(
-				"utf8",
+			const msgstrBuffer = this._readString(
+				this._offsetTranslations as number,
+				i,
 			);
+			const msgstr = this._decodeString(msgstrBuffer);
 
 			if (!i && !msgid) {
-				this._handleCharset(msgstrBuffer); // Assuming _handleCharset can take a Buffer
+				this._handleCharset(msgstrBuffer);
 			}
 
 			this._addString(msgid, msgstr);
 		}
 	}
+	/**
+	 * Finds the value of a system dependent segment, the PO notation of the
+	 * segment (e.g. "<PRId64>") if no platform is set
+	 *
+	 * @param {string} name The segment name
+	 * @return {string | undefined} The value, undefined if the segment is unknown on the platform
+	 */
+	_sysdepValue(name: string): string | undefined {
+		if (!this._options.platform) {
+			return name.startsWith("PRI") ? `<${name}>` : name;
+		}
+
+		return getSysdepSegment(name, this._options.platform);
+	}
+
+	/**
+	 * Reads a system dependent string, its static parts joined with the values
+	 * of its segments
+	 *
+	 * @param {number} offset Offset of the string structure
+	 * @param {string[]} names The names of the segments
+	 * @return {Uint8Array | undefined} The string bytes, undefined if a segment is unknown
+	 */
+	_readSysdepString(offset: number, names: string[]): Uint8Array | undefined {
+		const parts: Uint8Array[] = [];
+		let position = this._read(offset);
+
+		for (let pair = offset + 4; ; pair += 8) {
+			const size = this._read(pair);
+			const reference = this._read(pair + 4);
+
+			parts.push(this._fileContents.subarray(position, position + size));
+			position += size;
+
+			if (reference === SEGMENTS_END) {
+				break;
+			}
+
+			const value = this._sysdepValue(names[reference] ?? "");
+
+			if (value === undefined) {
+				return undefined;
+			}
+
+			parts.push(encodeLatin1(value));
+		}
+
+		const str = concatBytes(parts);
+
+		// the last static part includes the null terminator
+		return str[str.length - 1] === 0x00 ? str.subarray(0, -1) : str;
+	}
+
+	/**
+	 * Reads the system dependent strings of a revision 1 MO file. Like the GNU
+	 * gettext runtime does, the strings with a segment unknown on the platform
+	 * are left out
+	 */
+	_loadSysdepStrings() {
+		// the minor revision 1 adds the system dependent strings
+		if (!((this._revision as number) & 0xffff)) {
+			return;
+		}
+
+		const segmentsOffset = this._read(32);
+		const origTableOffset = this._read(40);
+		const transTableOffset = this._read(44);
+		const names: string[] = [];
+
+		for (let i = 0; i < this._read(28); i++) {
+			const length = this._read(segmentsOffset + i * 8);
+			const position = this._read(segmentsOffset + i * 8 + 4);
+
+			names.push(
+				decodeLatin1(
+					this._fileContents.subarray(position, position + length),
+				).replace(/\0$/, ""),
+			);
+		}
+
+		for (let i = 0; i < this._read(36); i++) {
+			const msgid = this._readSysdepString(
+				this._read(origTableOffset + i * 4),
+				names,
+			);
+			const msgstr = this._readSysdepString(
+				this._read(transTableOffset + i * 4),
+				names,
+			);
+
+			if (msgid && msgstr) {
+				this._addString(this._decodeString(msgid), this._decodeString(msgstr));
+			}
+		}
+	}
+
 	/**
 	 * Detects charset for MO strings from the header
 	 *
-	 * @param {Buffer} headersRaw Header value
+	 * @param {Uint8Array} headersRaw Header value
 	 */
-	_handleCharset(headersRaw: Buffer) {
-		const headersStr = headersRaw.toString();
+	_handleCharset(headersRaw: Uint8Array) {
+		const headersStr = decodeUtf8(headersRaw);
 
 		const match = headersStr.match(/[; ]charset\s*=\s*([\w-]+)/i);
 		if (match) {
@@ -129,9 +264,7 @@ export class MoParser {
 			);
 		}
 
-		const headers = convert(headersRaw, "utf-8", this._charset).toString(
-			"utf8",
-		);
+		const headers = decode(headersRaw, this._charset);
 
 		this._table.headers = parseHeader(headers);
 	}
@@ -142,10 +275,9 @@ export class MoParser {
 	 * @param {String} msgidRaw Original string
 	 * @param {String} msgstr Translation for the original string
 	 */
-	_addString(msgidRaw: string | Buffer, msgstr: string) {
-		// Convert Buffer to string if necessary
-		const msgidString =
-			msgidRaw instanceof Buffer ? msgidRaw.toString() : msgidRaw;
+	_addString(msgidRaw: string | Uint8Array, msgstr: string) {
+		// Convert the bytes to string if necessary
+		const msgidString = isBytes(msgidRaw) ? decodeUtf8(msgidRaw) : msgidRaw;
 
 		// Initialize the translation object
 		const translation: TranslationEntry = {
@@ -178,11 +310,11 @@ export class MoParser {
 	}
 
 	/**
-	 * Parses the MO object and returns translation table
+	 * Checks the magic bytes and reads the MO file header
 	 *
-	 * @return {GetTextTranslations} Translation table
+	 * @return {boolean} Return true if the file header is valid
 	 */
-	parse(): GetTextTranslations | false {
+	_readHeader(): boolean {
 		if (!this._checkMagick()) {
 			return false;
 		}
@@ -190,25 +322,490 @@ export class MoParser {
 		/**
 		 * GetText revision nr, usually 0
 		 */
-		this._revision = this._fileContents[this._readFunc](4);
+		this._revision = this._read(4);
 
 		/**
 		 * Total count of translated strings
 		 */
-		this._total = this._fileContents[this._readFunc](8);
+		this._total = this._read(8);
 
 		/**
 		 * Offset position for original strings table
 		 */
-		this._offsetOriginals = this._fileContents[this._readFunc](12);
+		this._offsetOriginals = this._read(12);
 
 		/**
 		 * Offset position for translation strings table
 		 */
-		this._offsetTranslations = this._fileContents[this._readFunc](16);
+		this._offsetTranslations = this._read(16);
+
+		/**
+		 * Size and offset position of the hash table, the size is 0 if the table is omitted
+		 */
+		this._hashTableSize = this._read(20);
+		this._offsetHashTable = this._read(24);
+
+		return true;
+	}
+
+	/**
+	 * Reports a structural problem of the MO object
+	 *
+	 * @param {MoDiagnosticCode} code The diagnostic code
+	 * @param {number} offset The offset of the invalid value
+	 * @param {string} message The description of the problem
+	 */
+	_report(code: MoDiagnosticCode, offset: number, message: string) {
+		this._diagnostics.push({ code, message, offset });
+	}
+
+	/**
+	 * Checks if a range of bytes is inside the MO object
+	 *
+	 * @param {number} offset The start of the range
+	 * @param {number} length The length of the range
+	 * @return {boolean} Return true if the range is inside the MO object
+	 */
+	_inBounds(offset: number, length: number): boolean {
+		return offset + length <= this._fileContents.length;
+	}
+
+	/**
+	 * Checks the size, the magic bytes and the revision of the MO header
+	 *
+	 * @return {boolean} Return true if the rest of the MO object can be checked
+	 */
+	_validateHeader(): boolean {
+		const size = this._fileContents.length;
+
+		if (size < 28) {
+			this._report(
+				"header-size",
+				0,
+				`The MO header needs 28 bytes, the file has ${size}`,
+			);
+
+			return false;
+		}
+
+		if (!this._readHeader()) {
+			this._report(
+				"magic",
+				0,
+				`Unknown magic number 0x${this._view.getUint32(0).toString(16)}`,
+			);
+
+			return false;
+		}
+
+		const revision = this._revision as number;
+
+		// the runtimes only read the major revision 0
+		if (revision >>> 16) {
+			this._report(
+				"revision",
+				4,
+				`Unsupported MO revision ${revision >>> 16}.${revision & 0xffff}`,
+			);
+
+			return false;
+		}
+
+		if (revision & 0xffff && size < 48) {
+			this._report(
+				"header-size",
+				0,
+				`The MO revision 1 header needs 48 bytes, the file has ${size}`,
+			);
+
+			return false;
+		}
+
+		return true;
+	}
+
+	/**
+	 * Checks that a table of the MO object fits in it
+	 *
+	 * @param {number} field The offset of the header field with the table offset
+	 * @param {number} count The number of entries
+	 * @param {number} entrySize The size of an entry
+	 * @param {string} name The name of the table
+	 * @return {boolean} Return true if the table is inside the MO object
+	 */
+	_validateTable(
+		field: number,
+		count: number,
+		entrySize: number,
+		name: string,
+	): boolean {
+		const offset = this._read(field);
+
+		if (!this._inBounds(offset, count * entrySize)) {
+			this._report(
+				"table-bounds",
+				field,
+				`The ${name} table of ${count} entries at offset ${offset} exceeds the file size ${this._fileContents.length}`,
+			);
+
+			return false;
+		}
+
+		return true;
+	}
+
+	/**
+	 * Checks the strings of the originals or the translations table, each one must
+	 * be inside the MO object and end with a NUL byte
+	 *
+	 * @param {number} tableOffset Offset of the string table
+	 * @param {string} name The kind of the strings
+	 * @return {(Uint8Array | undefined)[]} The string bytes, undefined for the strings out of bounds
+	 */
+	_validateStrings(
+		tableOffset: number,
+		name: string,
+	): (Uint8Array | undefined)[] {
+		const strings: (Uint8Array | undefined)[] = [];
+
+		for (let i = 0; i < this._total; i++) {
+			const entry = tableOffset + i * 8;
+			const length = this._read(entry);
+			const position = this._read(entry + 4);
+
+			if (!this._inBounds(position, length + 1)) {
+				this._report(
+					"string-bounds",
+					entry,
+					`The ${name} string ${i} of ${length} bytes at offset ${position} exceeds the file size ${this._fileContents.length}`,
+				);
+				strings.push(undefined);
+				continue;
+			}
+
+			if (this._fileContents[position + length] !== 0x00) {
+				this._report(
+					"missing-nul",
+					position + length,
+					`The ${name} string ${i} is not terminated by a NUL byte at offset ${
+						position + length
+					}`,
+				);
+			}
+
+			strings.push(this._fileContents.subarray(position, position + length));
+		}
+
+		return strings;
+	}
+
+	/**
+	 * Checks that the originals are sorted and unique the way strcmp compares
+	 * them, the binary search of the runtimes relies on it
+	 *
+	 * @param {(Uint8Array | undefined)[]} originals The original strings
+	 */
+	_validateOrder(originals: (Uint8Array | undefined)[]) {
+		let previous: Uint8Array | undefined;
+
+		for (let i = 0; i < originals.length; i++) {
+			const original = originals[i];
+
+			if (!original) {
+				continue;
+			}
+
+			const separator = original.indexOf(0x00);
+			const key = separator === -1 ? original : original.subarray(0, separator);
+
+			if (previous && compareBytes(previous, key) >= 0) {
+				this._report(
+					"sort-order",
+					(this._offsetOriginals as number) + i * 8,
+					`The original string ${i} is not sorted after the previous one`,
+				);
+			}
+
+			previous = key;
+		}
+	}
+
+	/**
+	 * Checks that a string is found by a lookup in the hash table
+	 *
+	 * @param {Uint8Array} key The original string
+	 * @param {number} entry The hash table entry of the string, its index plus one
+	 * @return {boolean} Return true if the lookup finds the string
+	 */
+	_inHashTable(key: Uint8Array, entry: number): boolean {
+		const size = this._hashTableSize;
+		const hashValue = hashString(key);
+		const increment = 1 + (hashValue % (size - 2));
+		let slot = hashValue % size;
+
+		for (let probes = 0; probes < size; probes++) {
+			const value = this._read((this._offsetHashTable as number) + slot * 4);
+
+			if (value === 0 || value === entry) {
+				return value === entry;
+			}
+
+			if (slot >= size - increment) {
+				slot -= size - increment;
+			} else {
+				slot += increment;
+			}
+		}
+
+		return false;
+	}
+
+	/**
+	 * Checks that the hash table slots refer to existing strings and that every
+	 * original string is found with the hash table
+	 *
+	 * @param {(Uint8Array | undefined)[]} originals The original strings
+	 * @param {number} sysdepCount The number of system dependent strings
+	 */
+	_validateHashTable(
+		originals: (Uint8Array | undefined)[],
+		sysdepCount: number,
+	) {
+		const size = this._hashTableSize;
+		const count = this._total + sysdepCount;
+
+		if (!size || !this._validateTable(24, size, 4, "hash")) {
+			return;
+		}
+
+		for (let slot = 0; slot < size; slot++) {
+			const offset = (this._offsetHashTable as number) + slot * 4;
+			const entry = this._read(offset);
+
+			if (entry > count) {
+				this._report(
+					"hash-table",
+					offset,
+					`The hash table slot ${slot} refers to the string ${entry}, the file has ${count}`,
+				);
+			}
+		}
+
+		// the hash table needs at least 3 slots for the second hashing function
+		if (size < 3) {
+			return;
+		}
+
+		for (let i = 0; i < originals.length; i++) {
+			const original = originals[i];
+
+			if (original && !this._inHashTable(original, i + 1)) {
+				this._report(
+					"hash-table",
+					(this._offsetOriginals as number) + i * 8,
+					`The original string ${i} is not found in the hash table`,
+				);
+			}
+		}
+	}
+
+	/**
+	 * Checks a system dependent string: its segments, its static parts and the
+	 * NUL byte that ends the last static part
+	 *
+	 * @param {number} entry The offset of the string in its table
+	 * @param {number} segmentCount The number of segments
+	 * @param {string} name The name of the string
+	 */
+	_validateSysdepString(entry: number, segmentCount: number, name: string) {
+		const offset = this._read(entry);
+
+		if (!this._inBounds(offset, 4)) {
+			this._report(
+				"string-bounds",
+				entry,
+				`The ${name} at offset ${offset} exceeds the file size ${this._fileContents.length}`,
+			);
+
+			return;
+		}
+
+		let position = this._read(offset);
+
+		for (let pair = offset + 4; ; pair += 8) {
+			if (!this._inBounds(pair, 8)) {
+				this._report(
+					"string-bounds",
+					pair,
+					`The segments of the ${name} exceed the file size ${this._fileContents.length}`,
+				);
+
+				return;
+			}
+
+			const size = this._read(pair);
+			const reference = this._read(pair + 4);
+
+			if (!this._inBounds(position, size)) {
+				this._report(
+					"string-bounds",
+					pair,
+					`The ${name} has a part of ${size} bytes at offset ${position} that exceeds the file size ${this._fileContents.length}`,
+				);
+
+				return;
+			}
+
+			position += size;
+
+			if (reference === SEGMENTS_END) {
+				// the last static part includes the null terminator
+				if (!size || this._fileContents[position - 1] !== 0x00) {
+					const end = size ? position - 1 : position;
+
+					this._report(
+						"missing-nul",
+						end,
+						`The ${name} is not terminated by a NUL byte at offset ${end}`,
+					);
+				}
+
+				return;
+			}
+
+			if (reference >= segmentCount) {
+				this._report(
+					"sysdep-segment",
+					pair + 4,
+					`The ${name} refers to the segment ${reference}, the file has ${segmentCount}`,
+				);
+			}
+		}
+	}
+
+	/**
+	 * Checks the segment names and the system dependent strings of a revision 1
+	 * MO file
+	 *
+	 * @return {number} The number of system dependent strings
+	 */
+	_validateSysdepStrings(): number {
+		if (!((this._revision as number) & 0xffff)) {
+			return 0;
+		}
+
+		const segmentCount = this._read(28);
+		const sysdepCount = this._read(36);
+
+		if (this._validateTable(32, segmentCount, 8, "segments")) {
+			for (let i = 0; i < segmentCount; i++) {
+				const entry = this._read(32) + i * 8;
+				const length = this._read(entry);
+				const position = this._read(entry + 4);
+
+				if (!this._inBounds(position, length)) {
+					this._report(
+						"string-bounds",
+						entry,
+						`The segment name ${i} of ${length} bytes at offset ${position} exceeds the file size ${this._fileContents.length}`,
+					);
+				} else if (!length || this._fileContents[position + length - 1]) {
+					const end = position + Math.max(length - 1, 0);
+
+					// the length of a segment name includes its null terminator
+					this._report(
+						"missing-nul",
+						end,
+						`The segment name ${i} is not terminated by a NUL byte at offset ${end}`,
+					);
+				}
+			}
+		}
+
+		const tables: [number, string][] = [
+			[40, "original system dependent"],
+			[44, "translation system dependent"],
+		];
+
+		for (const [field, name] of tables) {
+			if (this._validateTable(field, sysdepCount, 4, name)) {
+				for (let i = 0; i < sysdepCount; i++) {
+					this._validateSysdepString(
+						this._read(field) + i * 4,
+						segmentCount,
+						`${name} string ${i}`,
+					);
+				}
+			}
+		}
+
+		return sysdepCount;
+	}
+
+	/**
+	 * Checks the structure of the MO object without trusting any of its lengths
+	 * and offsets: the header size, the bounds of the tables and of the strings,
+	 * the NUL terminators, the sort order of the originals and the hash table
+	 *
+	 * @return {MoDiagnostic[]} The problems, empty if the MO object is valid
+	 */
+	validate(): MoDiagnostic[] {
+		this._diagnostics = [];
+
+		if (!this._validateHeader()) {
+			return this._diagnostics;
+		}
+
+		let originals: (Uint8Array | undefined)[] = [];
+
+		if (this._validateTable(12, this._total, 8, "originals")) {
+			originals = this._validateStrings(
+				this._offsetOriginals as number,
+				"original",
+			);
+		}
+
+		if (this._validateTable(16, this._total, 8, "translations")) {
+			this._validateStrings(this._offsetTranslations as number, "translation");
+		}
+
+		const sysdepCount = this._validateSysdepStrings();
+
+		this._validateOrder(originals);
+		this._validateHashTable(originals, sysdepCount);
+
+		return this._diagnostics;
+	}
+
+	/**
+	 * Parses the MO object and returns translation table
+	 *
+	 * @return {GetTextTranslations} Translation table
+	 * @throws {MoValidationError} Will throw an error on the first structural problem, with validation
+	 */
+	parse(): GetTextTranslations | false {
+		if (this._options.validation) {
+			const [diagnostic] = this.validate();
+
+			if (diagnostic) {
+				const err: Partial<MoValidationError> = new SyntaxError(
+					`Invalid MO file: ${diagnostic.message}`,
+				);
+
+				err.code = diagnostic.code;
+				err.offset = diagnostic.offset;
+
+				throw err as MoValidationError;
+			}
+		}
+
+		if (!this._readHeader()) {
+			return false;
+		}
 
 		// Load translations into this._translationTable
 		this._loadTranslationTable();
+		this._loadSysdepStrings();
 
 		return this._table;
 	}
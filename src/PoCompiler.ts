@@ -1,20 +1,64 @@
 import * as contentType from "content-type";
-import convert from "./encoding.js";
+import { encodeUtf8 } from "./bytes.js";
+import { encode } from "./encoding.js";
+import { stringifyFlags } from "./flags.js";
 import {
 	HEADERS,
 	compareMsgid,
+	escapeString,
 	foldLine,
 	formatCharset,
 	generateHeader,
+	parseHeader,
 } from "./shared.js";
 import type {
 	GetTextComment,
 	GetTextTranslations,
+	PoCstEntry,
+	PoCstNode,
 	TranslationEntry,
+	TranslationEntryPrevious,
 	parserOptions,
 } from "./types.js";
 
-function parseOptions(optionsRaw?: parserOptions): parserOptions {
+/**
+ * Compares two parsed values (strings, arrays and plain objects) by content
+ *
+ * @param left The first value
+ * @param right The second value
+ * @return {boolean} True if the values are equal
+ */
+function isEqual(left: unknown, right: unknown): boolean {
+	if (left === right) {
+		return true;
+	}
+
+	if (
+		typeof left !== "object" ||
+		typeof right !== "object" ||
+		left === null ||
+		right === null ||
+		Array.isArray(left) !== Array.isArray(right)
+	) {
+		return false;
+	}
+
+	const leftRecord = left as Record<string, unknown>;
+	const rightRecord = right as Record<string, unknown>;
+	const keys = Object.keys(leftRecord).filter(
+		(key) => typeof leftRecord[key] !== "undefined",
+	);
+
+	return (
+		keys.length ===
+			Object.keys(rightRecord).filter(
+				(key) => typeof rightRecord[key] !== "undefined",
+			).length &&
+		keys.every((key) => isEqual(leftRecord[key], rightRecord[key]))
+	);
+}
+
+function parseOptions(optionsRaw?: Partial<parserOptions>): parserOptions {
 	const options: Partial<parserOptions> = { ...optionsRaw };
 	if (!("foldLength" in options)) {
 		options.foldLength = 76;
@@ -38,16 +82,24 @@ function parseOptions(optionsRaw?: parserOptions): parserOptions {
 class PoCompiler {
 	_table: GetTextTranslations;
 	_options: parserOptions;
+	_headersChanged: boolean;
+	_sourceEol: boolean;
 
-	constructor(table: GetTextTranslations, options?: parserOptions) {
+	constructor(table: GetTextTranslations, options?: Partial<parserOptions>) {
 		this._table = table;
 
 		this._options = parseOptions(options);
 
+		// without the eol option, a lossless compilation keeps the line ending of the source
+		this._sourceEol = !options || !("eol" in options);
+
 		this._table.translations = this._table.translations || {};
 
 		let { headers = {} } = this._table;
 
+		// the headers get normalized, compare them with the parsed ones before
+		this._headersChanged = this._compareHeaders(headers);
+
 		headers = Object.keys(headers).reduce(
 			(result: { [headerName: string]: string }, key: string) => {
 				const lowerKey = key.toLowerCase();
@@ -136,7 +188,21 @@ class PoCompiler {
 		const msgidPlural = override.msgid_plural || block.msgid_plural;
 		const realMsgstr: string[] = override.msgstr || block.msgstr;
 		const msgstr = [].concat(realMsgstr as never[]);
-		const comments = override.comments || block.comments;
+		let comments = override.comments || block.comments;
+		const flags = override.flags || block.flags;
+		const previous = override.previous || block.previous;
+
+		// the structured flags and previous strings replace their comments
+		if (flags) {
+			comments = { ...comments, flag: stringifyFlags(flags) || undefined };
+		}
+
+		if (previous) {
+			comments = {
+				...comments,
+				previous: this._drawPrevious(previous) || undefined,
+			};
+		}
 
 		// add comments
 		if (comments) {
@@ -167,6 +233,24 @@ class PoCompiler {
 		return response.join(this._options.eol);
 	}
 
+	/**
+	 * Draws the previous strings as the lines of the "#|" comment
+	 *
+	 * @param {TranslationEntryPrevious} previous The previous strings
+	 * @return {string} The previous comment
+	 */
+	_drawPrevious(previous: TranslationEntryPrevious): string {
+		const lines: string[] = [];
+
+		for (const key of ["msgctxt", "msgid", "msgid_plural"] as const) {
+			if (typeof previous[key] === "string") {
+				lines.push(this._addPOString(key, previous[key]));
+			}
+		}
+
+		return lines.join(this._options.eol);
+	}
+
 	/**
 	 * Escapes and joins a key and a value for the PO string
 	 *
@@ -181,21 +265,10 @@ class PoCompiler {
 			key = `#~ ${key}`;
 		}
 
-		let value = valueRaw;
-
 		let { foldLength, eol, escapeCharacters } = this._options;
 
-		// escape newlines and quotes
-		if (escapeCharacters) {
-			value = value
-				.toString()
-				.replace(/\\/g, "\\\\")
-				.replace(/"/g, '\\"')
-				.replace(/\t/g, "\\t")
-				.replace(/\r/g, "\\r");
-		}
-
-		value = value.replace(/\n/g, "\\n"); // need to escape new line characters regardless
+		// escape the quotes and the control characters, the newlines are escaped regardless
+		const value = escapeString(valueRaw.toString(), escapeCharacters);
 
 		let lines = [value];
 
@@ -296,12 +369,217 @@ class PoCompiler {
 		return response;
 	}
 
+	/**
+	 * Checks if the header entry has to be drawn again, when the table keeps the
+	 * concrete syntax tree of a parsed source
+	 *
+	 * @param {Record<string, string>} headers The headers of the table
+	 * @return {boolean} True if the headers are not the parsed ones
+	 */
+	_compareHeaders(headers: Record<string, string>): boolean {
+		const headerNode = this._table.cst?.find(
+			(node) => node.type === "entry" && this._isHeaderNode(node),
+		) as PoCstEntry | undefined;
+
+		if (!headerNode) {
+			return Object.keys(headers).length > 0;
+		}
+
+		return !isEqual(parseHeader(headerNode.entry.msgstr[0]), headers);
+	}
+
+	/**
+	 * Checks if a syntax tree node is the header entry
+	 *
+	 * @param {PoCstEntry} node The entry node
+	 * @return {boolean} True for the header entry
+	 */
+	_isHeaderNode(node: PoCstEntry): boolean {
+		return !node.obsolete && !node.msgctxt && !node.msgid;
+	}
+
+	/**
+	 * Checks if an entry is the same as when it was parsed
+	 *
+	 * @param {PoCstEntry} node The entry node, the last one if the entry was declared more than once
+	 * @param {TranslationEntry} entry The current entry
+	 * @return {boolean} True if the source text of the entry can be kept
+	 */
+	_isUnchanged(node: PoCstEntry, entry: TranslationEntry): boolean {
+		const { positions, ...current } = entry;
+
+		if (this._isHeaderNode(node)) {
+			// the msgstr of the header is drawn from the headers
+			const { msgstr, ...parsed } = node.entry;
+			const { msgstr: currentMsgstr, ...header } = current;
+
+			return !this._headersChanged && isEqual(parsed, header);
+		}
+
+		return isEqual(node.entry, current);
+	}
+
+	/**
+	 * Draws a changed entry of the syntax tree
+	 *
+	 * @param {PoCstEntry} node The entry node
+	 * @param {TranslationEntry} entry The current entry
+	 * @return {string} The entry string
+	 */
+	_drawNode(node: PoCstEntry, entry: TranslationEntry): string {
+		if (this._isHeaderNode(node)) {
+			return this._drawBlock(entry, {
+				msgstr: [generateHeader(this._table.headers)],
+			});
+		}
+
+		return this._drawBlock(entry, {}, node.obsolete);
+	}
+
+	/**
+	 * Compiles the translation table over the concrete syntax tree of the parsed source.
+	 * Unchanged entries keep their source text, changed entries are drawn again, removed
+	 * entries are dropped and new entries are added after the last entry of their section
+	 *
+	 * @param {PoCstNode[]} cst The concrete syntax tree
+	 * @return {string} The PO string
+	 */
+	_compileLossless(cst: PoCstNode[]): string {
+		const firstEntry = cst.find((node) => node.type === "entry") as PoCstEntry;
+
+		if (this._sourceEol && firstEntry.eol) {
+			this._options.eol = firstEntry.eol;
+		}
+
+		const { eol } = this._options;
+		// the byte order mark is the first trivia, it is kept before an added header
+		const bom =
+			cst[0]?.type === "trivia" && cst[0].source === "\uFEFF"
+				? cst[0].source
+				: "";
+		const separator = eol + eol;
+		const items: PoCstNode[] = [];
+		const sections = [
+			this._prepareSection(this._table.translations) || [],
+			this._prepareSection(this._table.obsolete || {}) || [],
+		];
+		const remaining = sections.map((entries) => new Set(entries));
+		const nodeKey = (node: PoCstEntry) =>
+			[node.obsolete ? "~" : "", node.msgctxt, node.msgid].join("\u0004");
+		const lastNodes = new Map<string, PoCstEntry>();
+		const drawn = new Set<TranslationEntry>();
+		let skipTrivia = false;
+
+		for (const node of cst) {
+			if (node.type === "entry") {
+				lastNodes.set(nodeKey(node), node);
+			}
+		}
+
+		for (const node of bom ? cst.slice(1) : cst) {
+			if (node.type === "trivia") {
+				if (!skipTrivia || node.source.trim()) {
+					items.push(node);
+				}
+
+				skipTrivia = false;
+				continue;
+			}
+
+			const section = node.obsolete
+				? this._table.obsolete
+				: this._table.translations;
+			// the header is always drawn, like in the regular compilation
+			const entry =
+				section?.[node.msgctxt]?.[node.msgid] ||
+				(this._isHeaderNode(node) ? { msgid: "", msgstr: [] } : undefined);
+
+			skipTrivia = false;
+
+			// a changed entry that was declared more than once is drawn only once
+			if (typeof entry !== "object" || drawn.has(entry)) {
+				// drop the blank lines around the removed entry
+				const last = items[items.length - 1];
+
+				if (last?.type === "trivia" && !last.source.trim()) {
+					items.pop();
+				} else {
+					skipTrivia = true;
+				}
+
+				continue;
+			}
+
+			remaining[node.obsolete ? 1 : 0].delete(entry);
+
+			if (
+				this._isUnchanged(lastNodes.get(nodeKey(node)) as PoCstEntry, entry)
+			) {
+				items.push(node);
+			} else {
+				drawn.add(entry);
+				items.push({ ...node, source: this._drawNode(node, entry) });
+			}
+		}
+
+		for (const obsolete of [false, true]) {
+			const index = obsolete ? 1 : 0;
+			const blocks = sections[index]
+				.filter((entry) => remaining[index].has(entry))
+				.flatMap((entry): PoCstNode[] => [
+					{ type: "trivia", source: separator },
+					{
+						type: "entry",
+						source: this._drawBlock(entry, {}, obsolete),
+						eol,
+						msgctxt: entry.msgctxt || "",
+						msgid: entry.msgid,
+						obsolete,
+						entry,
+					},
+				]);
+			let anchor = -1;
+
+			items.forEach((item, i) => {
+				if (item.type === "entry" && (obsolete || !item.obsolete)) {
+					anchor = i;
+				}
+			});
+
+			items.splice(anchor + 1, 0, ...blocks);
+		}
+
+		// the source had no header entry, add it first if there are headers
+		const hasHeader = cst.some(
+			(node) => node.type === "entry" && this._isHeaderNode(node),
+		);
+
+		if (!hasHeader && this._headersChanged) {
+			items.unshift(
+				{
+					type: "trivia",
+					source: this._drawBlock(
+						{ msgid: "", msgstr: [] },
+						{ msgstr: [generateHeader(this._table.headers)] },
+					),
+				},
+				{ type: "trivia", source: separator },
+			);
+		}
+
+		return bom + items.map((item) => item.source).join("");
+	}
+
 	/**
 	 * Compiles translation object into a PO object
 	 *
-	 * @return {Buffer} Compiled PO object
+	 * @return {Uint8Array} Compiled PO object
 	 */
-	compile(): Buffer | string {
+	compile(): Uint8Array {
+		if (this._table.cst?.some((node) => node.type === "entry")) {
+			return this._encode(this._compileLossless(this._table.cst));
+		}
+
 		const headerBlock = this._table.translations[""]?.[""] || {};
 		let response = [];
 
@@ -326,14 +604,21 @@ class PoCompiler {
 			}),
 		);
 
+		return this._encode(response.join(eol + eol) + eol);
+	}
+
+	/**
+	 * Encodes the PO string with the charset of the table
+	 *
+	 * @param {string} str The PO string
+	 * @return {Uint8Array} The encoded PO file
+	 */
+	_encode(str: string): Uint8Array {
 		if (this._table.charset === "utf-8" || this._table.charset === "ascii") {
-			return Buffer.from(response.join(eol + eol) + eol, "utf-8");
+			return encodeUtf8(str);
 		}
 
-		return convert(
-			response.join(eol + eol) + eol,
-			this._table.charset as string,
-		);
+		return encode(str, this._table.charset as string);
 	}
 }
 
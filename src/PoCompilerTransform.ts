@@ -0,0 +1,135 @@
+import {
+	Transform,
+	type TransformCallback,
+	type TransformOptions,
+} from "node:stream";
+import PoCompiler from "./PoCompiler.js";
+import { generateHeader, parseHeader } from "./shared.js";
+import type {
+	GetTextTranslationRaw,
+	PoCompileStreamHeader,
+	TranslationEntry,
+	parserOptions,
+} from "./types.js";
+
+/**
+ * Compiles PO entries written in object mode, the header object first, into PO text chunks
+ *
+ * @constructor
+ * @param {parserOptions} [options] Compiler options, same as in compile
+ * @param {TransformOptions} [transformOptions] Optional stream options
+ */
+class PoCompilerTransform extends Transform {
+	options: parserOptions | undefined;
+	_compiler: PoCompiler | false;
+
+	constructor(
+		options?: parserOptions,
+		transformOptions: TransformOptions = {},
+	) {
+		super({ ...transformOptions, writableObjectMode: true });
+		this.options = options;
+		this._compiler = false;
+	}
+
+	_transform(
+		chunk: PoCompileStreamHeader | GetTextTranslationRaw,
+		encoding: BufferEncoding,
+		done: TransformCallback,
+	) {
+		try {
+			if (!this._compiler) {
+				if (this._isHeader(chunk)) {
+					this._pushHeader(chunk);
+
+					return done();
+				}
+
+				this._pushHeader({});
+			}
+
+			this._pushEntry(chunk as GetTextTranslationRaw);
+		} catch (error) {
+			return done(error as Error);
+		}
+
+		done();
+	}
+
+	_flush(done: TransformCallback) {
+		try {
+			if (!this._compiler) {
+				this._pushHeader({});
+			}
+
+			const compiler = this._compiler as PoCompiler;
+
+			this.push(compiler._encode(compiler._options.eol));
+		} catch (error) {
+			return done(error as Error);
+		}
+
+		done();
+	}
+
+	/**
+	 * Checks if the first object is the header, either a header object or the header entry
+	 *
+	 * @param chunk The first written object
+	 * @return {boolean} True for the header
+	 */
+	_isHeader(chunk: PoCompileStreamHeader | GetTextTranslationRaw): boolean {
+		if (!("msgid" in chunk)) {
+			return true;
+		}
+
+		return !chunk.msgctxt && !chunk.msgid && !chunk.obsolete;
+	}
+
+	/**
+	 * Creates the compiler from the header and pushes the header entry
+	 *
+	 * @param header The header object or the header entry
+	 */
+	_pushHeader(header: PoCompileStreamHeader | GetTextTranslationRaw) {
+		let block: Partial<TranslationEntry> = {};
+		let { charset, headers } = header as PoCompileStreamHeader;
+
+		if ("msgid" in header) {
+			block = header;
+			charset = undefined;
+			headers = parseHeader(header.msgstr?.[0]);
+		}
+
+		this._compiler = new PoCompiler(
+			{ charset: charset as string, headers, translations: {} },
+			this.options,
+		);
+
+		this.push(
+			this._compiler._encode(
+				this._compiler._drawBlock(block as TranslationEntry, {
+					msgstr: [generateHeader(this._compiler._table.headers)],
+				}),
+			),
+		);
+	}
+
+	/**
+	 * Pushes an entry, preceded by the blank line that separates the entries
+	 *
+	 * @param entry The entry, obsolete entries have the obsolete flag
+	 */
+	_pushEntry(entry: GetTextTranslationRaw) {
+		const compiler = this._compiler as PoCompiler;
+		const { eol } = compiler._options;
+
+		this.push(
+			compiler._encode(
+				eol + eol + compiler._drawBlock(entry, {}, !!entry.obsolete),
+			),
+		);
+	}
+}
+
+export default PoCompilerTransform;
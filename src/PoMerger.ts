@@ -0,0 +1,408 @@
+import { isFuzzy } from "./flags.js";
+import {
+	escapeString,
+	generateHeader,
+	parseNPluralFromHeadersSafely,
+	splitFlags,
+} from "./shared.js";
+import type {
+	GetTextComment,
+	GetTextTranslations,
+	TranslationEntry,
+	gettextTranslation,
+	poMergeOptions,
+} from "./types.js";
+
+/**
+ * The minimum similarity for a fuzzy match, the same as msgmerge
+ */
+const FUZZY_THRESHOLD = 0.6;
+
+/**
+ * Computes the similarity of two strings, a value between 0 (nothing in common) and 1 (equal),
+ * as twice the length of the longest common subsequence divided by the total length
+ *
+ * @param left The first string
+ * @param right The second string
+ * @param lowerBound Skip the full computation if the similarity is surely below this value
+ * @return {number} The similarity
+ */
+function similarity(left: string, right: string, lowerBound = 0): number {
+	const total = left.length + right.length;
+
+	if (left === right) {
+		return 1;
+	}
+
+	if (!left.length || !right.length) {
+		return 0;
+	}
+
+	// the longest common subsequence can't be longer than the shortest string
+	if ((2 * Math.min(left.length, right.length)) / total < lowerBound) {
+		return 0;
+	}
+
+	let previous: number[] = new Array(right.length + 1).fill(0);
+	let current: number[] = new Array(right.length + 1).fill(0);
+
+	for (let i = 1; i <= left.length; i++) {
+		for (let j = 1; j <= right.length; j++) {
+			current[j] =
+				left[i - 1] === right[j - 1]
+					? previous[j - 1] + 1
+					: Math.max(previous[j], current[j - 1]);
+		}
+
+		[previous, current] = [current, previous];
+	}
+
+	return (2 * previous[right.length]) / total;
+}
+
+/**
+ * Quotes a string as a PO string, used for the previous (#|) comments
+ *
+ * @param key The keyword (msgctxt, msgid or msgid_plural)
+ * @param value The unescaped value
+ * @return {string} The PO line
+ */
+function drawPrevious(key: string, value: string): string {
+	return `${key} "${escapeString(value)}"`;
+}
+
+/**
+ * Updates a PO translation table from a new POT template, the same way msgmerge does
+ *
+ * @constructor
+ * @param {GetTextTranslations} po The translated catalog
+ * @param {GetTextTranslations} pot The new template
+ * @param {poMergeOptions} [options] Merge options
+ */
+class PoMerger {
+	_po: GetTextTranslations;
+	_pot: GetTextTranslations;
+	_options: poMergeOptions;
+	_nplurals: number;
+	_used: Set<TranslationEntry>;
+	_candidates: TranslationEntry[];
+
+	constructor(
+		po: GetTextTranslations,
+		pot: GetTextTranslations,
+		options: poMergeOptions = {},
+	) {
+		this._po = po;
+		this._pot = pot;
+		this._options = { fuzzyMatching: true, previous: true, ...options };
+		this._nplurals = parseNPluralFromHeadersSafely(po.headers || {}, 2);
+		this._used = new Set();
+		this._candidates = [];
+
+		// only translated entries are used for fuzzy matching
+		for (const entry of this._entries(po.translations)) {
+			if (entry.msgid && entry.msgstr?.some((msgstr) => !!msgstr)) {
+				this._candidates.push(entry);
+			}
+		}
+	}
+
+	/**
+	 * Flattens a translations section
+	 *
+	 * @param {gettextTranslation} [section] translations or obsolete section
+	 * @return {TranslationEntry[]} The entries of the section
+	 */
+	_entries(section?: gettextTranslation): TranslationEntry[] {
+		const entries: TranslationEntry[] = [];
+
+		for (const msgctxt of Object.keys(section || {})) {
+			for (const msgid of Object.keys(section?.[msgctxt] || {})) {
+				const entry = section?.[msgctxt][msgid];
+
+				if (typeof entry === "object") {
+					entries.push(entry);
+				}
+			}
+		}
+
+		return entries;
+	}
+
+	/**
+	 * Finds the most similar translated entry for a template entry
+	 *
+	 * @param {TranslationEntry} ref The template entry
+	 * @return {TranslationEntry | undefined} The best match, if similar enough
+	 */
+	_findFuzzy(ref: TranslationEntry): TranslationEntry | undefined {
+		let best: TranslationEntry | undefined;
+		let bestWeight = FUZZY_THRESHOLD;
+
+		for (const candidate of this._candidates) {
+			let weight = similarity(ref.msgid, candidate.msgid, bestWeight);
+
+			// a translation in another context is a slightly worse proposal
+			if ((ref.msgctxt || "") !== (candidate.msgctxt || "")) {
+				weight *= 0.99;
+			}
+
+			if (weight > bestWeight) {
+				best = candidate;
+				bestWeight = weight;
+			}
+		}
+
+		return best;
+	}
+
+	/**
+	 * Builds the comments of the merged entry: translator comments come from the
+	 * catalog, references and extracted comments from the template
+	 *
+	 * @param {TranslationEntry} ref The template entry
+	 * @param {TranslationEntry} [def] The catalog entry
+	 * @param {boolean} fuzzy The merged entry must be marked as fuzzy
+	 * @param {string} [previous] The previous (#|) comment
+	 * @return {GetTextComment | undefined} The merged comments
+	 */
+	_mergeComments(
+		ref: TranslationEntry,
+		def: TranslationEntry | undefined,
+		fuzzy: boolean,
+		previous?: string,
+	): GetTextComment | undefined {
+		const comments: GetTextComment = {};
+		const flags = splitFlags(ref.comments?.flag).filter(
+			(flag) => flag !== "fuzzy",
+		);
+
+		if (fuzzy) {
+			flags.unshift("fuzzy");
+		}
+
+		if (def?.comments?.translator) {
+			comments.translator = def.comments.translator;
+		}
+
+		if (ref.comments?.reference) {
+			comments.reference = ref.comments.reference;
+		}
+
+		if (ref.comments?.extracted) {
+			comments.extracted = ref.comments.extracted;
+		}
+
+		if (flags.length) {
+			comments.flag = flags.join(", ");
+		}
+
+		if (fuzzy && previous && this._options.previous) {
+			comments.previous = previous;
+		}
+
+		return Object.keys(comments).length ? comments : undefined;
+	}
+
+	/**
+	 * Adapts the translations to the plural forms of the template entry
+	 *
+	 * @param {TranslationEntry} ref The template entry
+	 * @param {string[]} msgstr The catalog translations
+	 * @return {string[]} The translations
+	 */
+	_mergeMsgstr(ref: TranslationEntry, msgstr: string[] = []): string[] {
+		if (!ref.msgid_plural) {
+			return [msgstr[0] || ""];
+		}
+
+		const result = msgstr.slice(0, this._nplurals);
+
+		while (result.length < this._nplurals) {
+			result.push("");
+		}
+
+		return result;
+	}
+
+	/**
+	 * Merges a single template entry
+	 *
+	 * @param {TranslationEntry} ref The template entry
+	 * @return {TranslationEntry} The merged entry
+	 */
+	_mergeEntry(ref: TranslationEntry): TranslationEntry {
+		const msgctxt = ref.msgctxt || "";
+		let def: TranslationEntry | undefined =
+			this._po.translations[msgctxt]?.[ref.msgid] ||
+			this._po.obsolete?.[msgctxt]?.[ref.msgid];
+		let fuzzy = false;
+		let previous: string | undefined;
+
+		if (def) {
+			fuzzy = isFuzzy(def);
+
+			// the plural form changed, the translation needs a review
+			if ((def.msgid_plural || "") !== (ref.msgid_plural || "")) {
+				fuzzy = true;
+			}
+
+			previous = def.comments?.previous;
+		} else if (this._options.fuzzyMatching && ref.msgid) {
+			def = this._findFuzzy(ref);
+
+			if (def) {
+				fuzzy = true;
+				previous = this._drawPreviousComment(def);
+			}
+		}
+
+		if (def) {
+			this._used.add(def);
+		}
+
+		const entry: TranslationEntry = {
+			msgid: ref.msgid,
+			msgstr: this._mergeMsgstr(ref, def?.msgstr),
+		};
+
+		if (ref.msgctxt) {
+			entry.msgctxt = ref.msgctxt;
+		}
+
+		if (ref.msgid_plural) {
+			entry.msgid_plural = ref.msgid_plural;
+		}
+
+		// an untranslated entry can't be fuzzy
+		if (!entry.msgstr.some((msgstr) => !!msgstr)) {
+			fuzzy = false;
+		}
+
+		const comments = this._mergeComments(ref, def, fuzzy, previous);
+
+		if (comments) {
+			entry.comments = comments;
+		}
+
+		return entry;
+	}
+
+	/**
+	 * Renders the previous (#|) comment of a fuzzy match. If the matched entry
+	 * was already fuzzy its previous comment is kept
+	 *
+	 * @param {TranslationEntry} def The matched catalog entry
+	 * @return {string} The previous comment
+	 */
+	_drawPreviousComment(def: TranslationEntry): string {
+		if (def.comments?.previous && isFuzzy(def)) {
+			return def.comments.previous;
+		}
+
+		const lines = [];
+
+		if (def.msgctxt) {
+			lines.push(drawPrevious("msgctxt", def.msgctxt));
+		}
+
+		lines.push(drawPrevious("msgid", def.msgid));
+
+		if (def.msgid_plural) {
+			lines.push(drawPrevious("msgid_plural", def.msgid_plural));
+		}
+
+		return lines.join("\n");
+	}
+
+	/**
+	 * Merges the header, the catalog header is kept but the POT-Creation-Date comes from the template
+	 *
+	 * @return {Record<string, string>} The merged headers
+	 */
+	_mergeHeaders(): Record<string, string> {
+		const headers = { ...(this._po.headers || {}) };
+		const potCreationDate = this._pot.headers?.["POT-Creation-Date"];
+
+		if (potCreationDate) {
+			headers["POT-Creation-Date"] = potCreationDate;
+		}
+
+		return headers;
+	}
+
+	/**
+	 * Adds an entry to a translations section
+	 *
+	 * @param {gettextTranslation} section translations or obsolete section
+	 * @param {TranslationEntry} entry The entry
+	 */
+	_addEntry(section: gettextTranslation, entry: TranslationEntry) {
+		const msgctxt = entry.msgctxt || "";
+
+		if (!section[msgctxt]) {
+			section[msgctxt] = {};
+		}
+
+		section[msgctxt][entry.msgid] = entry;
+	}
+
+	/**
+	 * Merges the catalog with the template
+	 *
+	 * @return {GetTextTranslations} The updated catalog
+	 */
+	merge(): GetTextTranslations {
+		const headers = this._mergeHeaders();
+		const translations: gettextTranslation = {};
+		const obsolete: gettextTranslation = {};
+		const headerEntry = this._po.translations[""]?.[""];
+
+		this._addEntry(translations, {
+			...(headerEntry || {}),
+			msgid: "",
+			msgstr: [generateHeader(headers)],
+		});
+
+		for (const ref of this._entries(this._pot.translations)) {
+			if (!ref.msgctxt && !ref.msgid) {
+				continue;
+			}
+
+			this._addEntry(translations, this._mergeEntry(ref));
+		}
+
+		// entries that disappeared from the template become obsolete, untranslated ones are dropped
+		for (const def of this._entries(this._po.translations)) {
+			if (this._used.has(def) || !def.msgid) {
+				continue;
+			}
+
+			if (def.msgstr?.some((msgstr) => !!msgstr)) {
+				this._addEntry(obsolete, def);
+			}
+		}
+
+		for (const def of this._entries(this._po.obsolete)) {
+			if (this._used.has(def)) {
+				continue;
+			}
+
+			this._addEntry(obsolete, def);
+		}
+
+		const result: GetTextTranslations = {
+			charset: this._po.charset,
+			headers,
+			translations,
+		};
+
+		if (Object.keys(obsolete).length) {
+			result.obsolete = obsolete;
+		}
+
+		return result;
+	}
+}
+
+export default PoMerger;
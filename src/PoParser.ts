@@ -1,16 +1,27 @@
-import convert from "./encoding.js";
+import { decodeUtf8 } from "./bytes.js";
+import { decode } from "./encoding.js";
+import { parseFlags } from "./flags.js";
+import { checkFormat } from "./formatStrings.js";
 import {
 	formatCharset,
 	parseHeader,
 	parseNPluralFromHeadersSafely,
+	unescapeString,
 } from "./shared.js";
 import type {
 	GetTextComment,
 	GetTextTranslationRaw,
 	GetTextTranslations,
 	LexerError,
+	PoCstNode,
+	PoDiagnostic,
+	PoDiagnosticCode,
 	PoNode,
+	SourcePosition,
+	SourceRange,
 	State,
+	TranslationEntryPositions,
+	TranslationEntryPrevious,
 	gettextTranslation,
 	poParserOptions,
 } from "./types.js";
@@ -20,7 +31,16 @@ class PoParser {
 	private _escaped: boolean;
 	private _node: Partial<PoNode>;
 	private _state: number | undefined;
-	_validation: boolean;
+	_validation: boolean | "collect";
+	_diagnostics: PoDiagnostic[];
+	_positions: boolean;
+	_lossless: boolean;
+	_flags: boolean;
+	_previous: boolean;
+	_source: string;
+	_declared: gettextTranslation;
+	_headers: Record<string, string> | undefined;
+	_nplurals: number;
 	states: State;
 	types: State;
 	symbols: {
@@ -32,13 +52,30 @@ class PoParser {
 	};
 	_lex: GetTextTranslationRaw[];
 	_lineNumber: number;
+	_column: number;
 	_fileContents: string;
 
 	constructor(
-		fileContents: string | Buffer,
-		{ defaultCharset = "iso-8859-1", validation = false }: poParserOptions,
+		fileContents: string | Uint8Array,
+		{
+			defaultCharset = "iso-8859-1",
+			validation = false,
+			positions = false,
+			lossless = false,
+			flags = false,
+			previous = false,
+		}: poParserOptions,
 	) {
 		this._validation = validation;
+		this._diagnostics = [];
+		this._positions = positions;
+		this._lossless = lossless;
+		this._flags = flags;
+		this._previous = previous;
+		this._source = "";
+		this._declared = {};
+		this._headers = undefined;
+		this._nplurals = 1;
 		this._charset = defaultCharset;
 
 		/**
@@ -76,12 +113,24 @@ class PoParser {
 		this._node = {} as PoNode;
 		this._state = this.states.none;
 		this._lineNumber = 1;
+		this._column = 0;
 
 		if (typeof fileContents === "string") {
 			this._charset = "utf-8";
 			this._fileContents = fileContents;
 		} else {
 			this._fileContents = this._handleCharset(fileContents);
+
+			// the decoder drops the UTF-8 byte order mark, the syntax tree keeps it
+			if (
+				lossless &&
+				this._charset === "utf-8" &&
+				fileContents[0] === 0xef &&
+				fileContents[1] === 0xbb &&
+				fileContents[2] === 0xbf
+			) {
+				this._fileContents = `\uFEFF${this._fileContents}`;
+			}
 		}
 	}
 
@@ -101,8 +150,8 @@ class PoParser {
 	 *
 	 * @param buf PO string buffer to be parsed
 	 */
-	_handleCharset(buf: Buffer) {
-		const str = buf.toString();
+	_handleCharset(buf: Uint8Array) {
+		const str = decodeUtf8(buf);
 		let headers = "";
 		let pos = str.search(/^\s*msgid/im);
 		if (pos >= 0) {
@@ -125,12 +174,43 @@ class PoParser {
 	}
 
 	/**
-	 * Converts a buffer to a string
-	 * @param {Buffer} buf Buffer
+	 * Converts the bytes to a string
+	 * @param {Uint8Array} buf Bytes
 	 * @return {string} the string res
 	 */
-	_toString(buf: Buffer) {
-		return convert(buf, "utf-8", this._charset).toString("utf-8");
+	_toString(buf: Uint8Array) {
+		return decode(buf, this._charset);
+	}
+
+	/**
+	 * Returns the current position of the lexer
+	 *
+	 * @param {number} [offset] Column offset
+	 * @return {SourcePosition} The source position
+	 */
+	_position(offset = 0): SourcePosition {
+		return { line: this._lineNumber, column: this._column + offset };
+	}
+
+	/**
+	 * Starts the source range of the current node, if positions are tracked
+	 */
+	_startRange() {
+		// the concrete syntax tree is built from the positions
+		if (this._positions || this._lossless) {
+			this._node.range = { start: this._position(), end: this._position(1) };
+		}
+	}
+
+	/**
+	 * Ends the source range of the current node, if positions are tracked
+	 *
+	 * @param {number} [offset] Column offset of the end position
+	 */
+	_endRange(offset = 0) {
+		if (this._node.range) {
+			this._node.range.end = this._position(offset);
+		}
 	}
 
 	/**
@@ -141,13 +221,13 @@ class PoParser {
 	_lexer(chunk: string) {
 		let chr: string;
 
+		if (this._lossless) {
+			this._source += chunk;
+		}
+
 		for (let i = 0, len = chunk.length; i < len; i++) {
 			chr = chunk.charAt(i);
 
-			if (chr === "\n") {
-				this._lineNumber += 1;
-			}
-
 			switch (this._state) {
 				case this.states.none:
 				case this.states.obsolete:
@@ -157,6 +237,7 @@ class PoParser {
 							value: "",
 							quote: chr,
 						};
+						this._startRange();
 						this._lex.push(this._node as GetTextTranslationRaw);
 						this._state = this.states.string;
 					} else if (chr === "#" || chr === ",") {
@@ -164,13 +245,16 @@ class PoParser {
 							type: this.types.comments,
 							value: "",
 						};
+						this._startRange();
 						this._lex.push(this._node as GetTextTranslationRaw);
 						this._state = this.states.comments;
 					} else if (!chr.match(this.symbols.whitespace)) {
 						this._node = {
 							type: this.types.key,
 							value: chr,
+							lineNumber: this._lineNumber,
 						};
+						this._startRange();
 						if (this._state === this.states.obsolete) {
 							this._node.obsolete = true;
 						}
@@ -184,36 +268,26 @@ class PoParser {
 					} else if (chr === "~" && this._node.value === "") {
 						this._node.value += chr;
 						this._state = this.states.obsolete;
+						// the obsolete marker is not a comment of the entry
+						this._node.range = undefined;
 					} else if (chr !== "\r") {
 						this._node.value += chr;
+						this._endRange(1);
 					}
 					break;
 				case this.states.string:
+					// the escape sequences are kept until the end of the string,
+					// the octal and hex escapes can span several bytes of a character
 					if (this._escaped) {
-						switch (chr) {
-							case "t":
-								this._node.value += "\t";
-								break;
-							case "n":
-								this._node.value += "\n";
-								break;
-							case "r":
-								this._node.value += "\r";
-								break;
-							default:
-								this._node.value += chr;
-						}
+						this._node.value += chr;
 						this._escaped = false;
+					} else if (chr === this._node.quote) {
+						this._node.value = this._unescape(this._node.value || "");
+						this._state = this.states.none;
+						this._endRange(1);
 					} else {
-						if (chr === this._node.quote) {
-							this._state = this.states.none;
-						} else if (chr === "\\") {
-							this._escaped = true;
-							break;
-						} else {
-							this._node.value += chr;
-						}
-						this._escaped = false;
+						this._node.value += chr;
+						this._escaped = chr === "\\";
 					}
 					break;
 				case this.states.key:
@@ -228,12 +302,57 @@ class PoParser {
 							throw err as LexerError;
 						}
 						this._state = this.states.none;
+						this._endRange();
+						// process the same character again, without moving the position
 						i--;
-					} else {
-						this._node.value += chr;
+						continue;
 					}
+					this._node.value += chr;
 					break;
 			}
+
+			if (chr === "\n") {
+				this._lineNumber += 1;
+				this._column = 0;
+			} else {
+				this._column += 1;
+			}
+		}
+	}
+
+	/**
+	 * Unescapes a lexed string, the invalid escape sequences are reported with validation
+	 *
+	 * @param {string} value The escaped string
+	 * @return {string} The unescaped string
+	 */
+	_unescape(value: string): string {
+		return unescapeString(value, this._charset, (sequence) => {
+			if (!this._validation) {
+				return;
+			}
+
+			const err: Partial<LexerError> = new SyntaxError(
+				`Error parsing PO data: Invalid escape sequence "${sequence}" at line ${this._lineNumber}.`,
+			);
+
+			err.lineNumber = this._lineNumber;
+
+			this._report(err as LexerError, "invalid-escape", {
+				lineNumber: this._lineNumber,
+			});
+		});
+	}
+
+	/**
+	 * Extends the source range of a node up to the end of another range
+	 *
+	 * @param {Partial<PoNode>} node The node
+	 * @param {SourceRange} [range] The range to include
+	 */
+	_extendRange(node: { range?: SourceRange }, range?: SourceRange) {
+		if (node.range && range) {
+			node.range = { start: node.range.start, end: range.end };
 		}
 	}
 
@@ -254,12 +373,14 @@ class PoParser {
 				lastNode.type === this.types.string
 			) {
 				lastNode.value += tokens[i].value as string;
+				this._extendRange(lastNode, tokens[i].range);
 			} else if (
 				lastNode &&
 				tokens[i].type === this.types.comments &&
 				lastNode.type === this.types.comments
 			) {
 				lastNode.value += `\n${tokens[i].value}`;
+				this._extendRange(lastNode, tokens[i].range);
 			} else {
 				response.push(tokens[i]);
 				lastNode = tokens[i];
@@ -324,6 +445,39 @@ class PoParser {
 		}
 	}
 
+	/**
+	 * Parses the "#|" comment, the lines are in the PO syntax (e.g. msgid "text"),
+	 * with the strings possibly folded over several lines
+	 *
+	 * @param {string} comment The previous comment
+	 * @return {TranslationEntryPrevious} The unescaped previous strings
+	 */
+	_parsePrevious(comment: string): TranslationEntryPrevious {
+		const previous: TranslationEntryPrevious = {};
+		let key: keyof TranslationEntryPrevious | undefined;
+
+		for (const line of comment.split("\n")) {
+			const match = line.match(
+				/^\s*(?:(msgctxt|msgid|msgid_plural)\s+)?"(.*)"\s*$/,
+			);
+
+			if (!match) {
+				continue;
+			}
+
+			if (match[1]) {
+				key = match[1] as keyof TranslationEntryPrevious;
+				previous[key] = "";
+			}
+
+			if (key) {
+				previous[key] += unescapeString(match[2], this._charset);
+			}
+		}
+
+		return previous;
+	}
+
 	/**
 	 * Join gettext keys with values
 	 *
@@ -338,11 +492,18 @@ class PoParser {
 			if (tokens[i].type === this.types.key) {
 				lastNode = {};
 				lastNode.key = tokens[i].value as string;
+				lastNode.lineNumber = tokens[i].lineNumber;
+				if (tokens[i].range) {
+					lastNode.range = tokens[i].range;
+				}
 				if (tokens[i].obsolete) {
 					lastNode.obsolete = true;
 				}
 				if (i && tokens[i - 1].type === this.types.comments) {
 					lastNode.comments = tokens[i - 1].value as GetTextComment;
+					if (tokens[i - 1].range) {
+						lastNode.commentsRange = tokens[i - 1].range;
+					}
 				}
 				lastNode.value = "";
 				response.push(lastNode);
@@ -351,6 +512,7 @@ class PoParser {
 				typeof lastNode !== "undefined"
 			) {
 				lastNode.value += tokens[i].value as string;
+				this._extendRange(lastNode, tokens[i].range);
 			}
 		}
 
@@ -368,16 +530,48 @@ class PoParser {
 		let lastNode: Partial<GetTextTranslationRaw> | undefined = undefined;
 		let curContext: string | { [key: string]: string } | false = false;
 		let curComments: GetTextComment | false = false;
+		let curLineNumber: number | undefined;
+		let curContextRange: SourceRange | undefined;
+		let curCommentsRange: SourceRange | undefined;
 
 		for (let i = 0, len = tokens.length; i < len; i++) {
 			if (tokens[i].key.toLowerCase() === "msgctxt") {
 				curContext = tokens[i].value;
 				curComments = tokens[i].comments || false;
+				curLineNumber = tokens[i].lineNumber;
+				curContextRange = tokens[i].range;
+				curCommentsRange = tokens[i].commentsRange;
 			} else if (tokens[i].key.toLowerCase() === "msgid") {
 				lastNode = {
 					msgid: tokens[i].value as string,
+					lineNumber: curContext ? curLineNumber : tokens[i].lineNumber,
 				};
 
+				if (tokens[i].range) {
+					const contextRange = curContext ? curContextRange : undefined;
+					const commentsRange =
+						(curComments ? curCommentsRange : undefined) ||
+						tokens[i].commentsRange;
+					const range = tokens[i].range as SourceRange;
+
+					lastNode.positions = {
+						entry: {
+							start: (commentsRange || contextRange || range).start,
+							end: range.end,
+						},
+						msgid: range,
+						msgstr: [],
+					};
+
+					if (commentsRange) {
+						lastNode.positions.comments = commentsRange;
+					}
+
+					if (contextRange) {
+						lastNode.positions.msgctxt = contextRange;
+					}
+				}
+
 				if (tokens[i].obsolete) {
 					lastNode.obsolete = true;
 				}
@@ -401,14 +595,25 @@ class PoParser {
 			} else if (tokens[i].key.toLowerCase() === "msgid_plural") {
 				if (lastNode) {
 					if (this._validation && "msgid_plural" in lastNode) {
-						throw new SyntaxError(
-							`Multiple msgid_plural error: entry "${lastNode.msgid}" in "${
-								lastNode.msgctxt || ""
-							}" context has multiple msgid_plural declarations.`,
+						this._report(
+							new SyntaxError(
+								`Multiple msgid_plural error: entry "${lastNode.msgid}" in "${
+									lastNode.msgctxt || ""
+								}" context has multiple msgid_plural declarations.`,
+							),
+							"multiple-msgid-plural",
+							lastNode,
 						);
 					}
 
 					lastNode.msgid_plural = tokens[i].value as string;
+
+					const range = tokens[i].range;
+
+					if (lastNode.positions && range) {
+						lastNode.positions.msgid_plural = range;
+						lastNode.positions.entry.end = range.end;
+					}
 				}
 
 				if (tokens[i].comments && lastNode && !lastNode?.comments) {
@@ -422,6 +627,13 @@ class PoParser {
 					lastNode.msgstr = (lastNode.msgstr || []).concat(
 						tokens[i].value as string,
 					);
+
+					const range = tokens[i].range;
+
+					if (lastNode.positions && range) {
+						lastNode.positions.msgstr.push(range);
+						lastNode.positions.entry.end = range.end;
+					}
 				}
 
 				if (tokens[i].comments && lastNode && !lastNode?.comments) {
@@ -433,9 +645,60 @@ class PoParser {
 			}
 		}
 
+		for (const node of response) {
+			if (this._flags) {
+				node.flags = parseFlags(node.comments?.flag);
+			}
+
+			if (this._previous && node.comments?.previous) {
+				node.previous = this._parsePrevious(node.comments.previous);
+			}
+		}
+
 		return response;
 	}
 
+	/**
+	 * Reports a validation error, the error is thrown unless diagnostics are collected
+	 *
+	 * @param {Error} error The validation error
+	 * @param {PoDiagnosticCode} code The diagnostic code
+	 * @param {Partial<GetTextTranslationRaw>} token The token of the invalid entry
+	 * @param {"error" | "warning"} [severity] The severity, warnings are only collected
+	 * @throws Error Will throw the error if diagnostics are not collected
+	 */
+	_report(
+		error: Error,
+		code: PoDiagnosticCode,
+		{ msgctxt, msgid, lineNumber }: Partial<GetTextTranslationRaw>,
+		severity: PoDiagnostic["severity"] = "error",
+	) {
+		if (this._validation !== "collect") {
+			if (severity === "warning") {
+				return;
+			}
+
+			throw error;
+		}
+
+		const diagnostic: PoDiagnostic = {
+			code,
+			severity,
+			message: error.message,
+			msgid,
+		};
+
+		if (msgctxt) {
+			diagnostic.msgctxt = msgctxt;
+		}
+
+		if (lineNumber) {
+			diagnostic.lineNumber = lineNumber;
+		}
+
+		this._diagnostics.push(diagnostic);
+	}
+
 	/**
 	 * Validate token
 	 *
@@ -446,11 +709,7 @@ class PoParser {
 	 * @throws Error Will throw an error if token validation fails
 	 */
 	_validateToken(
-		{
-			msgid = "",
-			msgid_plural = "", // eslint-disable-line camelcase
-			msgstr = [],
-		}: GetTextTranslationRaw,
+		token: GetTextTranslationRaw,
 		translations: gettextTranslation,
 		msgctxt: string,
 		nplurals: number,
@@ -459,23 +718,45 @@ class PoParser {
 			return;
 		}
 
+		const {
+			msgid = "",
+			msgid_plural = "", // eslint-disable-line camelcase
+			msgstr = [],
+		} = token;
+
 		if (msgid in translations[msgctxt]) {
-			throw new SyntaxError(
-				`Duplicate msgid error: entry "${msgid}" in "${msgctxt}" context has already been declared.`,
+			this._report(
+				new SyntaxError(
+					`Duplicate msgid error: entry "${msgid}" in "${msgctxt}" context has already been declared.`,
+				),
+				"duplicate-msgid",
+				token,
 			);
 			// eslint-disable-next-line camelcase
 		}
 		if (msgid_plural && msgstr.length !== nplurals) {
 			// eslint-disable-next-line camelcase
-			throw new RangeError(
-				`Plural forms range error: Expected to find ${nplurals} forms but got ${msgstr.length} for entry "${msgid_plural}" in "${msgctxt}" context.`,
+			this._report(
+				new RangeError(
+					`Plural forms range error: Expected to find ${nplurals} forms but got ${msgstr.length} for entry "${msgid_plural}" in "${msgctxt}" context.`,
+				),
+				"plural-forms-range",
+				token,
 			);
 		}
 		if (!msgid_plural && msgstr.length !== 1) {
-			throw new RangeError(
-				`Translation string range error: Extected 1 msgstr definitions associated with "${msgid}" in "${msgctxt}" context, found ${msgstr.length}.`,
+			this._report(
+				new RangeError(
+					`Translation string range error: Extected 1 msgstr definitions associated with "${msgid}" in "${msgctxt}" context, found ${msgstr.length}.`,
+				),
+				"translation-string-range",
+				token,
 			);
 		}
+
+		for (const { code, severity, message } of checkFormat(token)) {
+			this._report(new SyntaxError(message), code, token, severity);
+		}
 	}
 
 	/**
@@ -495,6 +776,10 @@ class PoParser {
 
 		for (let i = 0, len = tokens.length; i < len; i++) {
 			msgctxt = tokens[i].msgctxt || "";
+			const { lineNumber } = tokens[i];
+
+			// biome-ignore lint/performance/noDelete: the line number was only needed for the diagnostics, the entries do not keep it
+			delete tokens[i].lineNumber;
 
 			if (tokens[i].obsolete) {
 				if (!table.obsolete) {
@@ -522,14 +807,214 @@ class PoParser {
 				nplurals = parseNPluralFromHeadersSafely(table.headers, nplurals);
 			}
 
-			this._validateToken(tokens[i], table.translations, msgctxt, nplurals);
+			this._validateToken(
+				{ ...tokens[i], lineNumber },
+				table.translations,
+				msgctxt,
+				nplurals,
+			);
 
 			table.translations[msgctxt][tokens[i].msgid] = tokens[i];
 		}
 
+		if (this._validation === "collect") {
+			table.diagnostics = this._diagnostics;
+		}
+
 		return table;
 	}
 
+	/**
+	 * Builds the concrete syntax tree of the source. Each entry keeps its source lines,
+	 * their line ending and a copy of the parsed entry, the text between the entries
+	 * and the byte order mark are kept as trivia
+	 *
+	 * @param {GetTextTranslationRaw[]} tokens Normalized tokens, in source order
+	 * @param {GetTextTranslations} table Translation table
+	 * @return {PoCstNode[]} The concrete syntax tree
+	 */
+	_buildCst(
+		tokens: GetTextTranslationRaw[],
+		table: GetTextTranslations,
+	): PoCstNode[] {
+		const source = this._source;
+		const lineOffsets = [0];
+		const nodes: PoCstNode[] = [];
+		const entries = tokens.filter((token) => token.positions);
+		const eol = source.match(/\r?\n/)?.[0] || "\n";
+		let offset = 0;
+
+		// the byte order mark stays first, before an added header
+		if (source.charAt(0) === "\uFEFF") {
+			nodes.push({ type: "trivia", source: source.charAt(0) });
+			offset = 1;
+		}
+
+		for (let i = 0; i < source.length; i++) {
+			if (source.charAt(i) === "\n") {
+				lineOffsets.push(i + 1);
+			}
+		}
+
+		const toOffset = ({ line, column }: SourcePosition) =>
+			lineOffsets[line - 1] + column;
+
+		for (let i = 0; i < entries.length; i++) {
+			const { positions, ...entry } = entries[i];
+			const { start, end } = (positions as TranslationEntryPositions).entry;
+			const msgctxt = entry.msgctxt || "";
+			const nextStart = entries[i + 1]?.positions
+				? toOffset(
+						(entries[i + 1].positions as TranslationEntryPositions).entry.start,
+					)
+				: source.length;
+
+			// an entry spans whole lines, unless another entry shares the same line
+			const entryStart = Math.max(offset, lineOffsets[start.line - 1]);
+			let entryEnd = source.indexOf("\n", toOffset(end));
+
+			if (entryEnd < 0 || entryEnd > nextStart) {
+				entryEnd = nextStart;
+			} else if (source.charAt(entryEnd - 1) === "\r") {
+				entryEnd--;
+			}
+
+			if (entryStart > offset) {
+				nodes.push({
+					type: "trivia",
+					source: source.slice(offset, entryStart),
+				});
+			}
+
+			const entrySource = source.slice(entryStart, entryEnd);
+
+			nodes.push({
+				type: "entry",
+				source: entrySource,
+				eol: entrySource.match(/\r?\n/)?.[0] || eol,
+				msgctxt,
+				msgid: entry.msgid,
+				obsolete: table.obsolete?.[msgctxt]?.[entry.msgid] === entries[i],
+				entry: JSON.parse(JSON.stringify(entry)),
+			});
+
+			offset = entryEnd;
+
+			if (!this._positions) {
+				// biome-ignore lint/performance/noDelete: the positions were only needed for the syntax tree
+				delete entries[i].positions;
+			}
+		}
+
+		if (offset < source.length) {
+			nodes.push({ type: "trivia", source: source.slice(offset) });
+		}
+
+		return nodes;
+	}
+
+	/**
+	 * Finds where the complete entries of the lexed tokens end. An entry is complete
+	 * when the comments or the keys of the next entry follow its msgstr
+	 *
+	 * @return {number} The index of the first token of the last, incomplete, entry
+	 */
+	_findEntriesEnd(): number {
+		let end = 0;
+		let afterMsgstr = false;
+		let comments = -1;
+
+		for (let i = 0, len = this._lex.length; i < len; i++) {
+			const token = this._lex[i];
+
+			if (token.type === this.types.comments) {
+				if (afterMsgstr && comments < 0) {
+					comments = i;
+				}
+			} else if (token.type === this.types.string) {
+				// the comments were in the middle of the entry, like the obsolete markers
+				comments = -1;
+			} else {
+				// the last key might not be complete yet
+				if (i === len - 1 && this._state === this.states.key) {
+					break;
+				}
+
+				const key = (token.value as string).toLowerCase();
+
+				if (afterMsgstr && (key === "msgid" || key === "msgctxt")) {
+					end = comments < 0 ? i : comments;
+				}
+
+				afterMsgstr = key.startsWith("msgstr");
+				comments = -1;
+			}
+		}
+
+		return end;
+	}
+
+	/**
+	 * Parses the complete entries lexed so far and drops their tokens, so the entries
+	 * of a stream can be emitted one by one
+	 *
+	 * @param {boolean} [flush] Parse all the remaining tokens, at the end of the input
+	 * @return {GetTextTranslationRaw[]} The parsed entries, obsolete entries have the obsolete flag
+	 */
+	_parseEntries(flush = false): GetTextTranslationRaw[] {
+		const tokens = this._lex.splice(
+			0,
+			flush ? this._lex.length : this._findEntriesEnd(),
+		);
+		let data: GetTextTranslationRaw[] = this._joinStringValues(tokens);
+
+		this._parseComments(data);
+
+		data = this._handleKeys(data);
+		data = this._handleValues(data);
+
+		for (const entry of data) {
+			const msgctxt = entry.msgctxt || "";
+			const { lineNumber } = entry;
+
+			// biome-ignore lint/performance/noDelete: like in the translation table
+			delete entry.lineNumber;
+
+			if (entry.obsolete) {
+				continue;
+			}
+
+			if (!this._headers && !msgctxt && !entry.msgid) {
+				this._headers = parseHeader(entry.msgstr[0]);
+				this._nplurals = parseNPluralFromHeadersSafely(
+					this._headers,
+					this._nplurals,
+				);
+			}
+
+			if (this._validation) {
+				if (!this._declared[msgctxt]) {
+					this._declared[msgctxt] = {};
+				}
+
+				this._validateToken(
+					{ ...entry, lineNumber },
+					this._declared,
+					msgctxt,
+					this._nplurals,
+				);
+
+				// only the keys are needed to find the duplicates
+				this._declared[msgctxt][entry.msgid] = {
+					msgid: entry.msgid,
+					msgstr: [],
+				};
+			}
+		}
+
+		return data;
+	}
+
 	/**
 	 * Converts parsed tokens to a translation table
 	 *
@@ -544,7 +1029,13 @@ class PoParser {
 		data = this._handleKeys(data);
 		data = this._handleValues(data);
 
-		return this._normalize(data);
+		const table = this._normalize(data);
+
+		if (this._lossless) {
+			table.cst = this._buildCst(data, table);
+		}
+
+		return table;
 	}
 }
 
@@ -0,0 +1,150 @@
+import PoParser from "./PoParser.js";
+import { concatBytes } from "./bytes.js";
+import type {
+	GetTextTranslations,
+	PoDiagnostic,
+	TranslationEntry,
+	poParserOptions,
+} from "./types.js";
+
+/**
+ * Creates a parser fed chunk by chunk, for the PO streams. The first chunks
+ * are cached until the initial threshold to detect the charset from the header,
+ * and the 8bit bytes at the end of a chunk wait for the next one in case they
+ * are an uncompleted UTF-8 sequence
+ *
+ * @constructor
+ * @param {poParserOptions} [options] Parser options
+ * @param {number} [initialTreshold] The bytes to cache before parsing the header, default 2kb
+ */
+class PoStreamParser {
+	_options: poParserOptions;
+	_initialTreshold: number;
+	_cache: Uint8Array[];
+	_cacheSize: number;
+	_parser: PoParser | false;
+
+	constructor(options: poParserOptions = {}, initialTreshold = 2 * 1024) {
+		this._options = options;
+		this._initialTreshold = initialTreshold;
+		this._cache = [];
+		this._cacheSize = 0;
+		this._parser = false;
+	}
+
+	/**
+	 * Joins the cached bytes with a chunk and empties the cache
+	 *
+	 * @param {Uint8Array} [chunk] The chunk
+	 * @return {Uint8Array} The bytes
+	 */
+	_takeCache(chunk?: Uint8Array): Uint8Array {
+		const bytes = concatBytes(chunk ? [...this._cache, chunk] : this._cache);
+
+		this._cache = [];
+		this._cacheSize = 0;
+
+		return bytes;
+	}
+
+	/**
+	 * Feeds a chunk of the PO stream to the lexer
+	 *
+	 * @param {Uint8Array} chunkRaw The chunk
+	 * @return {boolean} Return false while the chunks are cached for the charset detection
+	 */
+	write(chunkRaw: Uint8Array): boolean {
+		let chunk = chunkRaw;
+		let len = 0;
+
+		if (!this._parser) {
+			this._cache.push(chunk);
+			this._cacheSize += chunk.length;
+
+			// Wait until the initial threshold before parsing headers for charset
+			if (this._cacheSize < this._initialTreshold) {
+				return false;
+			}
+
+			chunk = this._takeCache();
+
+			this._parser = new PoParser(chunk, this._options);
+		} else if (this._cacheSize) {
+			// This only happens if we had an uncompleted 8bit sequence from the last iteration
+			chunk = this._takeCache(chunk);
+		}
+
+		// Cache 8bit bytes from the end of the chunk
+		// Helps if the chunk ends in the middle of a UTF-8 sequence
+		for (let i = chunk.length - 1; i >= 0 && chunk[i] >= 0x80; i--) {
+			len++;
+		}
+
+		if (len) {
+			this._cache = [chunk.subarray(chunk.length - len)];
+			this._cacheSize = len;
+			chunk = chunk.subarray(0, chunk.length - len);
+		}
+
+		// Chunk might be empty if it only continued of 8bit bytes, and these were all cached
+		if (chunk.length) {
+			this._parser._lexer(this._parser._toString(chunk));
+		}
+
+		return true;
+	}
+
+	/**
+	 * Feeds the cached bytes to the lexer at the end of the PO stream
+	 *
+	 * @return {boolean} Return false if the stream was empty
+	 */
+	end(): boolean {
+		const started = !!this._parser || !!this._cacheSize;
+		const chunk = this._takeCache();
+
+		if (!this._parser) {
+			this._parser = new PoParser(chunk, this._options);
+		}
+
+		if (chunk.length) {
+			this._parser._lexer(this._parser._toString(chunk));
+		}
+
+		return started;
+	}
+
+	/**
+	 * Parses the complete entries lexed so far
+	 *
+	 * @param {boolean} [flush] Parse all the remaining entries, at the end of the stream
+	 * @return {TranslationEntry[]} The parsed entries, the header first
+	 */
+	entries(flush = false): TranslationEntry[] {
+		return this._parser
+			? (this._parser._parseEntries(flush) as TranslationEntry[])
+			: [];
+	}
+
+	/**
+	 * Creates the translation table, once the stream has ended
+	 *
+	 * @return {GetTextTranslations} Translation table
+	 */
+	table(): GetTextTranslations {
+		const parser =
+			this._parser || new PoParser(new Uint8Array(0), this._options);
+
+		return parser._finalize(parser._lex);
+	}
+
+	/**
+	 * The diagnostics collected with validation: "collect" in the entries mode,
+	 * complete once the stream ends
+	 */
+	get diagnostics(): PoDiagnostic[] {
+		return this._parser ? this._parser._diagnostics : [];
+	}
+}
+
+export default PoStreamParser;
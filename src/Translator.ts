@@ -0,0 +1,258 @@
+import { isFuzzy } from "./flags.js";
+import type { PluralFunction } from "./pluralForms.js";
+import { parsePluralFromHeaders } from "./shared.js";
+import type {
+	GetTextTranslations,
+	TranslationEntry,
+	translatorOptions,
+} from "./types.js";
+
+/**
+ * A translation table with its compiled plural function
+ */
+interface TranslatorCatalog {
+	table: GetTextTranslations;
+	plural: PluralFunction;
+}
+
+/**
+ * Translation runtime over parsed PO or MO translation tables, with the usual
+ * gettext, ngettext, pgettext and npgettext functions
+ *
+ * @constructor
+ * @param {GetTextTranslations} [table] Translation table for the default locale and domain
+ * @param {translatorOptions} [options] Translator options
+ */
+export class Translator {
+	private _catalogs: Map<string, Map<string, TranslatorCatalog>> = new Map();
+	private _locale: string;
+	private _domain: string;
+	private _fallbackLocales: string[];
+
+	constructor(table?: GetTextTranslations, options: translatorOptions = {}) {
+		this._locale = options.locale || "en";
+		this._domain = options.domain || "messages";
+		this._fallbackLocales = options.fallbackLocales || [];
+
+		if (table) {
+			this.addTranslations(this._locale, this._domain, table);
+		}
+	}
+
+	/**
+	 * The current locale
+	 */
+	get locale(): string {
+		return this._locale;
+	}
+
+	/**
+	 * The current text domain
+	 */
+	get domain(): string {
+		return this._domain;
+	}
+
+	/**
+	 * Adds a translation table for a locale and a domain, replacing the previous one
+	 *
+	 * @param {string} locale The locale of the translations
+	 * @param {string} domain The text domain of the translations
+	 * @param {GetTextTranslations} table Translation table
+	 * @return {Translator} The translator
+	 */
+	addTranslations(
+		locale: string,
+		domain: string,
+		table: GetTextTranslations,
+	): Translator {
+		let plural: PluralFunction;
+
+		try {
+			plural = parsePluralFromHeaders(table.headers);
+		} catch (error) {
+			// a broken header should not break the translations, use the germanic plural
+			plural = parsePluralFromHeaders(undefined);
+		}
+
+		if (!this._catalogs.has(locale)) {
+			this._catalogs.set(locale, new Map());
+		}
+
+		this._catalogs.get(locale)?.set(domain, { table, plural });
+
+		return this;
+	}
+
+	/**
+	 * Sets the current locale
+	 *
+	 * @param {string} locale The locale
+	 * @return {Translator} The translator
+	 */
+	setLocale(locale: string): Translator {
+		this._locale = locale;
+
+		return this;
+	}
+
+	/**
+	 * Sets the current text domain
+	 *
+	 * @param {string} domain The text domain
+	 * @return {Translator} The translator
+	 */
+	textdomain(domain: string): Translator {
+		this._domain = domain;
+
+		return this;
+	}
+
+	/**
+	 * Sets the locales to look up when a message is not translated in the current locale
+	 *
+	 * @param {string[]} locales The fallback locales, in order
+	 * @return {Translator} The translator
+	 */
+	setFallbackLocales(locales: string[]): Translator {
+		this._fallbackLocales = locales;
+
+		return this;
+	}
+
+	/**
+	 * Translates a message
+	 *
+	 * @param {string} msgid String to be translated
+	 * @return {string} The translation or msgid if not translated
+	 */
+	gettext(msgid: string): string {
+		return this.dnpgettext(this._domain, "", msgid);
+	}
+
+	/**
+	 * Translates a message in a specific domain
+	 *
+	 * @param {string} domain The text domain
+	 * @param {string} msgid String to be translated
+	 * @return {string} The translation or msgid if not translated
+	 */
+	dgettext(domain: string, msgid: string): string {
+		return this.dnpgettext(domain, "", msgid);
+	}
+
+	/**
+	 * Translates a plural message
+	 *
+	 * @param {string} msgid String to be translated
+	 * @param {string} msgidPlural The plural form of the string
+	 * @param {number} count The number used to choose the plural form
+	 * @return {string} The translation or msgid / msgidPlural if not translated
+	 */
+	ngettext(msgid: string, msgidPlural: string, count: number): string {
+		return this.dnpgettext(this._domain, "", msgid, msgidPlural, count);
+	}
+
+	/**
+	 * Translates a plural message in a specific domain
+	 *
+	 * @param {string} domain The text domain
+	 * @param {string} msgid String to be translated
+	 * @param {string} msgidPlural The plural form of the string
+	 * @param {number} count The number used to choose the plural form
+	 * @return {string} The translation or msgid / msgidPlural if not translated
+	 */
+	dngettext(
+		domain: string,
+		msgid: string,
+		msgidPlural: string,
+		count: number,
+	): string {
+		return this.dnpgettext(domain, "", msgid, msgidPlural, count);
+	}
+
+	/**
+	 * Translates a message in a context
+	 *
+	 * @param {string} msgctxt The message context
+	 * @param {string} msgid String to be translated
+	 * @return {string} The translation or msgid if not translated
+	 */
+	pgettext(msgctxt: string, msgid: string): string {
+		return this.dnpgettext(this._domain, msgctxt, msgid);
+	}
+
+	/**
+	 * Translates a message in a context and a specific domain
+	 *
+	 * @param {string} domain The text domain
+	 * @param {string} msgctxt The message context
+	 * @param {string} msgid String to be translated
+	 * @return {string} The translation or msgid if not translated
+	 */
+	dpgettext(domain: string, msgctxt: string, msgid: string): string {
+		return this.dnpgettext(domain, msgctxt, msgid);
+	}
+
+	/**
+	 * Translates a plural message in a context
+	 *
+	 * @param {string} msgctxt The message context
+	 * @param {string} msgid String to be translated
+	 * @param {string} msgidPlural The plural form of the string
+	 * @param {number} count The number used to choose the plural form
+	 * @return {string} The translation or msgid / msgidPlural if not translated
+	 */
+	npgettext(
+		msgctxt: string,
+		msgid: string,
+		msgidPlural: string,
+		count: number,
+	): string {
+		return this.dnpgettext(this._domain, msgctxt, msgid, msgidPlural, count);
+	}
+
+	/**
+	 * Translates a message, all the other translation methods use this one. The current
+	 * locale is looked up first, then the fallback locales. Missing, empty and fuzzy
+	 * translations are skipped
+	 *
+	 * @param {string} domain The text domain
+	 * @param {string} msgctxt The message context, an empty string for the default context
+	 * @param {string} msgid String to be translated
+	 * @param {string} [msgidPlural] The plural form of the string
+	 * @param {number} [count] The number used to choose the plural form
+	 * @return {string} The translation or msgid / msgidPlural if not translated
+	 */
+	dnpgettext(
+		domain: string,
+		msgctxt: string,
+		msgid: string,
+		msgidPlural?: string,
+		count?: number,
+	): string {
+		const isPlural = typeof msgidPlural === "string";
+
+		for (const locale of [this._locale, ...this._fallbackLocales]) {
+			const catalog = this._catalogs.get(locale)?.get(domain);
+			const entry = catalog?.table.translations[msgctxt || ""]?.[msgid];
+
+			if (!catalog || !entry || isFuzzy(entry)) {
+				continue;
+			}
+
+			const index = isPlural ? catalog.plural(count as number) : 0;
+			const msgstr = entry.msgstr?.[index];
+
+			if (msgstr) {
+				return msgstr;
+			}
+		}
+
+		if (isPlural && count !== 1) {
+			return msgidPlural as string;
+		}
+
+		return msgid;
+	}
+}
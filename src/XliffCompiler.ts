@@ -0,0 +1,624 @@
+import { isFuzzy, stringifyFlags } from "./flags.js";
+import { generateHeader } from "./shared.js";
+import type {
+	GetTextTranslations,
+	TranslationEntry,
+	XliffVersion,
+	gettextTranslation,
+	xliffCompilerOptions,
+} from "./types.js";
+import {
+	CONTROL_CHARACTERS,
+	type XmlElement,
+	encodeControlCharacters,
+	stringifyXml,
+} from "./xml.js";
+
+/**
+ * The XLIFF versions of the compiler
+ */
+export const XLIFF_VERSIONS = ["1.2", "2.0"];
+
+/**
+ * The namespaces of the XLIFF versions and of the XLIFF 2.0 metadata module
+ */
+export const XLIFF_NAMESPACES: Record<string, string> = {
+	"1.2": "urn:oasis:names:tc:xliff:document:1.2",
+	"2.0": "urn:oasis:names:tc:xliff:document:2.0",
+	mda: "urn:oasis:names:tc:xliff:metadata:2.0",
+};
+
+/**
+ * Creates an element, the attributes without value are left out
+ *
+ * @param {string} name The element name
+ * @param {Record<string, string | undefined>} attributes The attributes
+ * @param {(XmlElement | string)[]} [children] The children
+ * @return {XmlElement} The element
+ */
+function createElement(
+	name: string,
+	attributes: Record<string, string | undefined>,
+	children: (XmlElement | string)[] = [],
+): XmlElement {
+	const defined: Record<string, string> = {};
+
+	for (const [key, value] of Object.entries(attributes)) {
+		if (typeof value === "string") {
+			defined[key] = value;
+		}
+	}
+
+	return { name, attributes: defined, children };
+}
+
+/**
+ * Creates an element of plain text, a note or a metadata element, that can't
+ * hold the control character placeholders: the control characters are encoded
+ * as their control pictures
+ *
+ * @param {string} name The element name
+ * @param {Record<string, string | undefined>} attributes The attributes
+ * @param {string} text The text
+ * @return {XmlElement} The element
+ */
+function createTextElement(
+	name: string,
+	attributes: Record<string, string | undefined>,
+	text: string,
+): XmlElement {
+	return createElement(name, attributes, [encodeControlCharacters(text)]);
+}
+
+/**
+ * Creates a compiler object for the XLIFF 1.2 and 2.0 documents of the
+ * translation agencies. The gettext fields without an XLIFF counterpart (msgctxt,
+ * msgid_plural, the flags and the previous strings) are kept as XLIFF metadata
+ *
+ * @constructor
+ * @param {GetTextTranslations} table Translation table as defined in the README
+ * @param {xliffCompilerOptions} [options] Compiler options
+ */
+class XliffCompiler {
+	_table: GetTextTranslations;
+	_options: Required<xliffCompilerOptions>;
+
+	constructor(table: GetTextTranslations, options: xliffCompilerOptions = {}) {
+		this._table = table;
+		this._options = {
+			version: "1.2",
+			sourceLanguage: "en",
+			original: "messages",
+			...options,
+		};
+
+		if (!XLIFF_VERSIONS.includes(this._options.version)) {
+			throw new TypeError(`Unknown XLIFF version "${this._options.version}"`);
+		}
+	}
+
+	/**
+	 * Finds a header value, the header names are case insensitive
+	 *
+	 * @param {string} name The header name
+	 * @return {string | undefined} The header value
+	 */
+	_header(name: string): string | undefined {
+		const headers = this._table.headers || {};
+		const key = Object.keys(headers).find(
+			(key) => key.toLowerCase() === name.toLowerCase(),
+		);
+
+		return key ? headers[key] : undefined;
+	}
+
+	/**
+	 * Lists the entries of a section, without the header
+	 *
+	 * @param {gettextTranslation} [section] The translations or the obsolete entries
+	 * @return {TranslationEntry[]} The entries
+	 */
+	_entries(section: gettextTranslation = {}): TranslationEntry[] {
+		const entries: TranslationEntry[] = [];
+
+		for (const msgctxt of Object.keys(section)) {
+			for (const msgid of Object.keys(section[msgctxt])) {
+				if (msgctxt || msgid) {
+					entries.push(section[msgctxt][msgid]);
+				}
+			}
+		}
+
+		return entries;
+	}
+
+	/**
+	 * Lists the gettext fields of an entry that XLIFF has no place for
+	 *
+	 * @param {TranslationEntry} entry The translation entry
+	 * @return {[string, string][]} The field types ("msgctxt", "msgid_plural", "flags" or "previous") and values
+	 */
+	_fields(entry: TranslationEntry): [string, string][] {
+		const fields: [string, string][] = [];
+		const flags = entry.flags
+			? stringifyFlags(entry.flags)
+			: entry.comments?.flag;
+
+		if (typeof entry.msgctxt === "string") {
+			fields.push(["msgctxt", entry.msgctxt]);
+		}
+
+		// a plural entry with a single form has no unit with msgid_plural
+		if (entry.msgid_plural) {
+			fields.push(["msgid_plural", entry.msgid_plural]);
+		}
+
+		if (flags) {
+			fields.push(["flags", flags]);
+		}
+
+		if (entry.comments?.previous) {
+			fields.push(["previous", entry.comments.previous]);
+		}
+
+		return fields;
+	}
+
+	/**
+	 * Splits the reference comment into its references (e.g. "src/app.js:12")
+	 *
+	 * @param {TranslationEntry} entry The translation entry
+	 * @return {string[]} The references
+	 */
+	_references(entry: TranslationEntry): string[] {
+		return (entry.comments?.reference || "").split(/\s+/).filter(Boolean);
+	}
+
+	/**
+	 * Lists the notes of an entry, the extracted and the translator comments
+	 *
+	 * @param {TranslationEntry} entry The translation entry
+	 * @return {[string, string][]} The note authors ("developer" or "translator") and texts
+	 */
+	_notes(entry: TranslationEntry): [string, string][] {
+		const notes: [string, string][] = [];
+
+		if (entry.comments?.extracted) {
+			notes.push(["developer", entry.comments.extracted]);
+		}
+
+		if (entry.comments?.translator) {
+			notes.push(["translator", entry.comments.translator]);
+		}
+
+		return notes;
+	}
+
+	/**
+	 * Builds the XLIFF 1.2 metadata of an entry: the gettext fields in a context
+	 * group, a context group per reference and the notes
+	 *
+	 * @param {TranslationEntry} entry The translation entry
+	 * @return {XmlElement[]} The elements
+	 */
+	_metadata12(entry: TranslationEntry): XmlElement[] {
+		const elements: XmlElement[] = [];
+		const fields = this._fields(entry);
+
+		if (fields.length) {
+			elements.push(
+				createElement(
+					"context-group",
+					{ name: "x-gettext", purpose: "information" },
+					fields.map(([type, value]) =>
+						createTextElement(
+							"context",
+							{ "context-type": `x-gettext-${type}` },
+							value,
+						),
+					),
+				),
+			);
+		}
+
+		for (const reference of this._references(entry)) {
+			const [, file, line] = reference.match(/^(.*?)(?::(\d+))?$/) || [];
+			const contexts = [
+				createTextElement("context", { "context-type": "sourcefile" }, file),
+			];
+
+			if (line) {
+				contexts.push(
+					createTextElement("context", { "context-type": "linenumber" }, line),
+				);
+			}
+
+			elements.push(
+				createElement(
+					"context-group",
+					{ name: "po-reference", purpose: "location" },
+					contexts,
+				),
+			);
+		}
+
+		for (const [from, text] of this._notes(entry)) {
+			elements.push(createTextElement("note", { from }, text));
+		}
+
+		return elements;
+	}
+
+	/**
+	 * Creates the content of a source or target element, the control characters
+	 * that XML 1.0 can't hold become placeholders: <cp hex="0007"/> in XLIFF 2.0
+	 * and <x ctype="x-gettext-cp-0007"/> in XLIFF 1.2
+	 *
+	 * @param {string} text The source string or the translation
+	 * @return {(XmlElement | string)[]} The text and the placeholders
+	 */
+	_inline(text: string): (XmlElement | string)[] {
+		let placeholders = 0;
+
+		// the empty text parts are kept, so the element is written on a single line
+		return text.split(CONTROL_CHARACTERS).map((part, index) => {
+			if (index % 2 === 0) {
+				return part;
+			}
+
+			const hex = part
+				.charCodeAt(0)
+				.toString(16)
+				.toUpperCase()
+				.padStart(4, "0");
+
+			return this._options.version === "2.0"
+				? createElement("cp", { hex })
+				: createElement("x", {
+						id: `cp${++placeholders}`,
+						ctype: `x-gettext-cp-${hex}`,
+					});
+		});
+	}
+
+	/**
+	 * Builds an XLIFF 1.2 trans-unit, without target if the translation is empty
+	 *
+	 * @param {string} id The unit id
+	 * @param {string} source The source string
+	 * @param {string} target The translation
+	 * @param {boolean} fuzzy The translation is fuzzy
+	 * @param {XmlElement[]} [metadata] The metadata elements
+	 * @return {XmlElement} The trans-unit element
+	 */
+	_unit12(
+		id: string,
+		source: string,
+		target: string,
+		fuzzy: boolean,
+		metadata: XmlElement[] = [],
+	): XmlElement {
+		const children = [createElement("source", {}, this._inline(source))];
+
+		if (target) {
+			children.push(
+				createElement(
+					"target",
+					{ state: fuzzy ? "needs-review-translation" : "translated" },
+					this._inline(target),
+				),
+			);
+		}
+
+		return createElement(
+			"trans-unit",
+			{
+				id,
+				approved: target ? (fuzzy ? "no" : "yes") : undefined,
+				"xml:space": "preserve",
+			},
+			[...children, ...metadata],
+		);
+	}
+
+	/**
+	 * Builds the XLIFF 1.2 element of an entry, a plural entry is a group with a
+	 * trans-unit per plural form
+	 *
+	 * @param {TranslationEntry} entry The translation entry
+	 * @param {string} id The unit or group id
+	 * @return {XmlElement} The element
+	 */
+	_entry12(entry: TranslationEntry, id: string): XmlElement {
+		const fuzzy = isFuzzy(entry);
+		const msgstr = entry.msgstr || [];
+
+		if (!entry.msgid_plural) {
+			return this._unit12(
+				id,
+				entry.msgid,
+				msgstr[0] || "",
+				fuzzy,
+				this._metadata12(entry),
+			);
+		}
+
+		return createElement(
+			"group",
+			{ id, restype: "x-gettext-plurals", "xml:space": "preserve" },
+			[
+				...this._metadata12(entry),
+				...msgstr.map((translation, index) =>
+					this._unit12(
+						`${id}-${index}`,
+						index ? (entry.msgid_plural as string) : entry.msgid,
+						translation,
+						fuzzy,
+					),
+				),
+			],
+		);
+	}
+
+	/**
+	 * Finds the header string, drawn from the headers like the PO compiler does
+	 *
+	 * @return {string} The header string
+	 */
+	_headerString(): string {
+		if (this._table.headers) {
+			return generateHeader(this._table.headers);
+		}
+
+		return this._table.translations[""]?.[""]?.msgstr[0] || "";
+	}
+
+	/**
+	 * Lists the gettext fields of the header entry, with the header string
+	 *
+	 * @return {[string, string][]} The field types and values
+	 */
+	_headerFields(): [string, string][] {
+		const header = this._table.translations[""]?.[""];
+		const headerString = this._headerString();
+		const fields: [string, string][] = header ? this._fields(header) : [];
+
+		return headerString ? [["header", headerString], ...fields] : fields;
+	}
+
+	/**
+	 * Compiles the translation table to XLIFF 1.2, the header entry is kept in
+	 * the notes of the file header
+	 *
+	 * @return {string} The XLIFF string
+	 */
+	_compile12(): string {
+		const header = this._table.translations[""]?.[""];
+		const notes = [
+			...this._headerFields().map(([type, value]) =>
+				createTextElement("note", { from: `x-gettext-${type}` }, value),
+			),
+			...(header ? this._notes(header) : []).map(([from, text]) =>
+				createTextElement("note", { from }, text),
+			),
+		];
+		const obsolete = this._entries(this._table.obsolete);
+		let id = 0;
+		const units = this._entries(this._table.translations).map((entry) =>
+			this._entry12(entry, String(++id)),
+		);
+
+		if (obsolete.length) {
+			units.push(
+				createElement(
+					"group",
+					{ id: "obsolete", restype: "x-gettext-obsolete" },
+					obsolete.map((entry) => this._entry12(entry, String(++id))),
+				),
+			);
+		}
+
+		const file = createElement(
+			"file",
+			{
+				original: this._options.original,
+				"source-language": this._options.sourceLanguage,
+				"target-language": this._header("Language") || undefined,
+				datatype: "po",
+			},
+			[
+				...(notes.length ? [createElement("header", {}, notes)] : []),
+				createElement("body", {}, units),
+			],
+		);
+
+		return stringifyXml(
+			createElement(
+				"xliff",
+				{ version: "1.2", xmlns: XLIFF_NAMESPACES["1.2"] },
+				[file],
+			),
+		);
+	}
+
+	/**
+	 * Builds the XLIFF 2.0 metadata and notes of an entry: the gettext fields and
+	 * the references are meta elements of the "gettext" category
+	 *
+	 * @param {[string, string][]} fields The gettext fields
+	 * @param {[string, string][]} notes The notes
+	 * @return {XmlElement[]} The elements
+	 */
+	_metadata20(
+		fields: [string, string][],
+		notes: [string, string][],
+	): XmlElement[] {
+		const elements: XmlElement[] = [];
+
+		if (fields.length) {
+			elements.push(
+				createElement("mda:metadata", {}, [
+					createElement(
+						"mda:metaGroup",
+						{ category: "gettext" },
+						fields.map(([type, value]) =>
+							createTextElement("mda:meta", { type }, value),
+						),
+					),
+				]),
+			);
+		}
+
+		if (notes.length) {
+			elements.push(
+				createElement(
+					"notes",
+					{},
+					notes.map(([category, text]) =>
+						createTextElement("note", { category }, text),
+					),
+				),
+			);
+		}
+
+		return elements;
+	}
+
+	/**
+	 * Builds an XLIFF 2.0 unit, the segment is "initial" without target if the
+	 * translation is empty, "initial" with target if it is fuzzy
+	 *
+	 * @param {string} id The unit id
+	 * @param {string} source The source string
+	 * @param {string} target The translation
+	 * @param {boolean} fuzzy The translation is fuzzy
+	 * @param {XmlElement[]} [metadata] The metadata elements
+	 * @return {XmlElement} The unit element
+	 */
+	_unit20(
+		id: string,
+		source: string,
+		target: string,
+		fuzzy: boolean,
+		metadata: XmlElement[] = [],
+	): XmlElement {
+		const children = [createElement("source", {}, this._inline(source))];
+
+		if (target) {
+			children.push(createElement("target", {}, this._inline(target)));
+		}
+
+		return createElement("unit", { id, "xml:space": "preserve" }, [
+			...metadata,
+			createElement(
+				"segment",
+				{ state: target ? (fuzzy ? "initial" : "translated") : undefined },
+				children,
+			),
+		]);
+	}
+
+	/**
+	 * Builds the XLIFF 2.0 element of an entry, a plural entry is a group with a
+	 * unit per plural form
+	 *
+	 * @param {TranslationEntry} entry The translation entry
+	 * @param {string} id The unit or group id
+	 * @return {XmlElement} The element
+	 */
+	_entry20(entry: TranslationEntry, id: string): XmlElement {
+		const fuzzy = isFuzzy(entry);
+		const msgstr = entry.msgstr || [];
+		const metadata = this._metadata20(
+			[
+				...this._fields(entry),
+				...this._references(entry).map((reference): [string, string] => [
+					"reference",
+					reference,
+				]),
+			],
+			this._notes(entry),
+		);
+
+		if (!entry.msgid_plural) {
+			return this._unit20(id, entry.msgid, msgstr[0] || "", fuzzy, metadata);
+		}
+
+		return createElement("group", { id, type: "gettext:plurals" }, [
+			...metadata,
+			...msgstr.map((translation, index) =>
+				this._unit20(
+					`${id}-${index}`,
+					index ? (entry.msgid_plural as string) : entry.msgid,
+					translation,
+					fuzzy,
+				),
+			),
+		]);
+	}
+
+	/**
+	 * Compiles the translation table to XLIFF 2.0, the header entry is kept in
+	 * the metadata and the notes of the file
+	 *
+	 * @return {string} The XLIFF string
+	 */
+	_compile20(): string {
+		const header = this._table.translations[""]?.[""];
+		const obsolete = this._entries(this._table.obsolete);
+		let id = 0;
+		const units = this._entries(this._table.translations).map((entry) =>
+			this._entry20(entry, String(++id)),
+		);
+
+		if (obsolete.length) {
+			units.push(
+				createElement(
+					"group",
+					{ id: "obsolete", type: "gettext:obsolete" },
+					obsolete.map((entry) => this._entry20(entry, String(++id))),
+				),
+			);
+		}
+
+		const file = createElement(
+			"file",
+			{ id: "f1", original: this._options.original },
+			[
+				...this._metadata20(
+					this._headerFields(),
+					header ? this._notes(header) : [],
+				),
+				...units,
+			],
+		);
+
+		return stringifyXml(
+			createElement(
+				"xliff",
+				{
+					xmlns: XLIFF_NAMESPACES["2.0"],
+					"xmlns:mda": XLIFF_NAMESPACES.mda,
+					version: "2.0",
+					srcLang: this._options.sourceLanguage,
+					trgLang: this._header("Language") || undefined,
+				},
+				[file],
+			),
+		);
+	}
+
+	/**
+	 * Compiles the translation table
+	 *
+	 * @return {string} The XLIFF string
+	 */
+	compile(): string {
+		const xliff =
+			this._options.version === "2.0" ? this._compile20() : this._compile12();
+
+		return `<?xml version="1.0" encoding="UTF-8"?>\n${xliff}\n`;
+	}
+}
+
+export default XliffCompiler;
@@ -0,0 +1,415 @@
+import { decodeUtf8, isBytes } from "./bytes.js";
+import { isFuzzy, setFlag } from "./flags.js";
+import { formatCharset, generateHeader, parseHeader } from "./shared.js";
+import type {
+	GetTextComment,
+	GetTextTranslations,
+	TranslationEntry,
+	XliffVersion,
+	gettextTranslation,
+} from "./types.js";
+import {
+	type XmlElement,
+	childElement,
+	childElements,
+	decodeControlCharacters,
+	localName,
+	parseXml,
+	textContent,
+} from "./xml.js";
+
+/**
+ * The gettext fields and the notes of an entry, by type
+ */
+type XliffMetadata = Record<string, string[]>;
+
+/**
+ * A translation of an XLIFF unit, fuzzy is undefined without target
+ */
+interface XliffSegment {
+	source: string;
+	target: string;
+	fuzzy?: boolean;
+}
+
+/**
+ * The XLIFF 1.2 states of the translations that are done
+ */
+const FINAL_STATES = ["translated", "signed-off", "final"];
+
+/**
+ * Reads the text of a note or a metadata element, the control characters
+ * encoded as their control pictures are decoded
+ *
+ * @param {XmlElement} element The element
+ * @return {string} The text
+ */
+function metaText(element: XmlElement): string {
+	return decodeControlCharacters(textContent(element));
+}
+
+/**
+ * Joins the text of a source or target element, the placeholders of the control
+ * characters (<cp hex="0007"/> in XLIFF 2.0, <x ctype="x-gettext-cp-0007"/> in
+ * XLIFF 1.2) are decoded
+ *
+ * @param {XmlElement} element The source or target element
+ * @return {string} The source string or the translation
+ */
+function inlineText(element: XmlElement): string {
+	return element.children
+		.map((child) => {
+			if (typeof child === "string") {
+				return child;
+			}
+
+			const hex =
+				localName(child.name) === "cp"
+					? child.attributes.hex
+					: child.attributes.ctype?.match(/^x-gettext-cp-([0-9a-f]+)$/i)?.[1];
+
+			return hex
+				? String.fromCodePoint(Number.parseInt(hex, 16))
+				: inlineText(child);
+		})
+		.join("");
+}
+
+/**
+ * Creates an XLIFF parser object, for the XLIFF 1.2 and 2.0 documents of the
+ * translation agencies. The units without gettext metadata are read too, their
+ * notes become translator comments
+ *
+ * @constructor
+ * @param {string | Uint8Array} input The XLIFF document
+ */
+class XliffParser {
+	_root: XmlElement;
+	_version: XliffVersion;
+
+	constructor(input: string | Uint8Array) {
+		this._root = parseXml(isBytes(input) ? decodeUtf8(input) : input);
+
+		if (localName(this._root.name) !== "xliff") {
+			throw new TypeError(
+				`Invalid XLIFF document: unexpected root element <${this._root.name}>`,
+			);
+		}
+
+		this._version = this._root.attributes.version?.startsWith("2")
+			? "2.0"
+			: "1.2";
+	}
+
+	/**
+	 * Reads the gettext fields, the references and the notes of a unit, a group
+	 * or a file
+	 *
+	 * @param {XmlElement} element The element
+	 * @return {XliffMetadata} The metadata
+	 */
+	_metadata(element: XmlElement): XliffMetadata {
+		const metadata: XliffMetadata = {};
+		const add = (type: string, value: string) => {
+			metadata[type] = [...(metadata[type] || []), value];
+		};
+		const addNote = (author: string | undefined, text: string) => {
+			if (author?.startsWith("x-gettext-")) {
+				add(author.slice(10), text);
+			} else {
+				// the notes of the agencies are kept as translator comments
+				add(author === "developer" ? "developer" : "translator", text);
+			}
+		};
+
+		if (this._version === "2.0") {
+			for (const metadataElement of childElements(element, "metadata")) {
+				for (const group of childElements(metadataElement, "metaGroup")) {
+					if (group.attributes.category !== "gettext") {
+						continue;
+					}
+
+					for (const meta of childElements(group, "meta")) {
+						add(meta.attributes.type, metaText(meta));
+					}
+				}
+			}
+
+			for (const notes of childElements(element, "notes")) {
+				for (const note of childElements(notes, "note")) {
+					addNote(note.attributes.category, metaText(note));
+				}
+			}
+
+			return metadata;
+		}
+
+		for (const group of childElements(element, "context-group")) {
+			const contexts = childElements(group, "context");
+
+			if (group.attributes.name === "x-gettext") {
+				for (const context of contexts) {
+					addNote(context.attributes["context-type"], metaText(context));
+				}
+			} else if (group.attributes.purpose === "location") {
+				const find = (type: string) =>
+					contexts.find(
+						(context) => context.attributes["context-type"] === type,
+					);
+				const file = find("sourcefile");
+				const line = find("linenumber");
+
+				if (file) {
+					add(
+						"reference",
+						line ? `${metaText(file)}:${metaText(line)}` : metaText(file),
+					);
+				}
+			}
+		}
+
+		for (const note of childElements(element, "note")) {
+			addNote(note.attributes.from, metaText(note));
+		}
+
+		return metadata;
+	}
+
+	/**
+	 * Reads the source and the translation of a unit. In XLIFF 1.2 a translation
+	 * is fuzzy if its state is not a final one, or without state if it is not
+	 * approved. In XLIFF 2.0 it is fuzzy if the segment state is "initial"
+	 *
+	 * @param {XmlElement} unit The trans-unit or unit element
+	 * @return {XliffSegment} The segment
+	 */
+	_segment(unit: XmlElement): XliffSegment {
+		const segments =
+			this._version === "2.0"
+				? childElements(unit).filter((child) =>
+						["segment", "ignorable"].includes(localName(child.name)),
+					)
+				: [unit];
+		const state =
+			this._version === "2.0"
+				? segments[0]?.attributes.state || "initial"
+				: unit.attributes.approved;
+		const part = (name: string) =>
+			segments
+				.map((segment) => {
+					const element = childElement(segment, name);
+
+					return element ? inlineText(element) : "";
+				})
+				.join("");
+		const source = part("source");
+		const target = part("target");
+
+		if (!target) {
+			return { source, target };
+		}
+
+		if (this._version === "2.0") {
+			return { source, target, fuzzy: state === "initial" };
+		}
+
+		const targetState = childElement(unit, "target")?.attributes.state;
+
+		if (targetState) {
+			return { source, target, fuzzy: !FINAL_STATES.includes(targetState) };
+		}
+
+		return { source, target, fuzzy: !!state && state !== "yes" };
+	}
+
+	/**
+	 * Creates the comments of an entry from its metadata, multiple references are
+	 * on separate lines
+	 *
+	 * @param {XliffMetadata} metadata The metadata
+	 * @return {GetTextComment} The comments
+	 */
+	_comments(metadata: XliffMetadata): GetTextComment {
+		const comments: GetTextComment = {};
+		const fields: [keyof GetTextComment, string][] = [
+			["translator", "translator"],
+			["extracted", "developer"],
+			["reference", "reference"],
+			["flag", "flags"],
+			["previous", "previous"],
+		];
+
+		for (const [key, type] of fields) {
+			if (metadata[type]) {
+				comments[key] = metadata[type].join("\n");
+			}
+		}
+
+		return comments;
+	}
+
+	/**
+	 * Creates a translation entry. The fuzzy flag follows the state of the
+	 * translations, the other flags are kept
+	 *
+	 * @param {XliffMetadata} metadata The metadata of the unit or of the plural group
+	 * @param {XliffSegment[]} segments The segments, one per plural form for a plural entry
+	 * @param {boolean} plural The entry is a plural entry
+	 * @return {TranslationEntry} The translation entry
+	 */
+	_entry(
+		metadata: XliffMetadata,
+		segments: XliffSegment[],
+		plural: boolean,
+	): TranslationEntry {
+		const entry: TranslationEntry = {
+			msgid: segments[0]?.source || "",
+			msgstr: segments.map((segment) => segment.target),
+			comments: this._comments(metadata),
+		};
+		const translated = segments.filter(
+			(segment) => typeof segment.fuzzy === "boolean",
+		);
+
+		if (metadata.msgctxt) {
+			entry.msgctxt = metadata.msgctxt[0];
+		}
+
+		if (plural) {
+			entry.msgid_plural =
+				metadata.msgid_plural?.[0] ?? segments[1]?.source ?? entry.msgid;
+		}
+
+		if (translated.length) {
+			const fuzzy = translated.some((segment) => segment.fuzzy);
+
+			if (isFuzzy(entry) !== fuzzy) {
+				setFlag(entry, "fuzzy", fuzzy);
+			}
+		}
+
+		return entry;
+	}
+
+	/**
+	 * Adds the units and the groups of a container to a section
+	 *
+	 * @param {XmlElement} container The body, file or group element
+	 * @param {GetTextTranslations} table Translation table
+	 * @param {boolean} obsolete Add to the obsolete section
+	 */
+	_addUnits(
+		container: XmlElement,
+		table: GetTextTranslations,
+		obsolete: boolean,
+	) {
+		for (const element of childElements(container)) {
+			const name = localName(element.name);
+			const type =
+				this._version === "2.0"
+					? element.attributes.type
+					: element.attributes.restype;
+			let entry: TranslationEntry;
+
+			if (name === "group" && /gettext[:-]plurals$/.test(type || "")) {
+				const units = childElements(
+					element,
+					this._version === "2.0" ? "unit" : "trans-unit",
+				);
+
+				entry = this._entry(
+					this._metadata(element),
+					units.map((unit) => this._segment(unit)),
+					true,
+				);
+			} else if (name === "group") {
+				this._addUnits(
+					element,
+					table,
+					obsolete || /gettext[:-]obsolete$/.test(type || ""),
+				);
+				continue;
+			} else if (name === "unit" || name === "trans-unit") {
+				entry = this._entry(
+					this._metadata(element),
+					[this._segment(element)],
+					false,
+				);
+			} else {
+				continue;
+			}
+
+			const section = obsolete ? "obsolete" : "translations";
+			const translations = (table[section] || {}) as gettextTranslation;
+			const msgctxt = entry.msgctxt || "";
+
+			if (!translations[msgctxt]) {
+				translations[msgctxt] = {};
+			}
+
+			translations[msgctxt][entry.msgid] = entry;
+			table[section] = translations;
+		}
+	}
+
+	/**
+	 * Reads the header entry from the metadata of the first file, or creates it
+	 * from the target language
+	 *
+	 * @param {XmlElement} file The file element
+	 * @return {GetTextTranslations} Translation table with its header entry
+	 */
+	_createTable(file?: XmlElement): GetTextTranslations {
+		const header =
+			file && this._version === "1.2" ? childElement(file, "header") : file;
+		const metadata = header ? this._metadata(header) : {};
+		const language =
+			this._version === "2.0"
+				? this._root.attributes.trgLang
+				: file?.attributes["target-language"];
+		let headers = parseHeader(metadata.header?.[0]);
+
+		if (!metadata.header) {
+			headers = language
+				? { Language: language, "Content-Type": "text/plain; charset=UTF-8" }
+				: { "Content-Type": "text/plain; charset=UTF-8" };
+		}
+
+		const charset = (headers["Content-Type"] || "").match(
+			/charset\s*=\s*([\w-]+)/i,
+		);
+		const entry = this._entry(
+			metadata,
+			[{ source: "", target: metadata.header?.[0] || generateHeader(headers) }],
+			false,
+		);
+
+		return {
+			charset: formatCharset(charset?.[1], "utf-8"),
+			headers,
+			translations: { "": { "": entry } },
+		};
+	}
+
+	/**
+	 * Parses the XLIFF document into a translation table, the files are merged
+	 *
+	 * @return {GetTextTranslations} Translation table
+	 */
+	parse(): GetTextTranslations {
+		const files = childElements(this._root, "file");
+		const table = this._createTable(files[0]);
+
+		for (const file of files) {
+			this._addUnits(
+				this._version === "2.0" ? file : childElement(file, "body") || file,
+				table,
+				false,
+			);
+		}
+
+		return table;
+	}
+}
+
+export default XliffParser;
@@ -0,0 +1,218 @@
+import type { MoCatalog } from "./MoCatalog.js";
+import { Translator } from "./Translator.js";
+import { catalogMo } from "./catalogMo.js";
+import { compileJson } from "./compileJson.js";
+import { compileMo } from "./compileMo.js";
+import { compilePo } from "./compilePo.js";
+import { compileXliff } from "./compileXliff.js";
+import {
+	hasFlag,
+	isFuzzy,
+	parseFlags,
+	setFlag,
+	stringifyFlags,
+} from "./flags.js";
+import {
+	checkFormat,
+	checkFormats,
+	parseFormatDirectives,
+} from "./formatStrings.js";
+import { mergePo } from "./mergePo.js";
+import { parseJson } from "./parseJson.js";
+import { parseMo } from "./parseMo.js";
+import { parsePo } from "./parsePo.js";
+import { parsePoStream } from "./parsePoStream.js";
+import { parseXliff } from "./parseXliff.js";
+import { compilePluralExpression, getPluralCategories } from "./pluralForms.js";
+import { parsePluralFromHeaders } from "./shared.js";
+import { stats } from "./stats.js";
+import type {
+	GetTextTranslations,
+	MoDiagnostic,
+	TranslationEntry,
+	jsonCompilerOptions,
+	jsonParserOptions,
+	moCompilerOptions,
+	moParserOptions,
+	parserOptions,
+	poMergeOptions,
+	poParserOptions,
+	poStreamParserOptions,
+	xliffCompilerOptions,
+} from "./types.js";
+import { validateMo } from "./validateMo.js";
+import { webStreamPo } from "./webStreamPo.js";
+
+/**
+ * Translation parser and compiler for PO files, the binary objects are
+ * Uint8Array. The PO files can be parsed from the WHATWG streams and the async
+ * iterables, the Node streams are only in the Node entry point. The APIs of the
+ * entry points are built on these objects
+ *
+ * @example `gettextParser.po.parse(input[, options]) → Object`
+ *
+ * @see https://www.gnu.org/software/gettext/manual/html_node/PO.html
+ */
+export const po: {
+	parse: (
+		input: Uint8Array | string,
+		options?: poParserOptions,
+	) => GetTextTranslations;
+	parseStream: typeof parsePoStream;
+	createWebParseStream: (
+		options?: poStreamParserOptions,
+	) => TransformStream<Uint8Array, GetTextTranslations | TranslationEntry>;
+	compile: (
+		table: GetTextTranslations,
+		options?: Partial<parserOptions>,
+	) => Uint8Array;
+	merge: (
+		po: GetTextTranslations,
+		pot: GetTextTranslations,
+		options?: poMergeOptions,
+	) => GetTextTranslations;
+} = {
+	parse: parsePo,
+	parseStream: parsePoStream,
+	createWebParseStream: webStreamPo,
+	compile: compilePo,
+	merge: mergePo,
+};
+
+/**
+ * Translation parser and compiler for MO files, the binary objects are Uint8Array
+ *
+ * @example `gettextParser.mo.parse(input[, defaultCharset]) → Object`
+ *
+ * @see https://www.gnu.org/software/gettext/manual/html_node/MO.html
+ */
+export const mo: {
+	parse: (
+		input: Uint8Array,
+		defaultCharset?: string,
+		options?: moParserOptions,
+	) => GetTextTranslations | false;
+	compile: (
+		table: GetTextTranslations,
+		options?: moCompilerOptions,
+	) => Uint8Array;
+	createCatalog: (
+		input: Uint8Array,
+		defaultCharset?: string,
+	) => MoCatalog | false;
+	validate: (input: Uint8Array) => MoDiagnostic[];
+} = {
+	parse: parseMo,
+	compile: compileMo,
+	createCatalog: catalogMo,
+	validate: validateMo,
+};
+
+/**
+ * Translation parser and compiler for the JSON formats of the JavaScript
+ * translation runtimes (Jed 1.x, Jed before 1.0 and gettext.js)
+ *
+ * @example `gettextParser.json.compile(table[, { format: "jed1.x" }]) → String`
+ */
+export const json: {
+	parse: (
+		input: string | Uint8Array | object,
+		options?: jsonParserOptions,
+	) => GetTextTranslations;
+	compile: (
+		table: GetTextTranslations,
+		options?: jsonCompilerOptions,
+	) => string;
+} = {
+	parse: parseJson,
+	compile: compileJson,
+};
+
+/**
+ * Translation parser and compiler for the XLIFF 1.2 and 2.0 documents of the
+ * translation agencies
+ *
+ * @example `gettextParser.xliff.compile(table[, { version: "2.0" }]) → String`
+ *
+ * @see https://docs.oasis-open.org/xliff/v1.2/os/xliff-core.html
+ */
+export const xliff: {
+	parse: (input: string | Uint8Array) => GetTextTranslations;
+	compile: (
+		table: GetTextTranslations,
+		options?: xliffCompilerOptions,
+	) => string;
+} = {
+	parse: parseXliff,
+	compile: compileXliff,
+};
+
+/**
+ * The plural forms of the translations: the plural= expression of the
+ * Plural-Forms header is compiled to a function that returns the index of the
+ * msgstr to use for a number
+ *
+ * @example `gettextParser.plural.fromHeaders(table.headers)(count) → Number`
+ *
+ * @see https://www.gnu.org/software/gettext/manual/html_node/Plural-forms.html
+ */
+export const plural: {
+	compile: typeof compilePluralExpression;
+	fromHeaders: typeof parsePluralFromHeaders;
+	categories: typeof getPluralCategories;
+} = {
+	compile: compilePluralExpression,
+	fromHeaders: parsePluralFromHeaders,
+	categories: getPluralCategories,
+};
+
+/**
+ * The flags of the "#," comment of the translation entries, as a flags object
+ * with the fuzzy, noWrap, formats, range and other properties
+ *
+ * @example `gettextParser.flags.set(entry, "fuzzy", false) → Object`
+ */
+export const flags: {
+	parse: typeof parseFlags;
+	stringify: typeof stringifyFlags;
+	has: typeof hasFlag;
+	isFuzzy: typeof isFuzzy;
+	set: typeof setFlag;
+} = {
+	parse: parseFlags,
+	stringify: stringifyFlags,
+	has: hasFlag,
+	isFuzzy,
+	set: setFlag,
+};
+
+/**
+ * The checks of the format strings of the translations against the ones of
+ * msgid, for the languages of the format flags
+ *
+ * @example `gettextParser.format.check(entry) → Array`
+ */
+export const format: {
+	check: typeof checkFormat;
+	checkTable: typeof checkFormats;
+	parseDirectives: typeof parseFormatDirectives;
+} = {
+	check: checkFormat,
+	checkTable: checkFormats,
+	parseDirectives: parseFormatDirectives,
+};
+
+/**
+ * The completion statistics of a translation table from po.parse or mo.parse,
+ * like msgfmt --statistics
+ *
+ * @example `gettextParser.stats(table) → Object`
+ */
+export { stats };
+
+/**
+ * The translation runtime over the parsed PO or MO translation tables
+ *
+ * @example `new gettextParser.Translator(table[, options]).gettext(msgid) → String`
+ */
+export { Translator };
@@ -0,0 +1,30 @@
+import {
+	Translator,
+	flags,
+	format,
+	json,
+	mo,
+	plural,
+	po,
+	stats,
+	xliff,
+} from "./api.js";
+
+/**
+ * The entry point for the browsers, Deno and the workers. It only needs
+ * Uint8Array, TextDecoder and TextEncoder: the charsets are converted with
+ * TextDecoder, and encoded with TextEncoder or the tables of the single byte
+ * charsets
+ */
+const gettextParser = {
+	po,
+	mo,
+	json,
+	xliff,
+	plural,
+	flags,
+	format,
+	stats,
+	Translator,
+};
+export default gettextParser;
@@ -0,0 +1,109 @@
+/**
+ * The helpers on the raw bytes of the PO and MO objects, they only use
+ * Uint8Array so the parsers and the compilers run without the Node Buffer
+ */
+
+const utf8Encoder = new TextEncoder();
+const utf8Decoder = new TextDecoder("utf-8");
+
+/**
+ * Checks if a value holds raw bytes, a Node Buffer is a Uint8Array too
+ *
+ * @param {unknown} value The value
+ * @return {boolean} Return true for a Uint8Array
+ */
+export function isBytes(value: unknown): value is Uint8Array {
+	return value instanceof Uint8Array;
+}
+
+/**
+ * Encodes a string to UTF-8
+ *
+ * @param {string} str The string
+ * @return {Uint8Array} The UTF-8 bytes
+ */
+export function encodeUtf8(str: string): Uint8Array {
+	return utf8Encoder.encode(str);
+}
+
+/**
+ * Decodes UTF-8 bytes, the invalid sequences become U+FFFD
+ *
+ * @param {Uint8Array} bytes The UTF-8 bytes
+ * @return {string} The string
+ */
+export function decodeUtf8(bytes: Uint8Array): string {
+	return utf8Decoder.decode(bytes);
+}
+
+/**
+ * Encodes a string with one byte per character, the code units above 0xff
+ * are truncated
+ *
+ * @param {string} str The string
+ * @return {Uint8Array} The bytes
+ */
+export function encodeLatin1(str: string): Uint8Array {
+	const bytes = new Uint8Array(str.length);
+
+	for (let i = 0; i < str.length; i++) {
+		bytes[i] = str.charCodeAt(i);
+	}
+
+	return bytes;
+}
+
+/**
+ * Decodes bytes with one character per byte
+ *
+ * @param {Uint8Array} bytes The bytes
+ * @return {string} The string
+ */
+export function decodeLatin1(bytes: Uint8Array): string {
+	let str = "";
+
+	for (let i = 0; i < bytes.length; i++) {
+		str += String.fromCharCode(bytes[i]);
+	}
+
+	return str;
+}
+
+/**
+ * Joins byte arrays
+ *
+ * @param {Uint8Array[]} parts The byte arrays
+ * @return {Uint8Array} The joined bytes
+ */
+export function concatBytes(parts: Uint8Array[]): Uint8Array {
+	const bytes = new Uint8Array(
+		parts.reduce((length, part) => length + part.length, 0),
+	);
+	let position = 0;
+
+	for (const part of parts) {
+		bytes.set(part, position);
+		position += part.length;
+	}
+
+	return bytes;
+}
+
+/**
+ * Compares byte arrays like Buffer.compare, byte by byte and then by length
+ *
+ * @param {Uint8Array} left The first bytes
+ * @param {Uint8Array} right The second bytes
+ * @return {number} -1, 0 or 1
+ */
+export function compareBytes(left: Uint8Array, right: Uint8Array): number {
+	const length = Math.min(left.length, right.length);
+
+	for (let i = 0; i < length; i++) {
+		if (left[i] !== right[i]) {
+			return left[i] < right[i] ? -1 : 1;
+		}
+	}
+
+	return Math.sign(left.length - right.length);
+}
@@ -0,0 +1,17 @@
+import { MoCatalog } from "./MoCatalog.js";
+
+/**
+ * Opens a binary MO object for lazy lookups, strings are decoded on demand
+ *
+ * @param {Uint8Array} buffer Binary MO object
+ * @param {String} [defaultCharset] Default charset to use
+ * @return {MoCatalog | false} The catalog or false if the buffer is not a MO object
+ */
+export function catalogMo(
+	buffer: Uint8Array,
+	defaultCharset?: string,
+): MoCatalog | false {
+	const catalog = new MoCatalog(buffer, defaultCharset);
+
+	return catalog.open();
+}
@@ -0,0 +1,662 @@
+import { promises as fs } from "node:fs";
+import * as path from "node:path";
+import type { Readable, Writable } from "node:stream";
+import { JSON_FORMATS } from "./JsonCompiler.js";
+import { XLIFF_VERSIONS } from "./XliffCompiler.js";
+import { compileJson } from "./compileJson.js";
+import { compileMo } from "./compileMo.js";
+import { compilePo } from "./compilePo.js";
+import { compileXliff } from "./compileXliff.js";
+import { setCharsetCodec } from "./encoding.js";
+import { iconvCodec } from "./iconvCodec.js";
+import { parseJson } from "./parseJson.js";
+import { parseMo } from "./parseMo.js";
+import { parsePo } from "./parsePo.js";
+import { parseXliff } from "./parseXliff.js";
+import { stats } from "./stats.js";
+import type {
+	GetTextTranslations,
+	JsonFormat,
+	XliffVersion,
+	moCompilerOptions,
+	parserOptions,
+} from "./types.js";
+import { validateMo } from "./validateMo.js";
+
+// the charsets unknown to TextDecoder and TextEncoder are converted with iconv-lite
+setCharsetCodec(iconvCodec);
+
+/**
+ * The file formats handled by the command line
+ */
+type CliFormat = "po" | "mo" | "json" | "xliff";
+
+/**
+ * The standard streams of the command line, replaced in the tests
+ */
+export interface CliStreams {
+	stdin: Readable;
+	stdout: Writable;
+	stderr: Writable;
+}
+
+/**
+ * The parsed command line arguments
+ */
+interface CliArguments {
+	command: string;
+	files: string[];
+	output?: string;
+	from?: CliFormat;
+	to?: CliFormat;
+	compile: Partial<parserOptions>;
+	mo: moCompilerOptions;
+	defaultCharset?: string;
+	strict: boolean;
+	json: boolean;
+	jsonFormat?: JsonFormat;
+	language?: string;
+	xliffVersion?: XliffVersion;
+	help: boolean;
+}
+
+/**
+ * An input file, with its path from the base directory of its glob pattern
+ */
+interface CliInput {
+	file: string;
+	relative: string;
+}
+
+/**
+ * The exit codes: success, failure (invalid input or validation errors) and wrong usage
+ */
+export const EXIT_SUCCESS = 0;
+export const EXIT_FAILURE = 1;
+export const EXIT_USAGE = 2;
+
+const COMMANDS = ["compile", "decompile", "convert", "validate", "stats"];
+
+const FORMATS: Record<string, CliFormat> = {
+	".po": "po",
+	".pot": "po",
+	".mo": "mo",
+	".json": "json",
+	".xlf": "xliff",
+	".xliff": "xliff",
+};
+
+const USAGE = `Usage: gettext-parser <command> [options] [files...]
+
+Commands:
+  compile     Compile PO files to MO files
+  decompile   Decompile MO files to PO files
+  convert     Convert PO and MO files to JSON or XLIFF and back
+  validate    Check PO files, report the problems of every entry, and the
+              structure of MO files
+  stats       Count the translated, fuzzy and untranslated messages
+
+Files can be glob patterns (e.g. "locales/**/*.po"), stdin is read when no
+file or "-" is given.
+
+Options:
+  -o, --output <path>        Output file, or directory for several inputs ("-" for stdout)
+      --from <format>        Input format (po, mo, json or xliff), guessed from the extension
+      --to <format>          Output format of convert (po, mo, json or xliff)
+      --json-format <format> JSON of a translation runtime (jed1.x, jed, gettext.js or i18next)
+                             instead of the translation object
+      --xliff-version <v>    XLIFF version of the output (1.2 or 2.0), default 1.2
+      --language <lang>      Language of the i18next plural suffixes, default from the header
+      --fold-length <n>      Fold the PO lines longer than n characters, 0 to disable
+      --sort                 Sort the PO entries by msgid
+      --eol <lf|crlf>        Line endings of the PO output
+      --no-escape-characters Do not escape the tabs and newlines of the PO output
+      --default-charset <c>  Charset of the inputs that do not declare one
+      --use-fuzzy            Include the fuzzy entries in the MO and runtime JSON outputs
+      --no-hash-table        Do not write the MO hash table
+      --endianness <le|be>   Byte order of the MO output, default le
+      --strict               Fail validate on warnings too
+      --json                 Print the stats as JSON lines, with the words and the contexts
+  -h, --help                 Show this help
+
+Exit codes: 0 on success, 1 on invalid input or validation errors, 2 on wrong usage.
+`;
+
+/**
+ * An error of the command line arguments
+ */
+class UsageError extends Error {}
+
+/**
+ * Parses the command line arguments
+ *
+ * @param {string[]} args The arguments, without the node and script paths
+ * @return {CliArguments} The parsed arguments
+ * @throws UsageError Will throw an error if an argument is not valid
+ */
+function parseArguments(args: string[]): CliArguments {
+	const parsed: CliArguments = {
+		command: "",
+		files: [],
+		compile: {},
+		mo: {},
+		strict: false,
+		json: false,
+		help: false,
+	};
+	let rest = false;
+
+	const value = (index: number, name: string): string => {
+		if (index >= args.length) {
+			throw new UsageError(`Missing value of ${name}`);
+		}
+
+		return args[index];
+	};
+
+	const format = (name: string, str: string): CliFormat => {
+		if (!["po", "mo", "json", "xliff"].includes(str)) {
+			throw new UsageError(`Unknown format "${str}" of ${name}`);
+		}
+
+		return str as CliFormat;
+	};
+
+	for (let i = 0; i < args.length; i++) {
+		const arg = args[i];
+
+		if (rest || arg === "-" || !arg.startsWith("-")) {
+			if (!parsed.command) {
+				parsed.command = arg;
+			} else {
+				parsed.files.push(arg);
+			}
+
+			continue;
+		}
+
+		switch (arg) {
+			case "--":
+				rest = true;
+				break;
+			case "-h":
+			case "--help":
+				parsed.help = true;
+				break;
+			case "-o":
+			case "--output":
+				parsed.output = value(++i, arg);
+				break;
+			case "--from":
+				parsed.from = format(arg, value(++i, arg));
+				break;
+			case "--to":
+				parsed.to = format(arg, value(++i, arg));
+				break;
+			case "--fold-length": {
+				const foldLength = Number(value(++i, arg));
+
+				if (!Number.isInteger(foldLength) || foldLength < 0) {
+					throw new UsageError(`Invalid value of ${arg}: ${args[i]}`);
+				}
+
+				parsed.compile.foldLength = foldLength;
+				break;
+			}
+			case "--sort":
+				parsed.compile.sort = true;
+				break;
+			case "--eol": {
+				const eol = value(++i, arg);
+
+				if (eol !== "lf" && eol !== "crlf") {
+					throw new UsageError(`Invalid value of ${arg}: ${eol}`);
+				}
+
+				parsed.compile.eol = eol === "crlf" ? "\r\n" : "\n";
+				break;
+			}
+			case "--no-escape-characters":
+				parsed.compile.escapeCharacters = false;
+				break;
+			case "--language":
+				parsed.language = value(++i, arg);
+				break;
+			case "--default-charset":
+				parsed.defaultCharset = value(++i, arg);
+				break;
+			case "--use-fuzzy":
+				parsed.mo.useFuzzy = true;
+				break;
+			case "--endianness": {
+				const endianness = value(++i, arg);
+
+				if (endianness !== "le" && endianness !== "be") {
+					throw new UsageError(`Invalid value of ${arg}: ${endianness}`);
+				}
+
+				parsed.mo.endianness = endianness;
+				break;
+			}
+			case "--no-hash-table":
+				parsed.mo.hashTable = false;
+				break;
+			case "--strict":
+				parsed.strict = true;
+				break;
+			case "--json":
+				parsed.json = true;
+				break;
+			case "--json-format": {
+				const jsonFormat = value(++i, arg);
+
+				if (!JSON_FORMATS.includes(jsonFormat)) {
+					throw new UsageError(`Unknown format "${jsonFormat}" of ${arg}`);
+				}
+
+				parsed.jsonFormat = jsonFormat as JsonFormat;
+				break;
+			}
+			case "--xliff-version": {
+				const xliffVersion = value(++i, arg);
+
+				if (!XLIFF_VERSIONS.includes(xliffVersion)) {
+					throw new UsageError(`Invalid value of ${arg}: ${xliffVersion}`);
+				}
+
+				parsed.xliffVersion = xliffVersion as XliffVersion;
+				break;
+			}
+			default:
+				throw new UsageError(`Unknown option ${arg}`);
+		}
+	}
+
+	if (!parsed.help && !COMMANDS.includes(parsed.command)) {
+		throw new UsageError(
+			parsed.command
+				? `Unknown command "${parsed.command}"`
+				: "Missing command",
+		);
+	}
+
+	return parsed;
+}
+
+/**
+ * Converts a glob pattern to a regular expression, "**" matches any number of
+ * directories, "*" and "?" match the characters of a single path segment
+ *
+ * @param {string} pattern The glob pattern
+ * @return {RegExp} The regular expression
+ */
+function globToRegExp(pattern: string): RegExp {
+	let source = "";
+
+	for (let i = 0; i < pattern.length; i++) {
+		const chr = pattern.charAt(i);
+
+		if (chr === "*" && pattern.charAt(i + 1) === "*") {
+			// "**/" also matches no directory at all
+			if (pattern.charAt(i + 2) === "/") {
+				source += "(?:[^/]*/)*";
+				i += 2;
+			} else {
+				source += ".*";
+				i++;
+			}
+		} else if (chr === "*") {
+			source += "[^/]*";
+		} else if (chr === "?") {
+			source += "[^/]";
+		} else {
+			source += chr.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+		}
+	}
+
+	return new RegExp(`^${source}$`);
+}
+
+/**
+ * Lists the files matching a glob pattern, sorted. A pattern without wildcards is kept as
+ * is, a missing base directory matches no file
+ *
+ * @param {string} pattern The glob pattern
+ * @return {Promise<CliInput[]>} The matching files
+ */
+async function expandGlob(pattern: string): Promise<CliInput[]> {
+	if (!/[*?]/.test(pattern)) {
+		return [{ file: pattern, relative: path.basename(pattern) }];
+	}
+
+	const segments = pattern.split(/[\\/]/);
+	const magic = segments.findIndex((segment) => /[*?]/.test(segment));
+	const base = segments.slice(0, magic).join("/");
+	const regex = globToRegExp(segments.slice(magic).join("/"));
+	// without "**" the files are at a known depth, no need to walk deeper
+	const depth = segments.includes("**")
+		? Number.POSITIVE_INFINITY
+		: segments.length - magic;
+	const files: CliInput[] = [];
+
+	const walk = async (dir: string, relative: string, level: number) => {
+		const entries = await fs
+			.readdir(dir || ".", { withFileTypes: true })
+			.catch((error: NodeJS.ErrnoException) => {
+				if (error.code === "ENOENT" || error.code === "ENOTDIR") {
+					return [];
+				}
+
+				throw error;
+			});
+
+		for (const entry of entries) {
+			// like the shells, hidden files are only matched explicitly
+			if (entry.name.startsWith(".")) {
+				continue;
+			}
+
+			const file = relative ? `${relative}/${entry.name}` : entry.name;
+
+			if (entry.isDirectory()) {
+				if (level < depth) {
+					await walk(path.join(dir, entry.name), file, level + 1);
+				}
+			} else if (regex.test(file)) {
+				files.push({ file: base ? `${base}/${file}` : file, relative: file });
+			}
+		}
+	};
+
+	await walk(base, "", 1);
+
+	return files.sort((a, b) => (a.file < b.file ? -1 : a.file > b.file ? 1 : 0));
+}
+
+/**
+ * Reads a stream to the end
+ *
+ * @param {Readable} stream The stream
+ * @return {Promise<Buffer>} The content of the stream
+ */
+function readStream(stream: Readable): Promise<Buffer> {
+	return new Promise((resolve, reject) => {
+		const chunks: Buffer[] = [];
+
+		stream.on("data", (chunk) => chunks.push(Buffer.from(chunk)));
+		stream.on("end", () => resolve(Buffer.concat(chunks)));
+		stream.on("error", reject);
+	});
+}
+
+/**
+ * Finds the format of a file from its extension
+ *
+ * @param {string} file The file path
+ * @param {string} command The command, decompile reads MO files by default
+ * @param {CliFormat} [format] The format set on the command line
+ * @return {CliFormat} The format
+ */
+function formatOf(
+	file: string,
+	command: string,
+	format?: CliFormat,
+): CliFormat {
+	return (
+		format ||
+		FORMATS[path.extname(file).toLowerCase()] ||
+		(command === "decompile" ? "mo" : "po")
+	);
+}
+
+/**
+ * Parses an input into a translation table
+ *
+ * @param {Buffer} buffer The content of the input
+ * @param {CliFormat} format The format of the input
+ * @param {CliArguments} args The command line arguments
+ * @param {boolean | "collect"} [validation] The PO validation mode
+ * @return {GetTextTranslations} The translation table
+ * @throws Error Will throw an error if the input is not valid
+ */
+function parseTable(
+	buffer: Buffer,
+	format: CliFormat,
+	args: CliArguments,
+	validation?: boolean | "collect",
+): GetTextTranslations {
+	if (format === "json" && args.jsonFormat) {
+		return parseJson(buffer, {
+			format: args.jsonFormat,
+			language: args.language,
+		});
+	}
+
+	if (format === "json") {
+		return JSON.parse(buffer.toString("utf-8"));
+	}
+
+	if (format === "xliff") {
+		return parseXliff(buffer);
+	}
+
+	if (format === "mo") {
+		const table = parseMo(buffer, args.defaultCharset);
+
+		if (!table) {
+			throw new Error("Invalid MO file");
+		}
+
+		return table;
+	}
+
+	return parsePo(buffer, {
+		defaultCharset: args.defaultCharset,
+		validation,
+	});
+}
+
+/**
+ * Serializes a translation table
+ *
+ * @param {GetTextTranslations} table The translation table
+ * @param {CliFormat} format The output format
+ * @param {CliArguments} args The command line arguments
+ * @return {Uint8Array | string} The output
+ */
+function compileTable(
+	table: GetTextTranslations,
+	format: CliFormat,
+	args: CliArguments,
+): Uint8Array | string {
+	if (format === "json" && args.jsonFormat) {
+		return compileJson(table, {
+			format: args.jsonFormat,
+			language: args.language,
+			useFuzzy: args.mo.useFuzzy,
+		});
+	}
+
+	if (format === "json") {
+		return `${JSON.stringify(table, null, 2)}\n`;
+	}
+
+	if (format === "xliff") {
+		return compileXliff(table, { version: args.xliffVersion });
+	}
+
+	if (format === "mo") {
+		return compileMo(table, args.mo);
+	}
+
+	return compilePo(table, args.compile);
+}
+
+/**
+ * Runs the command line
+ *
+ * @param {string[]} argv The arguments, without the node and script paths
+ * @param {CliStreams} [streams] The standard streams
+ * @return {Promise<number>} The exit code
+ */
+export async function runCli(
+	argv: string[],
+	streams: CliStreams = {
+		stdin: process.stdin,
+		stdout: process.stdout,
+		stderr: process.stderr,
+	},
+): Promise<number> {
+	const { stdin, stdout, stderr } = streams;
+	let args: CliArguments;
+
+	try {
+		args = parseArguments(argv);
+	} catch (error) {
+		stderr.write(`gettext-parser: ${(error as Error).message}\n\n${USAGE}`);
+
+		return EXIT_USAGE;
+	}
+
+	if (args.help) {
+		stdout.write(USAGE);
+
+		return EXIT_SUCCESS;
+	}
+
+	const files: CliInput[] = [];
+
+	for (const pattern of args.files.length ? args.files : ["-"]) {
+		let matches: CliInput[];
+
+		try {
+			matches = await expandGlob(pattern);
+		} catch (error) {
+			stderr.write(`gettext-parser: ${(error as Error).message}\n`);
+
+			return EXIT_FAILURE;
+		}
+
+		if (!matches.length) {
+			stderr.write(`gettext-parser: No file matches ${pattern}\n`);
+
+			return EXIT_FAILURE;
+		}
+
+		files.push(...matches);
+	}
+
+	const toDirectory =
+		files.length > 1 ||
+		/[\\/]$/.test(args.output || "") ||
+		(!!args.output &&
+			args.output !== "-" &&
+			(await fs.stat(args.output).then(
+				(stat) => stat.isDirectory(),
+				() => false,
+			)));
+	// the inputs written to the same output file, like messages.po of two languages
+	const targets = new Map<string, string>();
+	let status = EXIT_SUCCESS;
+
+	for (const { file, relative } of files) {
+		const name = file === "-" ? "<stdin>" : file;
+		const inputFormat = formatOf(file, args.command, args.from);
+
+		try {
+			const buffer =
+				file === "-" ? await readStream(stdin) : await fs.readFile(file);
+
+			if (args.command === "validate" && inputFormat === "mo") {
+				for (const diagnostic of validateMo(buffer)) {
+					stderr.write(`${name}: error: ${diagnostic.message}\n`);
+					status = EXIT_FAILURE;
+				}
+
+				continue;
+			}
+
+			if (args.command === "validate") {
+				const table = parseTable(buffer, inputFormat, args, "collect");
+
+				for (const diagnostic of table.diagnostics || []) {
+					const line = diagnostic.lineNumber ? `:${diagnostic.lineNumber}` : "";
+
+					stderr.write(
+						`${name}${line}: ${diagnostic.severity}: ${diagnostic.message}\n`,
+					);
+
+					if (diagnostic.severity === "error" || args.strict) {
+						status = EXIT_FAILURE;
+					}
+				}
+
+				continue;
+			}
+
+			if (args.command === "stats") {
+				const statistics = stats(parseTable(buffer, inputFormat, args));
+
+				if (args.json) {
+					stdout.write(`${JSON.stringify({ file: name, ...statistics })}\n`);
+				} else {
+					stdout.write(
+						`${name}: ${statistics.translated.messages} translated, ${statistics.fuzzy.messages} fuzzy, ${statistics.untranslated.messages} untranslated messages.\n`,
+					);
+				}
+
+				continue;
+			}
+
+			let outputFormat: CliFormat;
+
+			if (args.command === "compile") {
+				outputFormat = "mo";
+			} else if (args.command === "decompile") {
+				outputFormat = "po";
+			} else {
+				outputFormat =
+					args.to ||
+					(inputFormat === "json" || inputFormat === "xliff" ? "po" : "json");
+			}
+
+			const table = parseTable(buffer, inputFormat, args);
+			const output = compileTable(table, outputFormat, args);
+
+			if (args.output === "-" || (file === "-" && !args.output)) {
+				stdout.write(output);
+				continue;
+			}
+
+			const withExtension = (source: string) =>
+				`${source.slice(
+					0,
+					source.length - path.extname(source).length,
+				)}.${outputFormat}`;
+			let target = withExtension(file);
+
+			// the inputs of a glob keep their folders in the output directory
+			if (args.output && toDirectory) {
+				target = path.join(args.output, withExtension(relative));
+			} else if (args.output) {
+				target = args.output;
+			}
+
+			const other = targets.get(path.resolve(target));
+
+			if (other !== undefined) {
+				throw new Error(`${target} is already the output of ${other}`);
+			}
+
+			targets.set(path.resolve(target), name);
+
+			await fs.mkdir(path.dirname(target), { recursive: true });
+			await fs.writeFile(target, output);
+		} catch (error) {
+			stderr.write(`${name}: error: ${(error as Error).message}\n`);
+			status = EXIT_FAILURE;
+		}
+	}
+
+	return status;
+}
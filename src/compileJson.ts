@@ -0,0 +1,19 @@
+import JsonCompiler from "./JsonCompiler.js";
+import type { GetTextTranslations, jsonCompilerOptions } from "./types.js";
+
+/**
+ * Exposes general compiler function. Takes a translation
+ * object as a parameter and returns a Jed or gettext.js JSON string
+ *
+ * @param {GetTextTranslations} table Translation object
+ * @param {jsonCompilerOptions} [options] Compiler options
+ * @return {string} Compiled JSON string
+ */
+export function compileJson(
+	table: GetTextTranslations,
+	options?: jsonCompilerOptions,
+): string {
+	const compiler = new JsonCompiler(table, options);
+
+	return compiler.compile();
+}
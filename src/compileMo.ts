@@ -1,15 +1,19 @@
 import MoCompiler from "./MoCompiler.js";
-import type { GetTextTranslations } from "./types.js";
+import type { GetTextTranslations, moCompilerOptions } from "./types.js";
 
 /**
  * Exposes general compiler function. Takes a translation
  * object as a parameter and returns binary MO object
  *
  * @param {GetTextTranslations} table Translation object
- * @return {Buffer} Compiled binary MO object
+ * @param {moCompilerOptions} [options] Compiler options
+ * @return {Uint8Array} Compiled binary MO object
  */
-export function compileMo(table: GetTextTranslations): Buffer {
-	const compiler = new MoCompiler(table);
+export function compileMo(
+	table: GetTextTranslations,
+	options?: moCompilerOptions,
+): Uint8Array {
+	const compiler = new MoCompiler(table, options);
 
 	return compiler.compile();
 }
@@ -7,12 +7,12 @@ import type { GetTextTranslations, parserOptions } from "./types.js";
  *
  * @param {GetTextTranslations} table Translation object
  * @param {parserOptions} options Compiler options
- * @return {string | Buffer} Compiled PO object
+ * @return {Uint8Array} Compiled PO object
  */
 export function compilePo(
 	table: GetTextTranslations,
-	options?: parserOptions,
-): string | Buffer {
+	options?: Partial<parserOptions>,
+): Uint8Array {
 	const compiler = new PoCompiler(table, options);
 
 	return compiler.compile();
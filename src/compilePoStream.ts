@@ -0,0 +1,16 @@
+import type { TransformOptions } from "node:stream";
+import PoCompilerTransform from "./PoCompilerTransform.js";
+import type { parserOptions } from "./types.js";
+
+/**
+ * Compiles PO entries written in object mode, emits the encoded PO text
+ *
+ * @param {parserOptions} [options] Optional compiler options
+ * @param {TransformOptions} [transformOptions] Optional stream options
+ */
+export function compilePoStream(
+	options?: parserOptions,
+	transformOptions: TransformOptions = {},
+) {
+	return new PoCompilerTransform(options, transformOptions);
+}
@@ -0,0 +1,19 @@
+import XliffCompiler from "./XliffCompiler.js";
+import type { GetTextTranslations, xliffCompilerOptions } from "./types.js";
+
+/**
+ * Exposes general compiler function. Takes a translation
+ * object as a parameter and returns an XLIFF 1.2 or 2.0 string
+ *
+ * @param {GetTextTranslations} table Translation object
+ * @param {xliffCompilerOptions} [options] Compiler options
+ * @return {string} Compiled XLIFF string
+ */
+export function compileXliff(
+	table: GetTextTranslations,
+	options?: xliffCompilerOptions,
+): string {
+	const compiler = new XliffCompiler(table, options);
+
+	return compiler.compile();
+}
@@ -1,58 +1,149 @@
-import * as iconv from "iconv-lite";
+import { decodeUtf8, encodeUtf8 } from "./bytes.js";
 
 /**
- * Convert encoding of a UTF-8 string or a buffer
+ * A charset converter for the charsets that TextDecoder can't decode or
+ * TextEncoder can't encode, like the multi-byte legacy charsets
+ */
+export interface CharsetCodec {
+	decode: (bytes: Uint8Array, charset: string) => string;
+	encode: (str: string, charset: string) => Uint8Array;
+}
+
+/**
+ * The WHATWG encodings with one byte per character, they get an encoding table
+ */
+const SINGLE_BYTE_ENCODINGS =
+	/^(?:ibm866|iso-8859-\d+|koi8-[ru]|macintosh|windows-\d+|x-mac-cyrillic)$/;
+
+/**
+ * The encoding tables of the single byte charsets, built on demand
+ */
+const encodingTables: Record<string, Record<string, number>> = {};
+
+let fallbackCodec: CharsetCodec | undefined;
+
+/**
+ * Sets the converter used for the charsets unknown to TextDecoder and
+ * TextEncoder, the Node entry point sets iconv-lite
+ *
+ * @param {CharsetCodec} [codec] The converter, undefined to remove it
+ */
+export function setCharsetCodec(codec?: CharsetCodec) {
+	fallbackCodec = codec;
+}
+
+/**
+ * Creates a decoder for a charset
+ *
+ * @param {string} charset The normalized charset name
+ * @return {TextDecoder | undefined} The decoder, undefined if the charset is unknown
+ */
+function createDecoder(charset: string): TextDecoder | undefined {
+	try {
+		return new TextDecoder(charset);
+	} catch {
+		// TextDecoder throws a RangeError for the unknown charsets
+		return undefined;
+	}
+}
+
+/**
+ * Returns the encoding table of a single byte charset, from its decoding
  *
- * @param strRaw String to be converted
- * @param toRaw Encoding to be converted to
- * @param [fromRaw='UTF-8'] Encoding to be converted from
- * @return Encoded string
+ * @param {TextDecoder} decoder The decoder of the charset
+ * @return {Record<string, number> | undefined} The bytes by character, undefined if the charset is not single byte
  */
-export default function convert(
-	strRaw: string | Buffer,
-	toRaw: string,
-	fromRaw = "UTF-8",
-): Buffer | string {
-	const from = checkEncoding(fromRaw);
-	const to = checkEncoding(toRaw);
-	let str = strRaw || "";
-
-	if (from === "UTF-8" && typeof str === "string") {
-		str = Buffer.from(str, "utf-8");
+function encodingTable(
+	decoder: TextDecoder,
+): Record<string, number> | undefined {
+	if (!SINGLE_BYTE_ENCODINGS.test(decoder.encoding)) {
+		return undefined;
 	}
 
-	if (from === to) {
-		return Buffer.from(str);
+	if (!encodingTables[decoder.encoding]) {
+		const table: Record<string, number> = {};
+
+		for (let byte = 0; byte < 0x100; byte++) {
+			const chr = decoder.decode(Uint8Array.of(byte));
+
+			// the bytes without a character decode to the replacement character
+			if (chr !== "\ufffd") {
+				table[chr] = byte;
+			}
+		}
+
+		encodingTables[decoder.encoding] = table;
+	}
+
+	return encodingTables[decoder.encoding];
+}
+
+/**
+ * Decodes bytes of a charset into a string
+ *
+ * @param {Uint8Array} bytes The bytes
+ * @param {string} charsetRaw The charset of the bytes
+ * @return {string} The decoded string, UTF-8 decoded if the charset is not supported
+ */
+export function decode(bytes: Uint8Array, charsetRaw: string): string {
+	const charset = checkEncoding(charsetRaw);
+
+	if (charset === "UTF-8") {
+		return decodeUtf8(bytes);
 	}
 
 	try {
-		return convertIconvLite(str, to, from);
+		const decoder = createDecoder(charset);
+
+		if (decoder) {
+			return decoder.decode(bytes);
+		}
+
+		if (fallbackCodec) {
+			return fallbackCodec.decode(bytes, charset);
+		}
+
+		throw new TypeError(`Unsupported charset "${charsetRaw}"`);
 	} catch (E) {
 		console.error(E);
-		return strRaw as Buffer;
+		return decodeUtf8(bytes);
 	}
 }
 
 /**
- * Convert encoding of astring with iconv-lite
+ * Encodes a string into the bytes of a charset, the characters missing from a
+ * single byte charset become "?"
  *
- * @param str String to be converted
- * @param to Encoding to be converted to
- * @param [from='UTF-8'] Encoding to be converted from
- * @return Encoded string
+ * @param {string} str The string
+ * @param {string} charsetRaw The charset to encode to
+ * @return {Uint8Array} The encoded bytes, UTF-8 if the charset is not supported
  */
-function convertIconvLite(
-	str: Buffer | string,
-	to: string,
-	from: string,
-): string | Buffer {
-	if (to === "UTF-8") {
-		return iconv.decode(str as Buffer, from);
+export function encode(str: string, charsetRaw: string): Uint8Array {
+	const charset = checkEncoding(charsetRaw);
+
+	if (charset === "UTF-8") {
+		return encodeUtf8(str);
 	}
-	if (from === "UTF-8" && typeof str === "string") {
-		return iconv.encode(str, to);
+
+	try {
+		const decoder = createDecoder(charset);
+		const table = decoder && encodingTable(decoder);
+
+		if (table) {
+			const chars = Array.from(str);
+
+			return Uint8Array.from(chars, (chr) => table[chr] ?? 0x3f);
+		}
+
+		if (fallbackCodec) {
+			return fallbackCodec.encode(str, charset);
+		}
+
+		throw new TypeError(`Unsupported charset "${charsetRaw}"`);
+	} catch (E) {
+		console.error(E);
+		return encodeUtf8(str);
 	}
-	return iconv.encode(iconv.decode(str as Buffer, from), to);
 }
 
 /**
@@ -68,7 +159,7 @@ function checkEncoding(name: string): string {
 		.replace(/^latin[\-_]?(\d+)$/i, "ISO-8859-$1")
 		.replace(/^win(?:dows)?[\-_]?(\d+)$/i, "WINDOWS-$1")
 		.replace(/^utf[\-_]?(\d+)$/i, "UTF-$1")
-		.replace(/^ks_c_5601\-1987$/i, "CP949")
+		.replace(/^ks_c_5601\-1987$/i, "EUC-KR")
 		.replace(/^us[\-_]?ascii$/i, "ASCII")
 		.toUpperCase();
 }
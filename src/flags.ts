@@ -0,0 +1,277 @@
+import { splitFlags } from "./shared.js";
+import type { TranslationEntry, TranslationEntryFlags } from "./types.js";
+
+/**
+ * The languages of the format flags, in the order GNU gettext writes them
+ */
+const FORMAT_LANGUAGES = [
+	"c",
+	"objc",
+	"c++",
+	"python",
+	"python-brace",
+	"java",
+	"java-printf",
+	"csharp",
+	"javascript",
+	"scheme",
+	"lisp",
+	"elisp",
+	"librep",
+	"rust",
+	"go",
+	"ruby",
+	"sh",
+	"awk",
+	"lua",
+	"object-pascal",
+	"modula2",
+	"d",
+	"smalltalk",
+	"qt",
+	"qt-plural",
+	"kde",
+	"kde-kuit",
+	"boost",
+	"tcl",
+	"perl",
+	"perl-brace",
+	"php",
+	"gcc-internal",
+	"gfc-internal",
+	"ycp",
+];
+
+const FORMAT_REGEX = /^(no-)?([a-z0-9+-]+)-format$/;
+
+const RANGE_REGEX = /^range:\s*(\d+)\s*\.\.\s*(\d+)$/;
+
+/**
+ * The flags with a property of their own in the flags object
+ */
+const FIXED_FLAGS = new Set(["fuzzy", "wrap", "no-wrap", "range"]);
+
+/**
+ * Sets or unsets a single flag of a flags object
+ *
+ * @param flags The flags object
+ * @param flag The flag (e.g. "fuzzy", "no-c-format" or "range: 0..10")
+ * @param on True to set the flag, false to unset it
+ * @return {TranslationEntryFlags} The updated flags object
+ */
+function applyFlag(
+	flags: TranslationEntryFlags,
+	flag: string,
+	on: boolean,
+): TranslationEntryFlags {
+	const { fuzzy, noWrap, formats = {}, range, other = [] } = flags;
+	const format = flag.match(FORMAT_REGEX);
+	const rangeMatch = flag.match(RANGE_REGEX);
+	const result: TranslationEntryFlags = {};
+
+	if (flag === "fuzzy" ? on : fuzzy) {
+		result.fuzzy = true;
+	}
+
+	if (flag === "wrap" || flag === "no-wrap") {
+		// unsetting "no-wrap" does not unset "wrap"
+		if (on) {
+			result.noWrap = flag === "no-wrap";
+		} else if (typeof noWrap === "boolean" && noWrap !== (flag === "no-wrap")) {
+			result.noWrap = noWrap;
+		}
+	} else if (typeof noWrap === "boolean") {
+		result.noWrap = noWrap;
+	}
+
+	const resultFormats: Record<string, boolean> = {};
+
+	for (const language of Object.keys(formats)) {
+		if (!format || language !== format[2]) {
+			resultFormats[language] = formats[language];
+		} else if (!on && formats[language] !== !format[1]) {
+			// unsetting "c-format" does not unset "no-c-format"
+			resultFormats[language] = formats[language];
+		}
+	}
+
+	if (format && on) {
+		resultFormats[format[2]] = !format[1];
+	}
+
+	if (Object.keys(resultFormats).length) {
+		result.formats = resultFormats;
+	}
+
+	if (rangeMatch || flag === "range") {
+		if (on && rangeMatch) {
+			result.range = { min: Number(rangeMatch[1]), max: Number(rangeMatch[2]) };
+		}
+	} else if (range) {
+		result.range = range;
+	}
+
+	let resultOther = other;
+
+	if (!format && !rangeMatch && !FIXED_FLAGS.has(flag)) {
+		if (!on) {
+			resultOther = other.filter((item) => item !== flag);
+		} else if (!other.includes(flag)) {
+			resultOther = other.concat(flag);
+		}
+	}
+
+	if (resultOther.length) {
+		result.other = resultOther;
+	}
+
+	return result;
+}
+
+/**
+ * Parses a flag comment into a flags object
+ *
+ * @param {string} [flag] The flag comment (e.g. "fuzzy, c-format")
+ * @return {TranslationEntryFlags} The flags object
+ */
+export function parseFlags(flag = ""): TranslationEntryFlags {
+	return splitFlags(flag).reduce(
+		(flags: TranslationEntryFlags, item) => applyFlag(flags, item, true),
+		{},
+	);
+}
+
+/**
+ * Converts a flags object to a flag comment, in the GNU gettext order: fuzzy,
+ * the format flags, the range and the wrapping, followed by the other flags
+ *
+ * @param {TranslationEntryFlags} flags The flags object
+ * @return {string} The flag comment, an empty string if there are no flags
+ */
+export function stringifyFlags(flags: TranslationEntryFlags): string {
+	const list: string[] = [];
+	const { formats = {} } = flags;
+	const languages = Object.keys(formats).sort((left, right) => {
+		const leftIndex = FORMAT_LANGUAGES.indexOf(left);
+		const rightIndex = FORMAT_LANGUAGES.indexOf(right);
+
+		// the unknown languages go last, in alphabetical order
+		if (leftIndex < 0 || rightIndex < 0) {
+			return rightIndex - leftIndex || left.localeCompare(right);
+		}
+
+		return leftIndex - rightIndex;
+	});
+
+	if (flags.fuzzy) {
+		list.push("fuzzy");
+	}
+
+	for (const language of languages) {
+		if (typeof formats[language] === "boolean") {
+			list.push(`${formats[language] ? "" : "no-"}${language}-format`);
+		}
+	}
+
+	if (flags.range) {
+		list.push(`range: ${flags.range.min}..${flags.range.max}`);
+	}
+
+	if (typeof flags.noWrap === "boolean") {
+		list.push(flags.noWrap ? "no-wrap" : "wrap");
+	}
+
+	return list.concat(flags.other || []).join(", ");
+}
+
+/**
+ * Returns the flags of an entry, from the flags object or from the flag comment
+ *
+ * @param {TranslationEntry} entry The translation entry
+ * @return {TranslationEntryFlags} The flags object
+ */
+export function getFlags(entry: TranslationEntry): TranslationEntryFlags {
+	return entry.flags || parseFlags(entry.comments?.flag);
+}
+
+/**
+ * Checks if an entry has a flag
+ *
+ * @param {TranslationEntry} entry The translation entry
+ * @param {string} flag The flag (e.g. "c-format")
+ * @return {boolean} True if the flag is set
+ */
+export function hasFlag(entry: TranslationEntry, flag: string): boolean {
+	const flags = getFlags(entry);
+	const format = flag.match(FORMAT_REGEX);
+	const range = flag.match(RANGE_REGEX);
+
+	if (flag === "fuzzy") {
+		return !!flags.fuzzy;
+	}
+
+	if (flag === "wrap" || flag === "no-wrap") {
+		return flags.noWrap === (flag === "no-wrap");
+	}
+
+	if (format) {
+		return flags.formats?.[format[2]] === !format[1];
+	}
+
+	if (flag === "range") {
+		return !!flags.range;
+	}
+
+	if (range) {
+		return (
+			flags.range?.min === Number(range[1]) &&
+			flags.range?.max === Number(range[2])
+		);
+	}
+
+	return !!flags.other?.includes(flag);
+}
+
+/**
+ * Checks if an entry is marked as fuzzy
+ *
+ * @param {TranslationEntry} entry The translation entry
+ * @return {boolean} True if the entry has the fuzzy flag
+ */
+export function isFuzzy(entry: TranslationEntry): boolean {
+	return !!getFlags(entry).fuzzy;
+}
+
+/**
+ * Sets or unsets a flag of an entry, the flags object (if any) and the flag comment
+ * are both updated. Setting a format flag replaces its negation
+ *
+ * @param {TranslationEntry} entry The translation entry, modified in place
+ * @param {string} flag The flag (e.g. "fuzzy", "no-c-format" or "range: 0..10")
+ * @param {boolean} [on] True to set the flag, false to unset it
+ * @return {TranslationEntry} The translation entry
+ */
+export function setFlag(
+	entry: TranslationEntry,
+	flag: string,
+	on = true,
+): TranslationEntry {
+	const flags = applyFlag(getFlags(entry), flag.trim(), on);
+	const comment = stringifyFlags(flags);
+	const comments = { ...entry.comments };
+
+	if (entry.flags) {
+		entry.flags = flags;
+	}
+
+	if (comment) {
+		comments.flag = comment;
+	} else {
+		// biome-ignore lint/performance/noDelete: an empty flag comment is not drawn
+		delete comments.flag;
+	}
+
+	entry.comments = comments;
+
+	return entry;
+}
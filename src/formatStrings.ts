@@ -0,0 +1,466 @@
+import { getFlags } from "./flags.js";
+import type {
+	GetTextTranslations,
+	PoDiagnostic,
+	PoDiagnosticCode,
+	TranslationEntry,
+} from "./types.js";
+
+/**
+ * A placeholder of a format string
+ */
+export interface FormatDirective {
+	/** The position (1-based for printf-like formats, 0-based for braces) or the name of the argument */
+	key: string;
+	/** The type of the argument (e.g. "integer", "string") */
+	type: string;
+	/** The directive as written in the string (e.g. "%1$d") */
+	text: string;
+	/** True if the position or the name of the argument is explicit */
+	numbered: boolean;
+}
+
+type DirectiveParser = (str: string) => FormatDirective[];
+
+/**
+ * The argument types of the printf conversions
+ */
+const PRINTF_TYPES: Record<string, string> = {
+	d: "integer",
+	i: "integer",
+	o: "unsigned integer",
+	u: "unsigned integer",
+	x: "unsigned integer",
+	X: "unsigned integer",
+	e: "float",
+	E: "float",
+	f: "float",
+	F: "float",
+	g: "float",
+	G: "float",
+	a: "float",
+	A: "float",
+	c: "character",
+	s: "string",
+	p: "pointer",
+	n: "count",
+};
+
+/**
+ * The argument types of the Python % conversions
+ */
+const PYTHON_TYPES: Record<string, string> = {
+	d: "integer",
+	i: "integer",
+	o: "integer",
+	u: "integer",
+	x: "integer",
+	X: "integer",
+	e: "float",
+	E: "float",
+	f: "float",
+	F: "float",
+	g: "float",
+	G: "float",
+	c: "character",
+	s: "string",
+	r: "string",
+	a: "string",
+};
+
+/**
+ * The argument types of the PHP sprintf conversions
+ */
+const PHP_TYPES: Record<string, string> = {
+	b: "integer",
+	c: "integer",
+	d: "integer",
+	o: "integer",
+	u: "integer",
+	x: "integer",
+	X: "integer",
+	e: "float",
+	E: "float",
+	f: "float",
+	F: "float",
+	g: "float",
+	G: "float",
+	s: "string",
+};
+
+/**
+ * The argument types of the JavaScript (util.format like) conversions
+ */
+const JAVASCRIPT_TYPES: Record<string, string> = {
+	d: "integer",
+	i: "integer",
+	f: "float",
+	s: "string",
+	j: "object",
+	o: "object",
+	O: "object",
+	c: "css",
+};
+
+/**
+ * Creates the parser of a printf-like format, where the unnumbered directives
+ * take the arguments in order. A * width or precision takes an int argument
+ * before the converted one, *2$ takes the second argument
+ *
+ * @param regex The directive regex, with the position, the width, the precision, the length modifier and the conversion groups
+ * @param types The argument types of the conversions
+ * @return {DirectiveParser} The directive parser
+ */
+function printfParser(
+	regex: RegExp,
+	types: Record<string, string>,
+): DirectiveParser {
+	return (str) => {
+		const directives: FormatDirective[] = [];
+		const pattern = new RegExp(regex.source, "g");
+		let index = 0;
+
+		for (let match = pattern.exec(str); match; match = pattern.exec(str)) {
+			const [text, position, width, precision, length = "", conversion] = match;
+
+			if (conversion === "%") {
+				continue;
+			}
+
+			for (const star of [width, precision]) {
+				if (!star?.startsWith("*")) {
+					continue;
+				}
+
+				const starPosition = star.slice(1, -1);
+
+				if (!starPosition) {
+					index++;
+				}
+
+				directives.push({
+					key: starPosition || String(index),
+					type: "integer",
+					text,
+					numbered: !!starPosition,
+				});
+			}
+
+			index++;
+			directives.push({
+				key: position || String(index),
+				type: `${length}${types[conversion]}`,
+				text,
+				numbered: !!position,
+			});
+		}
+
+		return directives;
+	};
+}
+
+/**
+ * Parses the Python % directives, named like %(name)s or unnamed like %s
+ *
+ * @param str The format string
+ * @return {FormatDirective[]} The directives
+ */
+function parsePython(str: string): FormatDirective[] {
+	const directives: FormatDirective[] = [];
+	const regex =
+		/%(?:\(([^)]*)\))?[-+ #0]*(\*|\d+)?(?:\.(\*|\d+))?[hlL]?([diouxXeEfFgGcrsa%])/g;
+	let index = 0;
+
+	for (let match = regex.exec(str); match; match = regex.exec(str)) {
+		const [text, name, width, precision, conversion] = match;
+
+		if (conversion === "%") {
+			continue;
+		}
+
+		// a * width or precision takes an int argument before the converted one
+		for (const star of [width, precision]) {
+			if (star === "*") {
+				index++;
+				directives.push({
+					key: String(index),
+					type: "integer",
+					text,
+					numbered: false,
+				});
+			}
+		}
+
+		index++;
+		directives.push({
+			key: typeof name === "string" ? name : String(index),
+			type: PYTHON_TYPES[conversion],
+			text,
+			numbered: typeof name === "string",
+		});
+	}
+
+	return directives;
+}
+
+/**
+ * Parses the Python str.format directives, like {}, {0} or {name:>10}
+ *
+ * @param str The format string
+ * @return {FormatDirective[]} The directives
+ */
+function parsePythonBrace(str: string): FormatDirective[] {
+	const directives: FormatDirective[] = [];
+	const regex = /\{\{|\}\}|\{([^{}!:]*)(?:![rsa])?(?::[^{}]*)?\}/g;
+	let index = 0;
+
+	for (let match = regex.exec(str); match; match = regex.exec(str)) {
+		const [text, field] = match;
+
+		if (text === "{{" || text === "}}") {
+			continue;
+		}
+
+		// only the argument name matters, not the attributes or the items
+		const name = (field || "").split(/[.[]/)[0];
+
+		directives.push({
+			key: name || String(index++),
+			type: "any",
+			text,
+			numbered: !!name,
+		});
+	}
+
+	return directives;
+}
+
+/**
+ * Parses the top level arguments of an ICU MessageFormat string, like {name}
+ * or {count, plural, one {# file} other {# files}}
+ *
+ * @param str The format string
+ * @return {FormatDirective[]} The directives
+ */
+function parseIcu(str: string): FormatDirective[] {
+	const directives: FormatDirective[] = [];
+	let depth = 0;
+	let start = 0;
+	let quoted = false;
+
+	for (let i = 0; i < str.length; i++) {
+		const chr = str.charAt(i);
+
+		if (chr === "'") {
+			// '' is a literal apostrophe, otherwise it quotes the syntax characters,
+			// that are literal text until the closing quote
+			if (str.charAt(i + 1) === "'") {
+				i++;
+			} else if (quoted || /[{}#|]/.test(str.charAt(i + 1))) {
+				quoted = !quoted;
+			}
+		} else if (chr === "{" && !quoted) {
+			if (!depth) {
+				start = i;
+			}
+
+			depth++;
+		} else if (chr === "}" && depth && !quoted) {
+			depth--;
+
+			if (!depth) {
+				const text = str.slice(start, i + 1);
+				const [name, type = "any"] = text
+					.slice(1, -1)
+					.split(",")
+					.map((part) => part.trim());
+
+				directives.push({ key: name, type, text, numbered: true });
+			}
+		}
+	}
+
+	return directives;
+}
+
+/**
+ * The directive parsers by format flag language
+ */
+const PARSERS: Record<string, DirectiveParser> = {
+	c: printfParser(
+		/%(?:(\d+)\$)?[-+ #0'I]*(\*(?:\d+\$)?|\d+)?(?:\.(\*(?:\d+\$)?|\d+))?(hh|h|ll|l|L|q|j|z|Z|t)?([diouxXeEfFgGaAcspn%])/g,
+		PRINTF_TYPES,
+	),
+	python: parsePython,
+	"python-brace": parsePythonBrace,
+	php: printfParser(
+		/%(?:(\d+)\$)?[-+ 0]*(?:'.)?-?\d*(?:\.\d+)?()()()([bcdeEfFgGosuxX%])/g,
+		PHP_TYPES,
+	),
+	javascript: printfParser(
+		/%(?:(\d+)\$)?[-+ #0]*\d*(?:\.\d+)?()()()([difsjoOcx%])/g,
+		JAVASCRIPT_TYPES,
+	),
+	icu: parseIcu,
+};
+
+/**
+ * Parses the directives of a format string
+ *
+ * @param {string} language The language of the format flag (e.g. "c" for c-format)
+ * @param {string} str The format string
+ * @return {FormatDirective[] | undefined} The directives, undefined if the language is not supported
+ */
+export function parseFormatDirectives(
+	language: string,
+	str: string,
+): FormatDirective[] | undefined {
+	return PARSERS[language]?.(str);
+}
+
+/**
+ * Compares the directives of a translation with the directives of the source string
+ *
+ * @param source The directives of msgid or msgid_plural
+ * @param translation The directives of the msgstr
+ * @return The problems found, with the directive they concern
+ */
+function compareDirectives(
+	source: FormatDirective[],
+	translation: FormatDirective[],
+): {
+	code: PoDiagnosticCode;
+	directive: FormatDirective;
+	found?: FormatDirective;
+}[] {
+	const problems: {
+		code: PoDiagnosticCode;
+		directive: FormatDirective;
+		found?: FormatDirective;
+	}[] = [];
+	const sourceTypes = source.map((directive) => directive.type);
+	const translationTypes = translation.map((directive) => directive.type);
+
+	// the same directives in another order, without the positions to reorder them
+	if (
+		translation.length > 1 &&
+		translation.every((directive) => !directive.numbered) &&
+		source.every((directive) => !directive.numbered) &&
+		sourceTypes.join() !== translationTypes.join() &&
+		[...sourceTypes].sort().join() === [...translationTypes].sort().join()
+	) {
+		return [{ code: "format-reordered-directive", directive: translation[0] }];
+	}
+
+	const translated = new Map(
+		translation.map((directive) => [directive.key, directive]),
+	);
+	const keys = new Set(source.map((directive) => directive.key));
+
+	for (const directive of source) {
+		const found = translated.get(directive.key);
+
+		if (!found) {
+			problems.push({ code: "format-missing-directive", directive });
+		} else if (found.type !== directive.type) {
+			problems.push({ code: "format-type-mismatch", directive, found });
+		}
+	}
+
+	for (const directive of translation) {
+		if (!keys.has(directive.key)) {
+			problems.push({ code: "format-extra-directive", directive });
+		}
+	}
+
+	return problems;
+}
+
+/**
+ * Checks the placeholders of the translations against the source strings, for
+ * the format flags set on the entry (e.g. c-format), like msgfmt --check-format.
+ * Missing directives in a plural translation are only warnings, a form used for
+ * a single number often leaves the number out
+ *
+ * @param {TranslationEntry} entry The translation entry
+ * @return {PoDiagnostic[]} The problems found
+ */
+export function checkFormat(entry: TranslationEntry): PoDiagnostic[] {
+	const diagnostics: PoDiagnostic[] = [];
+	const { fuzzy, formats = {} } = getFlags(entry);
+	const msgctxt = entry.msgctxt || "";
+
+	// fuzzy translations are not used, like msgfmt does they are not checked
+	if (fuzzy) {
+		return diagnostics;
+	}
+
+	for (const language of Object.keys(formats)) {
+		if (!formats[language] || !PARSERS[language]) {
+			continue;
+		}
+
+		(entry.msgstr || []).forEach((msgstr, index) => {
+			if (!msgstr) {
+				return;
+			}
+
+			const sourceKey = index && entry.msgid_plural ? "msgid_plural" : "msgid";
+			const source = entry[sourceKey] as string;
+			const target = entry.msgid_plural ? `msgstr[${index}]` : "msgstr";
+			const problems = compareDirectives(
+				PARSERS[language](source),
+				PARSERS[language](msgstr),
+			);
+
+			for (const { code, directive, found } of problems) {
+				let message: string;
+
+				switch (code) {
+					case "format-missing-directive":
+						message = `directive "${directive.text}" of ${sourceKey} is missing from ${target}`;
+						break;
+					case "format-extra-directive":
+						message = `${target} has the directive "${directive.text}" that is not in ${sourceKey}`;
+						break;
+					case "format-reordered-directive":
+						message = `${target} changes the order of the directives of ${sourceKey} without positions`;
+						break;
+					default:
+						message = `directive "${directive.text}" of ${sourceKey} is "${found?.text}" in ${target}`;
+				}
+
+				diagnostics.push({
+					code,
+					severity:
+						code === "format-missing-directive" && entry.msgid_plural
+							? "warning"
+							: "error",
+					message: `Format string error: ${message}, ${language}-format entry "${entry.msgid}" in "${msgctxt}" context.`,
+					msgctxt,
+					msgid: entry.msgid,
+				});
+			}
+		});
+	}
+
+	return diagnostics;
+}
+
+/**
+ * Checks the format strings of all the entries of a translation table
+ *
+ * @param {GetTextTranslations} table The translation table
+ * @return {PoDiagnostic[]} The problems found
+ */
+export function checkFormats(table: GetTextTranslations): PoDiagnostic[] {
+	const diagnostics: PoDiagnostic[] = [];
+
+	for (const msgctxt of Object.keys(table.translations)) {
+		for (const msgid of Object.keys(table.translations[msgctxt])) {
+			diagnostics.push(...checkFormat(table.translations[msgctxt][msgid]));
+		}
+	}
+
+	return diagnostics;
+}
@@ -0,0 +1,15 @@
+import * as iconv from "iconv-lite";
+import type { CharsetCodec } from "./encoding.js";
+
+/**
+ * The iconv-lite charset converter, used in Node for the charsets that
+ * TextDecoder and TextEncoder don't handle
+ */
+export const iconvCodec: CharsetCodec = {
+	decode: (bytes, charset) =>
+		iconv.decode(
+			Buffer.from(bytes.buffer, bytes.byteOffset, bytes.length),
+			charset,
+		),
+	encode: (str, charset) => iconv.encode(str, charset),
+};
@@ -1,15 +1,43 @@
 import type { Transform, TransformOptions } from "node:stream";
-import { compileMo } from "./compileMo.js";
-import { compilePo } from "./compilePo.js";
-import { parseMo } from "./parseMo.js";
-import { parsePo } from "./parsePo.js";
+import type { MoCatalog } from "./MoCatalog.js";
+import {
+	Translator,
+	mo as coreMo,
+	po as corePo,
+	flags,
+	format,
+	json,
+	plural,
+	stats,
+	xliff,
+} from "./api.js";
+import { compilePoStream } from "./compilePoStream.js";
+import { setCharsetCodec } from "./encoding.js";
+import { iconvCodec } from "./iconvCodec.js";
 import { streamPo } from "./streamPo.js";
 import type {
 	GetTextTranslations,
+	MoDiagnostic,
+	moCompilerOptions,
+	moParserOptions,
 	parserOptions,
+	poMergeOptions,
 	poParserOptions,
 } from "./types.js";
 
+// the charsets unknown to TextDecoder and TextEncoder are converted with iconv-lite
+setCharsetCodec(iconvCodec);
+
+/**
+ * Wraps compiled bytes in a Node Buffer, without copying them
+ *
+ * @param {Uint8Array} bytes The compiled bytes
+ * @return {Buffer} The Buffer
+ */
+function toBuffer(bytes: Uint8Array): Buffer {
+	return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
 /**
  * Translation parser and compiler for PO files
  * Parse a PO file with
@@ -23,18 +51,33 @@ const po: {
 		buffer: Buffer | string,
 		options?: poParserOptions,
 	) => GetTextTranslations;
+	parseStream: typeof corePo.parseStream;
+	createWebParseStream: typeof corePo.createWebParseStream;
 	compile: (
 		table: GetTextTranslations,
-		options?: parserOptions,
-	) => string | Buffer;
+		options?: Partial<parserOptions>,
+	) => Buffer;
 	createParseStream: (
 		options?: parserOptions,
 		transformOptions?: TransformOptions,
 	) => Transform;
+	createCompileStream: (
+		options?: parserOptions,
+		transformOptions?: TransformOptions,
+	) => Transform;
+	merge: (
+		po: GetTextTranslations,
+		pot: GetTextTranslations,
+		options?: poMergeOptions,
+	) => GetTextTranslations;
 } = {
-	parse: parsePo,
+	parse: corePo.parse,
+	parseStream: corePo.parseStream,
+	createWebParseStream: corePo.createWebParseStream,
 	createParseStream: streamPo,
-	compile: compilePo,
+	compile: (table, options) => toBuffer(corePo.compile(table, options)),
+	createCompileStream: compilePoStream,
+	merge: corePo.merge,
 };
 /**
  * Translation parser and compiler for MO files
@@ -48,12 +91,29 @@ const mo: {
 	parse: (
 		buffer: Buffer,
 		defaultCharset?: string,
+		options?: moParserOptions,
 	) => GetTextTranslations | false;
-	compile: (table: GetTextTranslations) => Buffer;
+	compile: (table: GetTextTranslations, options?: moCompilerOptions) => Buffer;
+	createCatalog: (buffer: Buffer, defaultCharset?: string) => MoCatalog | false;
+	validate: (buffer: Buffer) => MoDiagnostic[];
 } = {
-	parse: parseMo,
-	compile: compileMo,
+	...coreMo,
+	compile: (table, options) => toBuffer(coreMo.compile(table, options)),
 };
 
-const gettextParser = { po, mo };
+/**
+ * The Node entry point: the API of the browser entry point with the PO streams,
+ * Buffer outputs and iconv-lite for the charsets missing from TextDecoder
+ */
+const gettextParser = {
+	po,
+	mo,
+	json,
+	xliff,
+	plural,
+	flags,
+	format,
+	stats,
+	Translator,
+};
 export default gettextParser;
@@ -0,0 +1,22 @@
+import PoMerger from "./PoMerger.js";
+import type { GetTextTranslations, poMergeOptions } from "./types.js";
+
+/**
+ * Updates a translated catalog from a new template, like msgmerge. Existing translations
+ * are kept, references and extracted comments come from the template, changed messages
+ * are fuzzy matched and the entries that disappeared from the template become obsolete
+ *
+ * @param {GetTextTranslations} po The translated catalog
+ * @param {GetTextTranslations} pot The new template
+ * @param {poMergeOptions} [options] Merge options
+ * @return {GetTextTranslations} The updated catalog
+ */
+export function mergePo(
+	po: GetTextTranslations,
+	pot: GetTextTranslations,
+	options?: poMergeOptions,
+): GetTextTranslations {
+	const merger = new PoMerger(po, pot, options);
+
+	return merger.merge();
+}
@@ -0,0 +1,18 @@
+import JsonParser from "./JsonParser.js";
+import type { GetTextTranslations, jsonParserOptions } from "./types.js";
+
+/**
+ * Parses Jed or gettext.js JSON translations into translation table
+ *
+ * @param {string | Uint8Array | object} input JSON string or parsed object
+ * @param {jsonParserOptions} [options] Parser options
+ * @return {GetTextTranslations} Translation object
+ */
+export function parseJson(
+	input: string | Uint8Array | object,
+	options?: jsonParserOptions,
+): GetTextTranslations {
+	const parser = new JsonParser(input, options);
+
+	return parser.parse();
+}
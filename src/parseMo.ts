@@ -1,18 +1,20 @@
 import { MoParser } from "./MoParser.js";
-import type { GetTextTranslations } from "./types.js";
+import type { GetTextTranslations, moParserOptions } from "./types.js";
 
 /**
  * Parses a binary MO object into translation table
  *
- * @param {Buffer} buffer Binary MO object
+ * @param {Uint8Array} buffer Binary MO object
  * @param {String} [defaultCharset] Default charset to use
+ * @param {moParserOptions} [options] Parser options
  * @return {Object} Translation object
  */
 export function parseMo(
-	buffer: Buffer,
+	buffer: Uint8Array,
 	defaultCharset?: string,
+	options?: moParserOptions,
 ): GetTextTranslations | false {
-	const parser = new MoParser(buffer, defaultCharset);
+	const parser = new MoParser(buffer, defaultCharset, options);
 
 	return parser.parse();
 }
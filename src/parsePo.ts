@@ -12,7 +12,7 @@ import type {
  * @param [options] Optional options with defaultCharset and validation
  */
 export function parsePo(
-	input: Buffer | string,
+	input: Uint8Array | string,
 	options: poParserOptions = {},
 ): GetTextTranslations {
 	const parser = new PoParser(input, options as parserOptions);
@@ -0,0 +1,115 @@
+import PoStreamParser from "./PoStreamParser.js";
+import type {
+	GetTextTranslations,
+	PoByteStream,
+	TranslationEntry,
+	poStreamParserOptions,
+} from "./types.js";
+
+/**
+ * Reads the chunks of a WHATWG stream or of an async iterable, the streams
+ * are read with a reader since they are not async iterable in every browser
+ *
+ * @param {PoByteStream} input The PO bytes
+ */
+async function* readChunks(input: PoByteStream): AsyncGenerator<Uint8Array> {
+	if (!("getReader" in input)) {
+		for await (const chunk of input) {
+			yield chunk;
+		}
+
+		return;
+	}
+
+	const reader = input.getReader();
+
+	try {
+		for (;;) {
+			const { done, value } = await reader.read();
+
+			if (done) {
+				return;
+			}
+
+			yield value;
+		}
+	} finally {
+		reader.releaseLock();
+	}
+}
+
+/**
+ * Parses the entries of a PO stream as they come
+ *
+ * @param {PoByteStream} input The PO bytes
+ * @param {poStreamParserOptions} options Parser options
+ */
+async function* parseEntries(
+	input: PoByteStream,
+	options: poStreamParserOptions,
+): AsyncGenerator<TranslationEntry> {
+	const parser = new PoStreamParser(options, options.initialTreshold);
+
+	for await (const chunk of readChunks(input)) {
+		if (chunk.length && parser.write(chunk)) {
+			for (const entry of parser.entries()) {
+				yield entry;
+			}
+		}
+	}
+
+	if (parser.end()) {
+		for (const entry of parser.entries(true)) {
+			yield entry;
+		}
+	}
+}
+
+/**
+ * Parses a PO stream into a translation table
+ *
+ * @param {PoByteStream} input The PO bytes
+ * @param {poStreamParserOptions} options Parser options
+ * @return {Promise<GetTextTranslations>} Translation table
+ */
+async function parseTable(
+	input: PoByteStream,
+	options: poStreamParserOptions,
+): Promise<GetTextTranslations> {
+	const parser = new PoStreamParser(options, options.initialTreshold);
+
+	for await (const chunk of readChunks(input)) {
+		if (chunk.length) {
+			parser.write(chunk);
+		}
+	}
+
+	parser.end();
+
+	return parser.table();
+}
+
+/**
+ * Parses a PO file from a WHATWG readable stream (e.g. a fetch response body)
+ * or an async iterable of bytes. The charset is detected from the first bytes
+ *
+ * @param {PoByteStream} input The PO bytes
+ * @param {poStreamParserOptions} [options] Parser options, with entries the entries are iterated
+ * @return {Promise<GetTextTranslations> | AsyncIterableIterator<TranslationEntry>} Translation table, or the entries
+ */
+export function parsePoStream(
+	input: PoByteStream,
+	options: poStreamParserOptions & { entries: true },
+): AsyncIterableIterator<TranslationEntry>;
+export function parsePoStream(
+	input: PoByteStream,
+	options?: poStreamParserOptions,
+): Promise<GetTextTranslations>;
+export function parsePoStream(
+	input: PoByteStream,
+	options: poStreamParserOptions = {},
+): Promise<GetTextTranslations> | AsyncIterableIterator<TranslationEntry> {
+	return options.entries
+		? parseEntries(input, options)
+		: parseTable(input, options);
+}
@@ -0,0 +1,14 @@
+import XliffParser from "./XliffParser.js";
+import type { GetTextTranslations } from "./types.js";
+
+/**
+ * Parses an XLIFF 1.2 or 2.0 document into translation table
+ *
+ * @param {string | Uint8Array} input XLIFF document
+ * @return {GetTextTranslations} Translation object
+ */
+export function parseXliff(input: string | Uint8Array): GetTextTranslations {
+	const parser = new XliffParser(input);
+
+	return parser.parse();
+}
@@ -0,0 +1,380 @@
+/**
+ * A compiled plural expression, returns the index of the plural form to use for n
+ */
+export type PluralFunction = (n: number) => number;
+
+type Node = (n: number) => number;
+
+/**
+ * The binary operators of the C plural expression grammar, from the lowest to the highest precedence
+ */
+const BINARY_OPERATORS: string[][] = [
+	["||"],
+	["&&"],
+	["==", "!="],
+	["<", ">", "<=", ">="],
+	["+", "-"],
+	["*", "/", "%"],
+];
+
+/**
+ * The regex for tokenizing plural expressions
+ */
+const TOKEN_REGEX = /\s*(?:(\d+)|(n)\b|(&&|\|\||[=!<>]=|[-+*/%<>!?:()]))/y;
+
+/**
+ * Applies a binary (non logical) operator to two operands
+ *
+ * @param operator The operator
+ * @param left The left operand
+ * @param right The right operand
+ * @return The result as a number (booleans are converted to 1 or 0)
+ */
+function applyOperator(operator: string, left: number, right: number): number {
+	switch (operator) {
+		case "==":
+			return left === right ? 1 : 0;
+		case "!=":
+			return left !== right ? 1 : 0;
+		case "<":
+			return left < right ? 1 : 0;
+		case ">":
+			return left > right ? 1 : 0;
+		case "<=":
+			return left <= right ? 1 : 0;
+		case ">=":
+			return left >= right ? 1 : 0;
+		case "+":
+			return left + right;
+		case "-":
+			return left - right;
+		case "*":
+			return left * right;
+	}
+
+	if (right === 0) {
+		throw new RangeError("Plural expression error: division by zero.");
+	}
+
+	return operator === "/" ? Math.trunc(left / right) : left % right;
+}
+
+/**
+ * Recursive descent parser for the C expression found in the "plural=" part of the Plural-Forms header
+ */
+class PluralExpressionParser {
+	private _expression: string;
+	private _tokens: { value: string; position: number }[];
+	private _index: number;
+
+	constructor(expression: string) {
+		this._expression = expression;
+		this._tokens = this._tokenize(expression);
+		this._index = 0;
+	}
+
+	/**
+	 * Splits the expression into tokens
+	 *
+	 * @param expression The plural expression
+	 * @return The tokens with their position in the expression
+	 */
+	_tokenize(expression: string): { value: string; position: number }[] {
+		const tokens = [];
+		let position = 0;
+
+		while (position < expression.length) {
+			TOKEN_REGEX.lastIndex = position;
+			const match = TOKEN_REGEX.exec(expression);
+
+			if (!match) {
+				const rest = expression.substring(position);
+
+				// only trailing whitespace left
+				if (!rest.trim()) {
+					break;
+				}
+
+				const offset = rest.search(/\S/);
+				throw this._error(
+					`Unexpected character "${rest.charAt(offset)}"`,
+					position + offset,
+				);
+			}
+
+			const value = match[1] || match[2] || match[3];
+			tokens.push({ value, position: match.index + match[0].indexOf(value) });
+			position = TOKEN_REGEX.lastIndex;
+		}
+
+		return tokens;
+	}
+
+	/**
+	 * Creates a syntax error for the expression
+	 *
+	 * @param message The error message
+	 * @param position The position of the error in the expression
+	 * @return The error
+	 */
+	_error(message: string, position: number): SyntaxError {
+		return new SyntaxError(
+			`Plural expression error: ${message} at position ${position} in "${this._expression}".`,
+		);
+	}
+
+	/**
+	 * Returns the current token value without consuming it
+	 */
+	_peek(): string | undefined {
+		return this._tokens[this._index]?.value;
+	}
+
+	/**
+	 * Consumes the current token, optionally checking its value
+	 *
+	 * @param expected The expected token value
+	 * @return The consumed token value
+	 */
+	_next(expected?: string): string {
+		const token = this._tokens[this._index];
+
+		if (!token) {
+			throw this._error(
+				expected ? `Expected "${expected}"` : "Unexpected end of expression",
+				this._expression.length,
+			);
+		}
+
+		if (expected && token.value !== expected) {
+			throw this._error(
+				`Expected "${expected}" but found "${token.value}"`,
+				token.position,
+			);
+		}
+
+		this._index++;
+
+		return token.value;
+	}
+
+	/**
+	 * Parses the whole expression
+	 *
+	 * @return The compiled expression
+	 */
+	parse(): Node {
+		if (!this._tokens.length) {
+			throw this._error("Empty expression", 0);
+		}
+
+		const node = this._ternary();
+
+		if (this._index < this._tokens.length) {
+			const token = this._tokens[this._index];
+			throw this._error(`Unexpected "${token.value}"`, token.position);
+		}
+
+		return node;
+	}
+
+	/**
+	 * condition ? consequent : alternate (right associative)
+	 */
+	_ternary(): Node {
+		const condition = this._binary(0);
+
+		if (this._peek() !== "?") {
+			return condition;
+		}
+
+		this._next("?");
+		const consequent = this._ternary();
+		this._next(":");
+		const alternate = this._ternary();
+
+		return (n) => (condition(n) ? consequent(n) : alternate(n));
+	}
+
+	/**
+	 * Left associative binary operators, by precedence level
+	 *
+	 * @param level The precedence level in BINARY_OPERATORS
+	 */
+	_binary(level: number): Node {
+		if (level >= BINARY_OPERATORS.length) {
+			return this._unary();
+		}
+
+		let left = this._binary(level + 1);
+
+		while (BINARY_OPERATORS[level].includes(this._peek() as string)) {
+			const operator = this._next();
+			const leftNode = left;
+			const rightNode = this._binary(level + 1);
+
+			if (operator === "&&") {
+				left = (n) => (leftNode(n) && rightNode(n) ? 1 : 0);
+			} else if (operator === "||") {
+				left = (n) => (leftNode(n) || rightNode(n) ? 1 : 0);
+			} else {
+				left = (n) => applyOperator(operator, leftNode(n), rightNode(n));
+			}
+		}
+
+		return left;
+	}
+
+	/**
+	 * !operand, -operand and +operand
+	 */
+	_unary(): Node {
+		const token = this._peek();
+
+		if (token === "!" || token === "-" || token === "+") {
+			this._next();
+			const operand = this._unary();
+
+			if (token === "!") {
+				return (n) => (operand(n) ? 0 : 1);
+			}
+
+			return token === "-" ? (n) => -operand(n) : operand;
+		}
+
+		return this._primary();
+	}
+
+	/**
+	 * n, numbers and parenthesized expressions
+	 */
+	_primary(): Node {
+		const position = this._tokens[this._index]?.position;
+		const token = this._next();
+
+		if (token === "n") {
+			return (n) => n;
+		}
+
+		if (/^\d+$/.test(token)) {
+			const value = Number.parseInt(token, 10);
+			return () => value;
+		}
+
+		if (token === "(") {
+			const node = this._ternary();
+			this._next(")");
+			return node;
+		}
+
+		throw this._error(`Unexpected "${token}"`, position);
+	}
+}
+
+/**
+ * Compiles the C expression of the Plural-Forms header (e.g. "n != 1") into a function
+ * without using eval
+ *
+ * @param expression The plural expression
+ * @return {PluralFunction} A function returning the plural form index for n
+ * @throws SyntaxError Will throw an error if the expression is malformed
+ */
+export function compilePluralExpression(expression: string): PluralFunction {
+	const node = new PluralExpressionParser(expression).parse();
+
+	return (n: number) => node(Math.abs(Math.trunc(n)));
+}
+
+/**
+ * The CLDR plural categories, in the order of the gettext plural forms
+ */
+const CLDR_CATEGORIES = ["zero", "one", "two", "few", "many", "other"];
+
+/**
+ * The numbers checked to match the plural forms with the CLDR categories
+ */
+const SAMPLE_SIZE = 1000;
+
+/**
+ * Converts a gettext language (e.g. "pt_BR.UTF-8" or "sr_RS@latin") to a BCP 47
+ * language tag, the C and POSIX locales have no language and are read as English
+ *
+ * @param {string} language The language
+ * @return {string} The language tag
+ * @throws RangeError Will throw an error if the language is invalid
+ */
+function toLanguageTag(language: string): string {
+	const tag = language.replace(/[.@].*$/, "").replace(/_/g, "-");
+
+	if (/^(?:C|POSIX)$/i.test(tag)) {
+		return "en";
+	}
+
+	try {
+		return Intl.getCanonicalLocales(tag)[0];
+	} catch (err) {
+		throw new RangeError(`Plural forms error: invalid language "${language}".`);
+	}
+}
+
+/**
+ * Matches the plural forms of a language with the CLDR plural categories used
+ * by i18next and Intl.PluralRules, by comparing the plural form and the category
+ * of the integers up to 1000. Without a plural function the categories of the
+ * integers are returned in the CLDR order (zero, one, two, few, many, other)
+ *
+ * @param {string} language The language (e.g. "pt_BR", "pt-BR" or "pt_BR.UTF-8")
+ * @param {PluralFunction} [plural] The compiled plural expression of the Plural-Forms header
+ * @param {number} [nplurals] The number of plural forms
+ * @return {string[]} The category of each plural form
+ * @throws RangeError Will throw an error if the language is invalid or the plural forms can't be matched
+ */
+export function getPluralCategories(
+	language: string,
+	plural?: PluralFunction,
+	nplurals?: number,
+): string[] {
+	const rules = new Intl.PluralRules(toLanguageTag(language));
+	const { pluralCategories } = rules.resolvedOptions();
+	const available = CLDR_CATEGORIES.filter((category) =>
+		(pluralCategories as string[]).includes(category),
+	);
+	const sampled: string[] = [];
+
+	for (let n = 0; n <= SAMPLE_SIZE; n++) {
+		const index = plural ? plural(n) : sampled.length;
+
+		if (
+			sampled[index] === undefined &&
+			(plural || !sampled.includes(rules.select(n)))
+		) {
+			sampled[index] = rules.select(n);
+		}
+	}
+
+	if (!plural) {
+		return available.filter((category) => sampled.includes(category));
+	}
+
+	const categories: string[] = [];
+	const count = nplurals ?? sampled.length;
+
+	// a form without its own category takes the first unused one
+	for (let index = 0; index < count; index++) {
+		let category: string | undefined = sampled[index];
+
+		if (!category || categories.includes(category)) {
+			category = available.find((name) => !categories.includes(name));
+		}
+
+		if (!category) {
+			throw new RangeError(
+				`Plural forms error: ${count} plural forms can't be matched with the plural categories of "${language}".`,
+			);
+		}
+
+		categories.push(category);
+	}
+
+	return categories;
+}
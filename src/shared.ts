@@ -1,3 +1,5 @@
+import { decode } from "./encoding.js";
+import { type PluralFunction, compilePluralExpression } from "./pluralForms.js";
 import type { TranslationEntry } from "./types.js";
 
 const PLURAL_FORMS: string = "Plural-Forms";
@@ -26,6 +28,12 @@ export const HEADERS: Headers = new Map([
 const PLURAL_FORM_HEADER_NPLURALS_REGEX: RegExp =
 	/nplurals\s*=\s*(?<nplurals>\d+)/;
 
+/**
+ * The regex for parsing 'plural" expression from "Plural-Forms" header
+ */
+const PLURAL_FORM_HEADER_PLURAL_REGEX: RegExp =
+	/\bplural\s*=\s*(?<plural>[^;]+)/;
+
 /**
  * Parses a header string into an object of key-value pairs
  *
@@ -73,6 +81,27 @@ export function parseNPluralFromHeadersSafely(
 	return Number.parseInt(nplurals, 10) || fallback;
 }
 
+/**
+ * Parses the 'plural" expression from "Plural-Forms" header into a function
+ *
+ * @param headers An object with parsed headers
+ * @param fallback the expression to use if the header is missing (default: germanic plural)
+ * @returns {PluralFunction} A function returning the plural form index for n
+ * @throws SyntaxError Will throw an error if the expression is malformed
+ */
+export function parsePluralFromHeaders(
+	headers: Header | undefined,
+	fallback = "n != 1",
+): PluralFunction {
+	const pluralForms = headers ? headers[PLURAL_FORMS] : false;
+
+	const {
+		groups: { plural } = { plural: fallback },
+	} = (pluralForms || "").match(PLURAL_FORM_HEADER_PLURAL_REGEX) || {};
+
+	return compilePluralExpression(plural);
+}
+
 /**
  * Joins a header object of key value pairs into a header string
  *
@@ -113,6 +142,143 @@ export function formatCharset(
 		.trim();
 }
 
+/**
+ * The characters of the C escape sequences understood by GNU gettext, the
+ * single quote is also accepted for the single quoted strings
+ */
+const ESCAPES: Record<string, string> = {
+	a: "\x07",
+	b: "\b",
+	f: "\f",
+	n: "\n",
+	r: "\r",
+	t: "\t",
+	v: "\v",
+	"\\": "\\",
+	'"': '"',
+	"'": "'",
+};
+
+/**
+ * Matches an escape sequence: a character, up to 3 octal digits or hex digits
+ */
+const ESCAPE_SEQUENCE = /\\(?:[0-7]{1,3}|x[0-9a-fA-F]+|[\s\S])/y;
+
+/**
+ * Unescapes the C escape sequences of a PO string. The octal and hex escapes
+ * are bytes in the charset of the PO file, consecutive bytes are decoded together
+ *
+ * @param str The escaped string, without the quotes
+ * @param [charset="utf-8"] The charset of the escaped bytes
+ * @param [onInvalid] Called with the invalid escape sequences, that are kept as the literal character
+ * @return {string} The unescaped string
+ */
+export function unescapeString(
+	str: string,
+	charset = "utf-8",
+	onInvalid?: (sequence: string) => void,
+): string {
+	let result = "";
+	let bytes: number[] = [];
+	let pos = 0;
+
+	while (pos < str.length) {
+		const index = str.indexOf("\\", pos);
+
+		if (index < 0 || index > pos) {
+			if (bytes.length) {
+				result += decode(new Uint8Array(bytes), charset);
+				bytes = [];
+			}
+
+			result += str.substring(pos, index < 0 ? str.length : index);
+			pos = index < 0 ? str.length : index;
+			continue;
+		}
+
+		ESCAPE_SEQUENCE.lastIndex = index;
+		const sequence = ESCAPE_SEQUENCE.exec(str)?.[0] || "\\";
+		const chr = sequence.charAt(1);
+
+		pos = index + sequence.length;
+
+		if (/[0-7]/.test(chr)) {
+			bytes.push(Number.parseInt(sequence.substring(1), 8) & 0xff);
+			continue;
+		}
+
+		if (chr === "x" && sequence.length > 2) {
+			bytes.push(Number.parseInt(sequence.substring(2), 16) & 0xff);
+			continue;
+		}
+
+		if (bytes.length) {
+			result += decode(new Uint8Array(bytes), charset);
+			bytes = [];
+		}
+
+		if (chr in ESCAPES) {
+			result += ESCAPES[chr];
+		} else {
+			onInvalid?.(sequence);
+			result += chr;
+		}
+	}
+
+	if (bytes.length) {
+		result += decode(new Uint8Array(bytes), charset);
+	}
+
+	return result;
+}
+
+/**
+ * Escapes a string for the PO format: the backslashes, the double quotes and
+ * the control characters, as GNU gettext does. The control characters without
+ * a named escape sequence are written in octal
+ *
+ * @param str The unescaped string
+ * @param [escapeCharacters=true] Escape all the characters, otherwise only the newlines
+ * @return {string} The escaped string, without the quotes
+ */
+export function escapeString(str: string, escapeCharacters = true): string {
+	if (!escapeCharacters) {
+		return str.replace(/\n/g, "\\n");
+	}
+
+	// biome-ignore lint/suspicious/noControlCharactersInRegex: the control characters are escaped
+	return str.replace(/[\x00-\x1f\x7f\\"]/g, (chr) => {
+		const name = Object.keys(ESCAPES).find((key) => ESCAPES[key] === chr);
+
+		return name
+			? `\\${name}`
+			: `\\${chr.charCodeAt(0).toString(8).padStart(3, "0")}`;
+	});
+}
+
+/**
+ * Moves a fold position past the escape sequence it falls in, if any
+ *
+ * @param str The escaped string
+ * @param start The start of the line
+ * @param end The fold position
+ * @return {number} The fold position, never within an escape sequence
+ */
+function escapeBoundary(str: string, start: number, end: number): number {
+	for (let pos = str.indexOf("\\", start); pos >= 0 && pos < end; ) {
+		ESCAPE_SEQUENCE.lastIndex = pos;
+		const next = pos + (ESCAPE_SEQUENCE.exec(str)?.[0].length || 1);
+
+		if (next > end) {
+			return next;
+		}
+
+		pos = str.indexOf("\\", next);
+	}
+
+	return end;
+}
+
 /**
  * Folds long lines according to PO format
  *
@@ -130,12 +296,6 @@ export function foldLine(str: string, maxLen = 76): string[] {
 	while (pos < len) {
 		curLine = str.substring(pos, pos + maxLen);
 
-		// ensure that the line never ends with a partial escaping
-		// make longer lines if needed
-		while (curLine.substring(-1) === "\\" && pos + curLine.length < len) {
-			curLine += str.charAt(pos + curLine.length);
-		}
-
 		// ensure that if possible, line breaks are done at reasonable places
 		match = /.*?\\n/.exec(curLine);
 		if (match) {
@@ -152,6 +312,13 @@ export function foldLine(str: string, maxLen = 76): string[] {
 			}
 		}
 
+		// ensure that the line never ends within an escape sequence
+		// make longer lines if needed
+		curLine = str.substring(
+			pos,
+			escapeBoundary(str, pos, pos + curLine.length),
+		);
+
 		lines.push(curLine);
 		pos += curLine.length;
 	}
@@ -159,6 +326,72 @@ export function foldLine(str: string, maxLen = 76): string[] {
 	return lines;
 }
 
+/**
+ * Computes the hashpjw value of a string as used by GNU gettext for the MO hash table
+ *
+ * @see https://www.gnu.org/software/gettext/manual/html_node/MO-Files.html
+ *
+ * @param str The raw (already encoded) msgid, optionally prefixed with the msgctxt
+ * @return The unsigned 32 bit hash value
+ */
+export function hashString(str: Uint8Array): number {
+	let hval = 0;
+
+	for (let i = 0; i < str.length && str[i] !== 0x00; i++) {
+		hval = ((hval << 4) + str[i]) >>> 0;
+
+		const g = hval & 0xf0000000;
+		if (g !== 0) {
+			hval = (hval ^ (g >>> 24) ^ g) >>> 0;
+		}
+	}
+
+	return hval;
+}
+
+/**
+ * Returns the next prime number following the given seed, matching the one used by msgfmt
+ * to size the hash table (note that 3 is never returned, like in gettext)
+ *
+ * @param seed The number to start from
+ * @return The next prime number
+ */
+export function nextPrime(seed: number): number {
+	const isPrime = (candidate: number): boolean => {
+		let divn = 3;
+		let sq = divn * divn;
+
+		while (sq < candidate && candidate % divn !== 0) {
+			divn++;
+			sq += 4 * divn;
+			divn++;
+		}
+
+		return candidate % divn !== 0;
+	};
+
+	let candidate = seed | 1;
+
+	while (!isPrime(candidate)) {
+		candidate += 2;
+	}
+
+	return candidate;
+}
+
+/**
+ * Splits a flag comment into the list of flags, flags can be separated by commas or new lines
+ *
+ * @param flag The flag comment (e.g. "fuzzy, c-format")
+ * @return {string[]} An array of flags
+ */
+export function splitFlags(flag = ""): string[] {
+	return flag
+		.split(/[,\n]/)
+		.map((item) => item.trim())
+		.filter((item) => !!item);
+}
+
 /**
  * Comparator function for comparing msgid
  *
@@ -0,0 +1,108 @@
+import { isFuzzy } from "./flags.js";
+import type {
+	CatalogStatistics,
+	CatalogStatisticsCategories,
+	CatalogStatisticsCounts,
+	GetTextTranslations,
+	TranslationEntry,
+	gettextTranslation,
+} from "./types.js";
+
+/**
+ * Creates the empty statistics of the categories
+ *
+ * @return {CatalogStatisticsCategories} The statistics
+ */
+function createCategories(): CatalogStatisticsCategories {
+	return {
+		translated: { messages: 0, words: 0, characters: 0 },
+		fuzzy: { messages: 0, words: 0, characters: 0 },
+		untranslated: { messages: 0, words: 0, characters: 0 },
+		obsolete: { messages: 0, words: 0, characters: 0 },
+	};
+}
+
+/**
+ * Adds an entry to the counts
+ *
+ * @param {CatalogStatisticsCounts} counts The counts to update
+ * @param {TranslationEntry} entry The translation entry
+ */
+function count(counts: CatalogStatisticsCounts, entry: TranslationEntry) {
+	for (const source of [entry.msgid, entry.msgid_plural]) {
+		if (source) {
+			counts.words += source.split(/\s+/).filter(Boolean).length;
+			// code points, not UTF-16 units
+			counts.characters += Array.from(source).length;
+		}
+	}
+
+	counts.messages++;
+}
+
+/**
+ * Finds the category of an entry, msgfmt counts a fuzzy entry without a
+ * translation as untranslated
+ *
+ * @param {TranslationEntry} entry The translation entry
+ * @return {keyof CatalogStatisticsCategories} The category
+ */
+function categoryOf(
+	entry: TranslationEntry,
+): keyof CatalogStatisticsCategories {
+	const { msgstr = [] } = entry;
+
+	if (!msgstr.length || msgstr.some((translation) => !translation)) {
+		return "untranslated";
+	}
+
+	return isFuzzy(entry) ? "fuzzy" : "translated";
+}
+
+/**
+ * Computes the statistics of a translation table, the same for the tables of
+ * parsePo and parseMo (a MO table has no fuzzy and obsolete entries)
+ *
+ * @param {GetTextTranslations} table The translation table
+ * @return {CatalogStatistics} The statistics
+ */
+export function stats(table: GetTextTranslations): CatalogStatistics {
+	const result: CatalogStatistics = {
+		...createCategories(),
+		total: { messages: 0, words: 0, characters: 0 },
+		contexts: {},
+	};
+
+	const walk = (section: gettextTranslation | undefined, obsolete: boolean) => {
+		for (const msgctxt of Object.keys(section || {})) {
+			const entries = section?.[msgctxt] || {};
+
+			for (const msgid of Object.keys(entries)) {
+				const entry = entries[msgid];
+
+				// the header is not a message
+				if (!msgctxt && !msgid) {
+					continue;
+				}
+
+				if (!result.contexts[msgctxt]) {
+					result.contexts[msgctxt] = createCategories();
+				}
+
+				const category = obsolete ? "obsolete" : categoryOf(entry);
+
+				count(result[category], entry);
+				count(result.contexts[msgctxt][category], entry);
+
+				if (!obsolete) {
+					count(result.total, entry);
+				}
+			}
+		}
+	};
+
+	walk(table.translations, false);
+	walk(table.obsolete, true);
+
+	return result;
+}
@@ -0,0 +1,89 @@
+import type { MoPlatform } from "./types.js";
+
+/**
+ * The size modifiers of the <inttypes.h> PRI macros by platform: 64-bit Unix
+ * (long is 64 bits), 32-bit Unix and 64-bit Windows (long is 32 bits)
+ */
+const SIZE_MODIFIERS: Record<MoPlatform, Record<string, string>> = {
+	lp64: {
+		"64": "l",
+		LEAST64: "l",
+		FAST16: "l",
+		FAST32: "l",
+		FAST64: "l",
+		MAX: "l",
+		PTR: "l",
+	},
+	ilp32: { "64": "ll", LEAST64: "ll", FAST64: "ll", MAX: "ll" },
+	llp64: { "64": "ll", LEAST64: "ll", FAST64: "ll", MAX: "ll", PTR: "ll" },
+};
+
+/**
+ * The names of the system dependent segments, the <inttypes.h> PRI macros
+ * (e.g. PRId64) and the "I" flag of glibc
+ */
+const SEGMENT_REGEX =
+	/^PRI([diouxX])(8|16|32|64|LEAST(?:8|16|32|64)|FAST(?:8|16|32|64)|MAX|PTR)$/;
+
+/**
+ * A directive of a C format string with a PRI macro, like "%<PRId64>" or "%5<PRIx32>"
+ */
+const DIRECTIVE_REGEX =
+	/(%[-+ #0'I]*(?:\d+\$)?(?:\*(?:\d+\$)?|\d+)?(?:\.(?:\*(?:\d+\$)?|\d+))?)<(PRI[diouxX](?:8|16|32|64|LEAST(?:8|16|32|64)|FAST(?:8|16|32|64)|MAX|PTR))>/g;
+
+/**
+ * Finds the value of a system dependent segment on a platform, like the GNU
+ * gettext runtime does when it loads a MO file
+ *
+ * @param {string} name The segment name (e.g. "PRId64" or "I")
+ * @param {MoPlatform | Record<string, string>} platform The platform, or the segment values
+ * @return {string | undefined} The value (e.g. "ld"), undefined if the segment is unknown
+ */
+export function getSysdepSegment(
+	name: string,
+	platform: MoPlatform | Record<string, string>,
+): string | undefined {
+	if (typeof platform === "object") {
+		return platform[name];
+	}
+
+	const match = name.match(SEGMENT_REGEX);
+
+	if (match && SIZE_MODIFIERS[platform]) {
+		return `${SIZE_MODIFIERS[platform][match[2]] || ""}${match[1]}`;
+	}
+
+	if (name === "I") {
+		// the flag of the locale digits only exists in glibc
+		return platform === "llp64" ? "" : "I";
+	}
+
+	return undefined;
+}
+
+/**
+ * Splits a string at the PRI macros of its format directives (e.g. "%<PRId64>"),
+ * the static parts are one more than the segments
+ *
+ * @param {string} str The string
+ * @return {{ statics: string[]; segments: string[] }} The static parts and the segment names
+ */
+export function splitSysdepString(str: string): {
+	statics: string[];
+	segments: string[];
+} {
+	const statics: string[] = [];
+	const segments: string[] = [];
+	const regex = new RegExp(DIRECTIVE_REGEX.source, "g");
+	let start = 0;
+
+	for (let match = regex.exec(str); match; match = regex.exec(str)) {
+		statics.push(str.slice(start, match.index) + match[1]);
+		segments.push(match[2]);
+		start = match.index + match[0].length;
+	}
+
+	statics.push(str.slice(start));
+
+	return { statics, segments };
+}
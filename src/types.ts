@@ -24,6 +24,65 @@ export interface TranslationEntry {
 	/** msgstr an array of translations */
 	msgstr: string[];
 	comments?: GetTextComment;
+	/** The source positions of the entry, only set when parsing with the positions option */
+	positions?: TranslationEntryPositions;
+	/** The structured flags, only set when parsing with the flags option. The compiler draws the flag comment from it */
+	flags?: TranslationEntryFlags;
+	/** The previous strings of the "#|" comment, only set when parsing with the previous option. The compiler draws the "#|" comment from it */
+	previous?: TranslationEntryPrevious;
+}
+
+/**
+ * The previous strings of a fuzzy entry (the "#|" comment), unescaped
+ */
+export interface TranslationEntryPrevious {
+	msgctxt?: string;
+	msgid?: string;
+	msgid_plural?: string;
+}
+
+/**
+ * The flags of an entry (the "#," comment)
+ */
+export interface TranslationEntryFlags {
+	fuzzy?: boolean;
+	/** true for "no-wrap", false for "wrap" */
+	noWrap?: boolean;
+	/** The format flags by language, true for "c-format" and false for "no-c-format" */
+	formats?: Record<string, boolean>;
+	/** The "range: min..max" flag */
+	range?: { min: number; max: number };
+	/** The other flags, in their order */
+	other?: string[];
+}
+
+/**
+ * A position in the PO source, line is 1-based and column is 0-based
+ */
+export interface SourcePosition {
+	line: number;
+	column: number;
+}
+
+/**
+ * A range in the PO source, the end position is exclusive
+ */
+export interface SourceRange {
+	start: SourcePosition;
+	end: SourcePosition;
+}
+
+/**
+ * The source ranges of a translation entry and of its fields
+ */
+export interface TranslationEntryPositions {
+	/** The whole entry, comments included */
+	entry: SourceRange;
+	comments?: SourceRange;
+	msgctxt?: SourceRange;
+	msgid: SourceRange;
+	msgid_plural?: SourceRange;
+	msgstr: SourceRange[];
 }
 
 export interface GetTextComment {
@@ -43,6 +102,9 @@ export interface GetTextTranslationRaw extends TranslationEntry {
 	obsolete?: boolean;
 	lastNode?: boolean;
 	quote?: string;
+	lineNumber?: number;
+	range?: SourceRange;
+	commentsRange?: SourceRange;
 }
 
 export type gettextTranslation = {
@@ -54,12 +116,102 @@ export interface GetTextTranslations {
 	charset: string;
 	headers?: Record<string, string>;
 	translations: gettextTranslation;
+	/** The validation diagnostics, only set when parsing with validation: "collect" */
+	diagnostics?: PoDiagnostic[];
+	/** The concrete syntax tree of the PO source, only set when parsing with the lossless option */
+	cst?: PoCstNode[];
+}
+
+/**
+ * The source text between the entries: blank lines and comments not attached to an entry
+ */
+export interface PoCstTrivia {
+	type: "trivia";
+	source: string;
+}
+
+/**
+ * The source text of an entry, with a copy of the entry as it was parsed
+ */
+export interface PoCstEntry {
+	type: "entry";
+	source: string;
+	/** The line ending of the source, "\n" or "\r\n" */
+	eol: string;
+	msgctxt: string;
+	msgid: string;
+	obsolete: boolean;
+	entry: TranslationEntry;
+}
+
+/**
+ * A node of the PO concrete syntax tree
+ */
+export type PoCstNode = PoCstTrivia | PoCstEntry;
+
+/**
+ * The codes of the PO validation diagnostics
+ */
+export type PoDiagnosticCode =
+	| "invalid-escape"
+	| "duplicate-msgid"
+	| "multiple-msgid-plural"
+	| "plural-forms-range"
+	| "translation-string-range"
+	| "format-missing-directive"
+	| "format-extra-directive"
+	| "format-reordered-directive"
+	| "format-type-mismatch";
+
+/**
+ * A PO validation problem
+ */
+export interface PoDiagnostic {
+	code: PoDiagnosticCode;
+	severity: "error" | "warning";
+	message: string;
+	msgctxt?: string;
+	msgid?: string;
+	/** The line of the PO source where the entry starts */
+	lineNumber?: number;
 }
 
 export interface LexerError extends SyntaxError {
 	lineNumber: number;
 }
 
+/**
+ * The codes of the MO validation diagnostics
+ */
+export type MoDiagnosticCode =
+	| "header-size"
+	| "magic"
+	| "revision"
+	| "table-bounds"
+	| "string-bounds"
+	| "missing-nul"
+	| "sort-order"
+	| "hash-table"
+	| "sysdep-segment";
+
+/**
+ * A structural problem of a MO object
+ */
+export interface MoDiagnostic {
+	code: MoDiagnosticCode;
+	message: string;
+	/** The offset of the invalid value in the MO object */
+	offset: number;
+}
+
+/**
+ * The error thrown by the MO parser on the first structural problem, with validation
+ */
+export interface MoValidationError extends SyntaxError {
+	code: MoDiagnosticCode;
+	offset: number;
+}
+
 export interface State {
 	none?: number;
 	comments: number;
@@ -73,22 +225,227 @@ export interface State {
  */
 export interface poParserOptions {
 	defaultCharset?: string;
-	validation?: boolean;
+	/** Validate the PO source, "collect" returns all the problems in the diagnostics property instead of throwing on the first one */
+	validation?: boolean | "collect";
+	/** Add the source line and column ranges of each entry and of its fields */
+	positions?: boolean;
+	/** Keep the concrete syntax tree of the source, the compiler then keeps the formatting of the unchanged entries */
+	lossless?: boolean;
+	/** Add the structured flags of each entry */
+	flags?: boolean;
+	/** Add the unescaped previous strings of the "#|" comment of each entry */
+	previous?: boolean;
 }
 
 export interface parserOptions {
 	foldLength: number;
 	eol: string;
 	defaultCharset: string;
-	validation: boolean;
+	validation: boolean | "collect";
 	escapeCharacters: boolean;
 	sort: boolean;
 }
 
+/**
+ * The data models of the system dependent strings: 64-bit Unix, 32-bit Unix and 64-bit Windows
+ */
+export type MoPlatform = "lp64" | "ilp32" | "llp64";
+
+/**
+ * The MO parser options
+ */
+export interface moParserOptions {
+	/** Expand the system dependent strings (e.g. "%<PRId64>") for a platform or with the segment values (e.g. { PRId64: "lld" }), they keep the PO notation if not set */
+	platform?: MoPlatform | Record<string, string>;
+	/** Check the structure of the MO object before reading it, throw a MoValidationError on the first problem */
+	validation?: boolean;
+}
+
+/**
+ * The MO compiler options
+ */
+export interface moCompilerOptions {
+	/** Generate the GNU hash table used by gettext runtimes to speed up lookups (default: true) */
+	hashTable?: boolean;
+	/** Include the fuzzy entries, like msgfmt --use-fuzzy (default: false) */
+	useFuzzy?: boolean;
+	/** The byte order of the MO object, like msgfmt --endianness (default: "le") */
+	endianness?: "le" | "be";
+	/** The MO file format revision, 0 or 1 for the header with the system dependent string tables (default: 1 if there are system dependent strings, otherwise 0) */
+	revision?: number;
+	/** The platform of the hash table entries of the system dependent strings (default: "lp64") */
+	platform?: MoPlatform | Record<string, string>;
+	/** Called with the statistics of the compiled entries */
+	onStatistics?: (statistics: moCompilerStatistics) => void;
+}
+
+/**
+ * The statistics of a MO compilation, the header is not counted
+ */
+export interface moCompilerStatistics {
+	/** The number of entries written to the MO object */
+	translated: number;
+	/** The number of entries left out, by reason */
+	skipped: {
+		/** Fuzzy entries, unless useFuzzy is set */
+		fuzzy: number;
+		/** Entries without a translation */
+		untranslated: number;
+	};
+}
+
+/**
+ * The JSON formats of the translation runtimes: Jed 1.x, Jed before 1.0, gettext.js and i18next v4
+ */
+export type JsonFormat = "jed1.x" | "jed" | "gettext.js" | "i18next";
+
+/**
+ * The i18next options, shared by the JSON compiler and parser
+ */
+export interface jsonI18nextOptions {
+	/** The language of the plural categories (default: the Language header or "en") */
+	language?: string;
+	/** Split the keys into nested objects with this separator, false for natural language keys (default: false) */
+	keySeparator?: string | false;
+	/** msgctxt as an i18next context ("key_context") or as a namespace (default: "suffix") */
+	context?: "suffix" | "namespace";
+	/** The namespace of the entries without msgctxt, with the namespace context (default: "translation") */
+	namespace?: string;
+}
+
+/**
+ * The JSON compiler options
+ */
+export interface jsonCompilerOptions extends jsonI18nextOptions {
+	/** The output format (default: "jed1.x") */
+	format?: JsonFormat;
+	/** The Jed text domain (default: "messages") */
+	domain?: string;
+	/** Include the fuzzy entries, like msgfmt --use-fuzzy (default: false) */
+	useFuzzy?: boolean;
+	/** Leave out the entries without any translation (default: true for i18next, false for the other formats) */
+	skipUntranslated?: boolean;
+}
+
+/**
+ * The JSON parser options
+ */
+export interface jsonParserOptions extends jsonI18nextOptions {
+	/** The input format, detected from the structure if not set (except i18next) */
+	format?: JsonFormat;
+	/** The Jed text domain to read (default: the domain property or the first domain) */
+	domain?: string;
+	/** The Plural-Forms header of the i18next translations, which have no header */
+	pluralForms?: string;
+}
+
+/**
+ * The XLIFF versions of the XLIFF compiler and parser
+ */
+export type XliffVersion = "1.2" | "2.0";
+
+/**
+ * The XLIFF compiler options
+ */
+export interface xliffCompilerOptions {
+	/** The XLIFF version (default: "1.2") */
+	version?: XliffVersion;
+	/** The language of msgid (default: "en") */
+	sourceLanguage?: string;
+	/** The original attribute of the file element (default: "messages") */
+	original?: string;
+}
+
+/**
+ * The number of messages of a category and the size of their source strings
+ */
+export interface CatalogStatisticsCounts {
+	/** The number of entries, a plural entry is a single message */
+	messages: number;
+	/** The words of msgid, and of msgid_plural for the plural entries */
+	words: number;
+	/** The characters of msgid, and of msgid_plural for the plural entries */
+	characters: number;
+}
+
+/**
+ * The statistics of the entries by category, see msgfmt --statistics
+ */
+export interface CatalogStatisticsCategories {
+	/** Entries with all their translations and not fuzzy */
+	translated: CatalogStatisticsCounts;
+	/** Translated entries marked as fuzzy */
+	fuzzy: CatalogStatisticsCounts;
+	/** Entries with a missing translation, a plural entry needs all its forms */
+	untranslated: CatalogStatisticsCounts;
+	/** Entries of the obsolete section */
+	obsolete: CatalogStatisticsCounts;
+}
+
+/**
+ * The statistics of a translation table, the header is not counted
+ */
+export interface CatalogStatistics extends CatalogStatisticsCategories {
+	/** The translated, fuzzy and untranslated counts together */
+	total: CatalogStatisticsCounts;
+	/** The statistics by msgctxt, the default context is "" */
+	contexts: Record<string, CatalogStatisticsCategories>;
+}
+
+/**
+ * The PO merge options
+ */
+export interface poMergeOptions {
+	/** Look for similar translations when a template entry has no exact match (default: true) */
+	fuzzyMatching?: boolean;
+	/** Add the previous msgid as #| comment to fuzzy matched entries (default: true) */
+	previous?: boolean;
+}
+
+/**
+ * The translator options
+ */
+export interface translatorOptions {
+	/** The locale of the translations, also used for the table passed to the constructor (default: "en") */
+	locale?: string;
+	/** The default text domain (default: "messages") */
+	domain?: string;
+	/** The locales to look up, in order, when a message is not translated in the current locale */
+	fallbackLocales?: string[];
+}
+
+/**
+ * The first object written to the compile stream, the header entry can be written instead
+ */
+export interface PoCompileStreamHeader {
+	charset?: string;
+	headers?: Record<string, string>;
+}
+
 export interface PoParserTransformOptions extends TransformOptions {
 	initialTreshold?: number;
+	/** Emit each entry as soon as it is parsed, the header first, instead of a single translation table */
+	entries?: boolean;
+}
+
+/**
+ * The options of the PO parsing from a WHATWG stream or an async iterable
+ */
+export interface poStreamParserOptions extends poParserOptions {
+	/** The bytes to cache before parsing the header for the charset, default 2kb */
+	initialTreshold?: number;
+	/** Iterate the entries as soon as they are parsed, the header first, instead of resolving to a translation table */
+	entries?: boolean;
 }
 
+/**
+ * The bytes of a PO file: a WHATWG readable stream, like the body of a fetch
+ * response, or an async iterable, like a Node readable stream
+ */
+export type PoByteStream =
+	| ReadableStream<Uint8Array>
+	| AsyncIterable<Uint8Array>;
+
 export interface PoNode {
 	key: string;
 	comments?: GetTextComment;
@@ -100,16 +457,7 @@ export interface PoNode {
 	value: string;
 	quote?: string;
 	obsolete?: boolean;
+	lineNumber?: number;
+	range?: SourceRange;
+	commentsRange?: SourceRange;
 }
-
-export type BufferWriteFunc =
-	| "writeUInt32LE"
-	| "writeUInt32BE"
-	| "writeInt32LE"
-	| "writeInt32BE";
-
-export type BufferReadFunc =
-	| "readUInt32LE"
-	| "readUInt32BE"
-	| "readInt32LE"
-	| "readInt32BE";
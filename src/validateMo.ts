@@ -0,0 +1,15 @@
+import { MoParser } from "./MoParser.js";
+import type { MoDiagnostic } from "./types.js";
+
+/**
+ * Checks the structure of a binary MO object, its lengths and offsets are not
+ * trusted so a truncated or corrupted object can be rejected safely
+ *
+ * @param {Uint8Array} buffer Binary MO object
+ * @return {MoDiagnostic[]} The problems, empty if the MO object is valid
+ */
+export function validateMo(buffer: Uint8Array): MoDiagnostic[] {
+	const parser = new MoParser(buffer);
+
+	return parser.validate();
+}
@@ -0,0 +1,44 @@
+import PoStreamParser from "./PoStreamParser.js";
+import type {
+	GetTextTranslations,
+	TranslationEntry,
+	poStreamParserOptions,
+} from "./types.js";
+
+/**
+ * Creates a WHATWG transform stream that parses PO bytes, it emits the
+ * translation table at the end, or each entry as soon as it is parsed with
+ * the entries option
+ *
+ * @param {poStreamParserOptions} [options] Parser options
+ * @return {TransformStream<Uint8Array, GetTextTranslations | TranslationEntry>} The transform stream
+ */
+export function webStreamPo(
+	options: poStreamParserOptions = {},
+): TransformStream<Uint8Array, GetTextTranslations | TranslationEntry> {
+	const parser = new PoStreamParser(options, options.initialTreshold);
+
+	return new TransformStream({
+		transform(chunk, controller) {
+			if (chunk.length && parser.write(chunk) && options.entries) {
+				for (const entry of parser.entries()) {
+					controller.enqueue(entry);
+				}
+			}
+		},
+		flush(controller) {
+			if (!parser.end()) {
+				return;
+			}
+
+			if (!options.entries) {
+				controller.enqueue(parser.table());
+				return;
+			}
+
+			for (const entry of parser.entries(true)) {
+				controller.enqueue(entry);
+			}
+		},
+	});
+}
@@ -0,0 +1,382 @@
+/**
+ * An XML element, the children are elements and text
+ */
+export interface XmlElement {
+	/** The qualified name of the element (e.g. "mda:meta") */
+	name: string;
+	/** The attributes, by qualified name, with the entities decoded */
+	attributes: Record<string, string>;
+	/** The child elements and text, with the entities decoded */
+	children: (XmlElement | string)[];
+}
+
+/**
+ * The predefined XML entities
+ */
+const ENTITIES: Record<string, string> = {
+	lt: "<",
+	gt: ">",
+	amp: "&",
+	quot: '"',
+	apos: "'",
+};
+
+/**
+ * The characters that XML 1.0 can't hold, even as character references: the C0
+ * control characters except the tab, the line feed and the carriage return
+ */
+// biome-ignore lint/suspicious/noControlCharactersInRegex: the control characters are matched
+export const CONTROL_CHARACTERS = /([\x00-\x08\x0b\x0c\x0e-\x1f])/;
+
+/**
+ * Marks the control pictures (U+2400 to U+241F) that are not encoded control
+ * characters, and itself
+ */
+const CONTROL_PICTURE_ESCAPE = "\u2426";
+
+/**
+ * Finds the line of a position of the source, for the error messages
+ *
+ * @param {string} source The XML source
+ * @param {number} index The position
+ * @return {number} The line, 1-based
+ */
+function lineOf(source: string, index: number): number {
+	return source.slice(0, index).split("\n").length;
+}
+
+/**
+ * Decodes the entity and character references of a text or an attribute value
+ *
+ * @param {string} str The encoded string
+ * @return {string} The decoded string
+ * @throws SyntaxError Will throw an error on an unknown entity or a bare ampersand
+ */
+function decodeEntities(str: string): string {
+	return str.replace(/&([^;&\s]*);?/g, (text, name: string) => {
+		const code = name.match(/^#(x[0-9a-f]+|\d+)$/i);
+
+		if (!text.endsWith(";")) {
+			throw new SyntaxError(`XML error: unescaped ampersand "${text}"`);
+		}
+
+		if (code) {
+			return String.fromCodePoint(
+				code[1][0].toLowerCase() === "x"
+					? Number.parseInt(code[1].slice(1), 16)
+					: Number.parseInt(code[1], 10),
+			);
+		}
+
+		if (!(name in ENTITIES)) {
+			// the entities of a DTD are never loaded
+			throw new SyntaxError(`XML error: unknown entity "${text}"`);
+		}
+
+		return ENTITIES[name];
+	});
+}
+
+/**
+ * Parses an XML document. The processing instructions, the comments and the
+ * DOCTYPE declaration are skipped, external entities are never loaded
+ *
+ * @param {string} input The XML source
+ * @return {XmlElement} The root element
+ * @throws SyntaxError Will throw an error if the document is not well-formed
+ */
+export function parseXml(input: string): XmlElement {
+	const source = input.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+	const tagRegex =
+		/<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/y;
+	const attributeRegex = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+	const stack: XmlElement[] = [];
+	let root: XmlElement | undefined;
+	let index = 0;
+
+	const addText = (text: string) => {
+		if (stack.length) {
+			stack[stack.length - 1].children.push(text);
+		} else if (text.trim()) {
+			throw new SyntaxError(
+				`XML error: text outside of the root element at line ${lineOf(
+					source,
+					index,
+				)}`,
+			);
+		}
+	};
+
+	const skipTo = (end: string) => {
+		const next = source.indexOf(end, index);
+
+		if (next < 0) {
+			throw new SyntaxError(
+				`XML error: missing "${end}" at line ${lineOf(source, index)}`,
+			);
+		}
+
+		index = next + end.length;
+	};
+
+	while (index < source.length) {
+		const next = source.indexOf("<", index);
+
+		if (next !== index) {
+			const end = next < 0 ? source.length : next;
+
+			addText(decodeEntities(source.slice(index, end)));
+			index = end;
+			continue;
+		}
+
+		if (source.startsWith("<?", index)) {
+			skipTo("?>");
+		} else if (source.startsWith("<!--", index)) {
+			skipTo("-->");
+		} else if (source.startsWith("<![CDATA[", index)) {
+			const start = index + 9;
+
+			skipTo("]]>");
+			addText(source.slice(start, index - 3));
+		} else if (source.startsWith("<!DOCTYPE", index)) {
+			// the internal subset may contain ">", it ends with "]>"
+			const subset = source.indexOf("[", index);
+
+			if (subset >= 0 && subset < source.indexOf(">", index)) {
+				skipTo("]");
+			}
+
+			skipTo(">");
+		} else if (source.startsWith("</", index)) {
+			const end = source.indexOf(">", index);
+			const name = source.slice(index + 2, end).trim();
+			const element = stack.pop();
+
+			if (end < 0 || !element || element.name !== name) {
+				throw new SyntaxError(
+					`XML error: unexpected closing tag </${name}> at line ${lineOf(
+						source,
+						index,
+					)}`,
+				);
+			}
+
+			index = end + 1;
+		} else {
+			tagRegex.lastIndex = index;
+
+			const match = tagRegex.exec(source);
+
+			if (!match || (root && !stack.length)) {
+				throw new SyntaxError(
+					`XML error: invalid tag at line ${lineOf(source, index)}`,
+				);
+			}
+
+			const [text, name, attributesSource, selfClosing] = match;
+			const element: XmlElement = { name, attributes: {}, children: [] };
+
+			for (
+				let attribute = attributeRegex.exec(attributesSource);
+				attribute;
+				attribute = attributeRegex.exec(attributesSource)
+			) {
+				// the white space of the attribute values is normalized
+				element.attributes[attribute[1]] = decodeEntities(
+					(attribute[2] ?? attribute[3]).replace(/[\t\n]/g, " "),
+				);
+			}
+
+			if (stack.length) {
+				stack[stack.length - 1].children.push(element);
+			} else {
+				root = element;
+			}
+
+			if (!selfClosing) {
+				stack.push(element);
+			}
+
+			index += text.length;
+		}
+	}
+
+	if (!root || stack.length) {
+		throw new SyntaxError(
+			`XML error: ${
+				root
+					? `unclosed tag <${stack[stack.length - 1].name}>`
+					: "missing root element"
+			}`,
+		);
+	}
+
+	return root;
+}
+
+/**
+ * Escapes a string for XML text or attribute values, the carriage returns (and
+ * the tabs and line feeds of the attribute values) become character references
+ * to survive the normalization
+ *
+ * @param {string} str The string
+ * @param {boolean} [attribute] Escape for an attribute value
+ * @return {string} The escaped string
+ * @throws TypeError Will throw an error on a control character
+ */
+export function escapeXml(str: string, attribute = false): string {
+	const control = str.match(CONTROL_CHARACTERS);
+
+	if (control) {
+		throw new TypeError(
+			`XML error: the control character U+${control[1]
+				.charCodeAt(0)
+				.toString(16)
+				.toUpperCase()
+				.padStart(4, "0")} can't be written in XML 1.0`,
+		);
+	}
+
+	const escaped = str
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/\r/g, "&#13;");
+
+	if (!attribute) {
+		return escaped;
+	}
+
+	return escaped
+		.replace(/"/g, "&quot;")
+		.replace(/\n/g, "&#10;")
+		.replace(/\t/g, "&#9;");
+}
+
+/**
+ * Encodes the control characters that XML 1.0 can't hold for the elements
+ * without inline markup, as their control pictures (U+0007 becomes U+2407 "␇").
+ * The control pictures of the string are escaped with U+2426, so the encoding
+ * can be reversed
+ *
+ * @param {string} str The string
+ * @return {string} The encoded string
+ */
+export function encodeControlCharacters(str: string): string {
+	return str.replace(
+		new RegExp(
+			`[\u2400-\u241f${CONTROL_PICTURE_ESCAPE}]|${CONTROL_CHARACTERS.source}`,
+			"g",
+		),
+		(chr) =>
+			CONTROL_CHARACTERS.test(chr)
+				? String.fromCharCode(0x2400 + chr.charCodeAt(0))
+				: CONTROL_PICTURE_ESCAPE + chr,
+	);
+}
+
+/**
+ * Decodes the control characters encoded by encodeControlCharacters
+ *
+ * @param {string} str The encoded string
+ * @return {string} The string
+ */
+export function decodeControlCharacters(str: string): string {
+	return str.replace(
+		new RegExp(
+			`${CONTROL_PICTURE_ESCAPE}([\u2400-\u241f${CONTROL_PICTURE_ESCAPE}])|[\u2400-\u241f]`,
+			"g",
+		),
+		(chr, escaped?: string) =>
+			escaped || String.fromCharCode(chr.charCodeAt(0) - 0x2400),
+	);
+}
+
+/**
+ * Serializes an element, one child element per line. The elements with text
+ * are written on a single line, their white space is kept as is
+ *
+ * @param {XmlElement} element The element
+ * @param {string} [indent] The indentation of the element
+ * @return {string} The XML string
+ */
+export function stringifyXml(element: XmlElement, indent = ""): string {
+	const attributes = Object.entries(element.attributes)
+		.map(([name, value]) => ` ${name}="${escapeXml(value, true)}"`)
+		.join("");
+	const open = `${indent}<${element.name}${attributes}`;
+
+	if (!element.children.length) {
+		return `${open}/>`;
+	}
+
+	if (element.children.some((child) => typeof child === "string")) {
+		const content = element.children
+			.map((child) =>
+				typeof child === "string" ? escapeXml(child) : stringifyXml(child),
+			)
+			.join("");
+
+		return `${open}>${content}</${element.name}>`;
+	}
+
+	const children = element.children.map((child) =>
+		stringifyXml(child as XmlElement, `${indent}  `),
+	);
+
+	return [`${open}>`, ...children, `${indent}</${element.name}>`].join("\n");
+}
+
+/**
+ * Strips the namespace prefix of a qualified name
+ *
+ * @param {string} name The qualified name (e.g. "mda:meta")
+ * @return {string} The local name (e.g. "meta")
+ */
+export function localName(name: string): string {
+	return name.slice(name.indexOf(":") + 1);
+}
+
+/**
+ * Lists the child elements, by local name if set
+ *
+ * @param {XmlElement} element The parent element
+ * @param {string} [name] The local name of the children
+ * @return {XmlElement[]} The child elements
+ */
+export function childElements(
+	element: XmlElement,
+	name?: string,
+): XmlElement[] {
+	return element.children.filter(
+		(child): child is XmlElement =>
+			typeof child !== "string" && (!name || localName(child.name) === name),
+	);
+}
+
+/**
+ * Finds the first child element with a local name
+ *
+ * @param {XmlElement} element The parent element
+ * @param {string} name The local name of the child
+ * @return {XmlElement | undefined} The child element
+ */
+export function childElement(
+	element: XmlElement,
+	name: string,
+): XmlElement | undefined {
+	return childElements(element, name)[0];
+}
+
+/**
+ * Joins the text of an element and of its descendants
+ *
+ * @param {XmlElement} element The element
+ * @return {string} The text
+ */
+export function textContent(element: XmlElement): string {
+	return element.children
+		.map((child) => (typeof child === "string" ? child : textContent(child)))
+		.join("");
+}
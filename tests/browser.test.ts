@@ -0,0 +1,80 @@
+import { readFile as fsReadFile } from "node:fs";
+import * as path from "node:path";
+import { fileURLToPath } from "node:url";
+import { promisify } from "node:util";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import gettextParser from "../src/browser.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const readFile = promisify(fsReadFile);
+
+/**
+ * Reads a fixture as plain bytes, like a fetch response in a browser
+ */
+async function readFixture(name: string): Promise<Uint8Array> {
+	return new Uint8Array(await readFile(path.join(__dirname, "fixtures", name)));
+}
+
+describe("Browser entry point", () => {
+	beforeAll(() => {
+		vi.stubGlobal("Buffer", undefined);
+	});
+
+	afterAll(() => {
+		vi.unstubAllGlobals();
+	});
+
+	for (const name of ["utf8", "latin13"]) {
+		describe(name, () => {
+			it("should parse and compile PO files", async () => {
+				const [po, json] = await Promise.all([
+					readFixture(`${name}.po`),
+					readFile(path.join(__dirname, `fixtures/${name}-po.json`), "utf8"),
+				]);
+				const compiled = gettextParser.po.compile(JSON.parse(json), {
+					eol: "\n",
+				});
+
+				expect(gettextParser.po.parse(po)).to.deep.equal(JSON.parse(json));
+				expect(compiled.constructor).to.equal(Uint8Array);
+				expect(compiled).to.deep.equal(po);
+			});
+
+			it("should parse and compile MO files", async () => {
+				const [mo, json] = await Promise.all([
+					readFixture(`${name}.mo`),
+					readFile(path.join(__dirname, `fixtures/${name}-mo.json`), "utf8"),
+				]);
+				const table = JSON.parse(json);
+				const compiled = gettextParser.mo.compile(
+					JSON.parse(
+						await readFile(
+							path.join(__dirname, `fixtures/${name}-po.json`),
+							"utf8",
+						),
+					),
+				);
+
+				expect(globalThis.Buffer).to.equal(undefined);
+				expect(gettextParser.mo.parse(mo)).to.deep.equal(table);
+				expect(compiled.constructor).to.equal(Uint8Array);
+				expect(compiled).to.deep.equal(mo);
+				expect(gettextParser.mo.validate(mo)).to.deep.equal([]);
+			});
+		});
+	}
+
+	it("should parse XLIFF and JSON bytes", () => {
+		const encoder = new TextEncoder();
+		const xliff = gettextParser.xliff.compile(
+			gettextParser.json.parse(encoder.encode('{"o1": "t1"}')),
+		);
+
+		expect(
+			gettextParser.xliff.parse(encoder.encode(xliff)).translations[""].o1
+				.msgstr,
+		).to.deep.equal(["t1"]);
+	});
+});
@@ -0,0 +1,341 @@
+import * as childProcess from "node:child_process";
+import { promises as fs } from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { PassThrough } from "node:stream";
+import { fileURLToPath } from "node:url";
+import { promisify } from "node:util";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { EXIT_FAILURE, EXIT_SUCCESS, EXIT_USAGE, runCli } from "../src/cli.js";
+import gettextParser from "../src/index.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const fixtures = path.join(__dirname, "fixtures");
+
+/**
+ * Runs the command line with in-memory standard streams
+ */
+async function run(args: string[], input = "") {
+	const stdin = new PassThrough();
+	const stdout = new PassThrough();
+	const stderr = new PassThrough();
+	const out: Buffer[] = [];
+	const err: Buffer[] = [];
+
+	stdout.on("data", (chunk) => out.push(chunk));
+	stderr.on("data", (chunk) => err.push(chunk));
+	stdin.end(input);
+
+	const status = await runCli(args, { stdin, stdout, stderr });
+
+	return {
+		status,
+		stdout: Buffer.concat(out),
+		stderr: Buffer.concat(err).toString(),
+	};
+}
+
+describe("CLI", () => {
+	let dir: string;
+
+	beforeEach(async () => {
+		dir = await fs.mkdtemp(path.join(os.tmpdir(), "gettext-parser-"));
+	});
+
+	afterEach(async () => {
+		await fs.rm(dir, { recursive: true, force: true });
+	});
+
+	it("should print the usage", async () => {
+		const { status, stdout } = await run(["--help"]);
+
+		expect(status).to.equal(EXIT_SUCCESS);
+		expect(stdout.toString()).to.contain("Usage: gettext-parser <command>");
+	});
+
+	it("should fail on a wrong usage", async () => {
+		expect((await run(["unknown"])).status).to.equal(EXIT_USAGE);
+		expect((await run(["compile", "--eol", "cr"])).status).to.equal(EXIT_USAGE);
+		expect((await run(["compile", "--output"])).status).to.equal(EXIT_USAGE);
+	});
+
+	it("should compile the files matching a glob", async () => {
+		await fs.mkdir(path.join(dir, "de"));
+		await fs.copyFile(
+			path.join(fixtures, "utf8.po"),
+			path.join(dir, "de/messages.po"),
+		);
+		await fs.copyFile(
+			path.join(fixtures, "latin13.po"),
+			path.join(dir, "latin13.po"),
+		);
+
+		const { status } = await run(["compile", `${dir}/**/*.po`]);
+
+		expect(status).to.equal(EXIT_SUCCESS);
+
+		const mo = gettextParser.mo.parse(
+			await fs.readFile(path.join(dir, "de/messages.mo")),
+		);
+
+		expect(mo?.translations[""].o1.msgstr).to.deep.equal(["t1"]);
+		expect(
+			await fs.readFile(path.join(dir, "latin13.mo")),
+		).to.have.length.above(0);
+	});
+
+	it("should keep the folders of a glob in the output directory", async () => {
+		for (const language of ["de", "fr"]) {
+			await fs.mkdir(path.join(dir, "locales", language), { recursive: true });
+			await fs.copyFile(
+				path.join(fixtures, "utf8.po"),
+				path.join(dir, "locales", language, "messages.po"),
+			);
+		}
+
+		const { status } = await run([
+			"compile",
+			`${dir}/locales/**/*.po`,
+			"-o",
+			`${dir}/out/`,
+		]);
+
+		expect(status).to.equal(EXIT_SUCCESS);
+		expect((await fs.readdir(path.join(dir, "out"))).sort()).to.deep.equal([
+			"de",
+			"fr",
+		]);
+		expect(
+			await fs.readFile(path.join(dir, "out/fr/messages.mo")),
+		).to.have.length.above(0);
+	});
+
+	it("should fail when two inputs have the same output", async () => {
+		for (const language of ["de", "fr"]) {
+			await fs.mkdir(path.join(dir, language));
+			await fs.copyFile(
+				path.join(fixtures, "utf8.po"),
+				path.join(dir, language, "messages.po"),
+			);
+		}
+
+		const { status, stderr } = await run([
+			"compile",
+			`${dir}/de/messages.po`,
+			`${dir}/fr/messages.po`,
+			"-o",
+			`${dir}/out/`,
+		]);
+
+		expect(status).to.equal(EXIT_FAILURE);
+		expect(stderr).to.equal(
+			`${dir}/fr/messages.po: error: ${path.join(
+				dir,
+				"out/messages.mo",
+			)} is already the output of ${dir}/de/messages.po\n`,
+		);
+	});
+
+	it("should read stdin and write stdout", async () => {
+		const po = await fs.readFile(path.join(fixtures, "utf8.po"), "utf-8");
+		const { status, stdout } = await run(["compile"], po);
+
+		expect(status).to.equal(EXIT_SUCCESS);
+		expect(gettextParser.mo.parse(stdout)).to.not.equal(false);
+	});
+
+	it("should decompile with the PO compiler options", async () => {
+		const { status, stdout } = await run([
+			"decompile",
+			path.join(fixtures, "utf8.mo"),
+			"-o",
+			"-",
+			"--eol",
+			"crlf",
+			"--fold-length",
+			"0",
+		]);
+
+		expect(status).to.equal(EXIT_SUCCESS);
+		expect(stdout.toString()).to.contain('msgid "o1"\r\nmsgstr "t1"\r\n');
+	});
+
+	it("should convert to JSON and back", async () => {
+		const json = path.join(dir, "utf8.json");
+
+		expect(
+			(await run(["convert", path.join(fixtures, "utf8.po"), "-o", json]))
+				.status,
+		).to.equal(EXIT_SUCCESS);
+
+		const table = JSON.parse(await fs.readFile(json, "utf-8"));
+
+		expect(table.translations[""].o1.msgstr).to.deep.equal(["t1"]);
+
+		const { status, stdout } = await run([
+			"convert",
+			json,
+			"--to",
+			"mo",
+			"-o",
+			"-",
+		]);
+
+		expect(status).to.equal(EXIT_SUCCESS);
+		expect(gettextParser.mo.parse(stdout)).to.not.equal(false);
+	});
+
+	it("should convert to the JSON of a translation runtime", async () => {
+		const { status, stdout } = await run([
+			"convert",
+			path.join(fixtures, "utf8.po"),
+			"--json-format",
+			"gettext.js",
+			"-o",
+			"-",
+		]);
+
+		expect(status).to.equal(EXIT_SUCCESS);
+		expect(JSON.parse(stdout.toString()).o1).to.equal("t1");
+	});
+
+	it("should convert to XLIFF and back", async () => {
+		const po = path.join(dir, "utf8.po");
+
+		await fs.copyFile(path.join(fixtures, "utf8.po"), po);
+
+		expect(
+			(await run(["convert", po, "--to", "xliff", "--xliff-version", "2.0"]))
+				.status,
+		).to.equal(EXIT_SUCCESS);
+		expect(await fs.readFile(path.join(dir, "utf8.xliff"), "utf-8")).to.contain(
+			'<xliff xmlns="urn:oasis:names:tc:xliff:document:2.0"',
+		);
+
+		const { status, stdout } = await run([
+			"convert",
+			path.join(dir, "utf8.xliff"),
+			"-o",
+			"-",
+		]);
+
+		expect(status).to.equal(EXIT_SUCCESS);
+		expect(stdout.toString()).to.contain('msgid "o1"\nmsgstr "t1"\n');
+	});
+
+	it("should report the validation problems", async () => {
+		const { status, stderr } = await run([
+			"validate",
+			path.join(fixtures, "validate-multiple-errors.po"),
+		]);
+
+		expect(status).to.equal(EXIT_FAILURE);
+		expect(stderr).to.match(
+			/validate-multiple-errors\.po:\d+: error: Duplicate msgid error/,
+		);
+		expect(
+			(await run(["validate", path.join(fixtures, "utf8.po")])).status,
+		).to.equal(EXIT_SUCCESS);
+	});
+
+	it("should report the structural problems of a MO file", async () => {
+		const mo = await fs.readFile(path.join(fixtures, "utf8.mo"));
+		const file = path.join(dir, "utf8.mo");
+
+		await fs.writeFile(file, mo.subarray(0, mo.length - 4));
+
+		const { status, stderr } = await run(["validate", file]);
+
+		expect(status).to.equal(EXIT_FAILURE);
+		expect(stderr).to.match(
+			/utf8\.mo: error: The translation string \d+ of \d+ bytes at offset \d+ exceeds the file size/,
+		);
+		expect(
+			(await run(["validate", path.join(fixtures, "utf8.mo")])).status,
+		).to.equal(EXIT_SUCCESS);
+	});
+
+	it("should fail on an invalid input", async () => {
+		const { status, stderr } = await run(["decompile", "-"], "not a MO file");
+
+		expect(status).to.equal(EXIT_FAILURE);
+		expect(stderr).to.equal("<stdin>: error: Invalid MO file\n");
+	});
+
+	it("should fail when no file matches", async () => {
+		expect((await run(["stats", `${dir}/*.po`])).status).to.equal(EXIT_FAILURE);
+	});
+
+	it("should fail when the base directory of a glob is missing", async () => {
+		const { status, stderr } = await run(["compile", `${dir}/nope/*.po`]);
+
+		expect(status).to.equal(EXIT_FAILURE);
+		expect(stderr).to.equal(
+			`gettext-parser: No file matches ${dir}/nope/*.po\n`,
+		);
+	});
+
+	it("should count the messages", async () => {
+		const po = [
+			'msgid "a"\nmsgstr "A"\n',
+			'#, fuzzy\nmsgid "b"\nmsgstr "B"\n',
+			'msgid "c"\nmsgstr ""\n',
+		].join("\n");
+		const { status, stdout } = await run(["stats"], po);
+
+		expect(status).to.equal(EXIT_SUCCESS);
+		expect(stdout.toString()).to.equal(
+			"<stdin>: 1 translated, 1 fuzzy, 1 untranslated messages.\n",
+		);
+	});
+
+	it("should print the statistics as JSON", async () => {
+		const { stdout } = await run([
+			"stats",
+			"--json",
+			path.join(fixtures, "utf8.po"),
+		]);
+		const statistics = JSON.parse(stdout.toString());
+
+		expect(statistics.file).to.equal(path.join(fixtures, "utf8.po"));
+		expect(statistics.contexts[""].translated.messages).to.equal(
+			statistics.translated.messages -
+				statistics.contexts.c1.translated.messages -
+				statistics.contexts.c2.translated.messages,
+		);
+	});
+});
+
+describe("Built bin", () => {
+	const execFile = promisify(childProcess.execFile);
+	const bin = async () => {
+		const { bin } = JSON.parse(
+			await fs.readFile(path.join(__dirname, "../package.json"), "utf8"),
+		);
+
+		return path.join(__dirname, "..", bin["gettext-parser"]);
+	};
+
+	it("should run the package bin with node", async () => {
+		const { stdout } = await execFile(process.execPath, [
+			await bin(),
+			"--help",
+		]);
+
+		expect(stdout).to.contain("Usage: gettext-parser <command>");
+	});
+
+	it("should compile a PO file with the package bin", async () => {
+		const { stdout } = await execFile(
+			process.execPath,
+			[await bin(), "compile", path.join(fixtures, "utf8.po"), "-o", "-"],
+			{ encoding: "buffer" },
+		);
+
+		expect(
+			stdout.equals(await fs.readFile(path.join(fixtures, "utf8.mo"))),
+		).to.equal(true);
+	});
+});
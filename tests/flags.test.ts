@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest";
+import browser from "../src/browser.js";
+import {
+	hasFlag,
+	isFuzzy,
+	parseFlags,
+	setFlag,
+	stringifyFlags,
+} from "../src/flags.js";
+import gettextParser from "../src/index.js";
+import type { TranslationEntry } from "../src/types.js";
+
+describe("Flags", () => {
+	describe("parseFlags", () => {
+		it("should parse the known flags", () => {
+			expect(
+				parseFlags(
+					"fuzzy, c-format, no-python-format\nrange: 0..10, no-wrap, custom",
+				),
+			).to.deep.equal({
+				fuzzy: true,
+				noWrap: true,
+				formats: { c: true, python: false },
+				range: { min: 0, max: 10 },
+				other: ["custom"],
+			});
+		});
+
+		it("should parse the C++ format flags", () => {
+			expect(parseFlags("c++-format, no-c++-format")).to.deep.equal({
+				formats: { "c++": false },
+			});
+			expect(parseFlags("no-c++-format").formats).to.deep.equal({
+				"c++": false,
+			});
+			expect(
+				stringifyFlags({ formats: { python: true, "c++": true, c: true } }),
+			).to.equal("c-format, c++-format, python-format");
+		});
+
+		it("should parse an empty comment", () => {
+			expect(parseFlags()).to.deep.equal({});
+		});
+	});
+
+	describe("stringifyFlags", () => {
+		it("should use the canonical order", () => {
+			expect(
+				stringifyFlags({
+					other: ["custom"],
+					noWrap: false,
+					range: { min: 1, max: 5 },
+					formats: { unknown: true, python: false, c: true },
+					fuzzy: true,
+				}),
+			).to.equal(
+				"fuzzy, c-format, no-python-format, unknown-format, range: 1..5, wrap, custom",
+			);
+		});
+	});
+
+	describe("helpers", () => {
+		const entry = (flag?: string): TranslationEntry => ({
+			msgid: "a",
+			msgstr: ["b"],
+			comments: flag ? { flag } : {},
+		});
+
+		it("should check the flags", () => {
+			expect(isFuzzy(entry("c-format, fuzzy"))).to.equal(true);
+			expect(isFuzzy(entry("c-format"))).to.equal(false);
+			expect(hasFlag(entry("no-c-format"), "c-format")).to.equal(false);
+			expect(hasFlag(entry("no-c-format"), "no-c-format")).to.equal(true);
+			expect(hasFlag(entry("range: 1..3"), "range")).to.equal(true);
+			expect(hasFlag(entry("a, b"), "a")).to.equal(true);
+		});
+
+		it("should set and unset the flags", () => {
+			const item = entry("c-format");
+
+			setFlag(item, "fuzzy");
+			expect(item.comments?.flag).to.equal("fuzzy, c-format");
+
+			setFlag(item, "no-c-format");
+			expect(item.comments?.flag).to.equal("fuzzy, no-c-format");
+
+			setFlag(item, "c-format", false);
+			expect(item.comments?.flag).to.equal("fuzzy, no-c-format");
+
+			setFlag(item, "no-c-format", false);
+			setFlag(item, "fuzzy", false);
+			expect(item.comments).to.deep.equal({});
+		});
+
+		it("should update the flags object", () => {
+			const item: TranslationEntry = { ...entry(), flags: { fuzzy: true } };
+
+			setFlag(item, "fuzzy", false);
+			setFlag(item, "range: 2..4");
+
+			expect(item.flags).to.deep.equal({ range: { min: 2, max: 4 } });
+			expect(item.comments?.flag).to.equal("range: 2..4");
+		});
+	});
+
+	describe("PO files", () => {
+		const po = `msgid ""
+msgstr "Content-Type: text/plain; charset=utf-8\\n"
+
+#, no-wrap, c-format, fuzzy
+msgid "a"
+msgstr "b"
+`;
+
+		it("should add the flags when parsing with the flags option", () => {
+			const parsed = gettextParser.po.parse(po, { flags: true });
+
+			expect(parsed.translations[""].a.flags).to.deep.equal({
+				fuzzy: true,
+				noWrap: true,
+				formats: { c: true },
+			});
+			expect(parsed.translations[""][""].flags).to.deep.equal({});
+			expect(
+				gettextParser.po.parse(po).translations[""].a,
+			).to.not.have.property("flags");
+		});
+
+		it("should compile the flags in the canonical order", () => {
+			const parsed = gettextParser.po.parse(po, { flags: true });
+
+			setFlag(parsed.translations[""].a, "fuzzy", false);
+
+			expect(gettextParser.po.compile(parsed).toString()).to.contain(
+				'#, c-format, no-wrap\nmsgid "a"',
+			);
+		});
+	});
+
+	describe("entry points", () => {
+		it("should expose the flags helpers", () => {
+			for (const { flags } of [gettextParser, browser]) {
+				expect(flags.parse).to.equal(parseFlags);
+				expect(flags.stringify).to.equal(stringifyFlags);
+				expect(flags.has).to.equal(hasFlag);
+				expect(flags.isFuzzy).to.equal(isFuzzy);
+				expect(flags.set).to.equal(setFlag);
+			}
+		});
+	});
+});
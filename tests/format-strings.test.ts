@@ -0,0 +1,244 @@
+import { readFile as fsReadFile } from "node:fs";
+import * as path from "node:path";
+import { fileURLToPath } from "node:url";
+import { promisify } from "node:util";
+import { describe, expect, it } from "vitest";
+import browser from "../src/browser.js";
+import {
+	checkFormat,
+	checkFormats,
+	parseFormatDirectives,
+} from "../src/formatStrings.js";
+import gettextParser from "../src/index.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const readFile = promisify(fsReadFile);
+
+describe("Format strings", () => {
+	describe("parseFormatDirectives", () => {
+		it("should parse the C directives", () => {
+			expect(
+				parseFormatDirectives("c", "%s: %-5ld %% %.2f")?.map(
+					({ key, type }) => [key, type],
+				),
+			).to.deep.equal([
+				["1", "string"],
+				["2", "linteger"],
+				["3", "float"],
+			]);
+		});
+
+		it("should parse the int arguments of the * widths and precisions", () => {
+			expect(
+				parseFormatDirectives("c", "%-*.*s %.*f")?.map(({ key, type }) => [
+					key,
+					type,
+				]),
+			).to.deep.equal([
+				["1", "integer"],
+				["2", "integer"],
+				["3", "string"],
+				["4", "integer"],
+				["5", "float"],
+			]);
+			expect(
+				parseFormatDirectives("c", "%1$*2$d")?.map(({ key, type }) => [
+					key,
+					type,
+				]),
+			).to.deep.equal([
+				["2", "integer"],
+				["1", "integer"],
+			]);
+			expect(
+				parseFormatDirectives("python", "%*d")?.map(({ key }) => key),
+			).to.deep.equal(["1", "2"]);
+		});
+
+		it("should parse the Python directives", () => {
+			expect(
+				parseFormatDirectives("python", "%(name)s has %d%%")?.map(
+					({ key }) => key,
+				),
+			).to.deep.equal(["name", "2"]);
+			expect(
+				parseFormatDirectives(
+					"python-brace",
+					"{} {0.attr} {name!r:>10} {{}}",
+				)?.map(({ key }) => key),
+			).to.deep.equal(["0", "0", "name"]);
+		});
+
+		it("should parse the ICU arguments", () => {
+			expect(
+				parseFormatDirectives(
+					"icu",
+					"{count, plural, one {# file} other {# files}} in '{folder}' {folder}",
+				)?.map(({ key, type }) => [key, type]),
+			).to.deep.equal([
+				["count", "plural"],
+				["folder", "any"],
+			]);
+		});
+
+		it("should return undefined for an unknown language", () => {
+			expect(parseFormatDirectives("lisp", "~a")).to.equal(undefined);
+		});
+	});
+
+	describe("checkFormat", () => {
+		it("should accept the reordered numbered directives", () => {
+			expect(
+				checkFormat({
+					msgid: "%s has %d files",
+					msgstr: ["%2$d Dateien in %1$s"],
+					comments: { flag: "c-format" },
+				}),
+			).to.deep.equal([]);
+		});
+
+		it("should report the missing and extra directives", () => {
+			expect(
+				checkFormat({
+					msgid: "%d of %d",
+					msgstr: ["%d von %d %s"],
+					comments: { flag: "c-format" },
+				}).map(({ code }) => code),
+			).to.deep.equal(["format-extra-directive"]);
+			expect(
+				checkFormat({
+					msgid: "{name} and {other}",
+					msgstr: ["{name}"],
+					comments: { flag: "python-brace-format" },
+				}).map(({ code }) => code),
+			).to.deep.equal(["format-missing-directive"]);
+		});
+
+		it("should report the translations without the * width", () => {
+			expect(
+				checkFormat({
+					msgid: "%*d items",
+					msgstr: ["%d Elemente"],
+					comments: { flag: "c-format" },
+				}).map(({ code }) => code),
+			).to.deep.equal(["format-missing-directive"]);
+			expect(
+				checkFormat({
+					msgid: "%1$*2$d items",
+					msgstr: ["%1$d Elemente"],
+					comments: { flag: "c-format" },
+				}).map(({ code }) => code),
+			).to.deep.equal(["format-missing-directive"]);
+			expect(
+				checkFormat({
+					msgid: "%*d items",
+					msgstr: ["%*d Elemente"],
+					comments: { flag: "c-format" },
+				}),
+			).to.deep.equal([]);
+		});
+
+		it("should accept the glibc I flag", () => {
+			expect(
+				checkFormat({
+					msgid: "%Id items",
+					msgstr: ["%d Elemente"],
+					comments: { flag: "c-format" },
+				}),
+			).to.deep.equal([]);
+		});
+
+		it("should report the type mismatches", () => {
+			const [diagnostic] = checkFormat({
+				msgid: "%d items",
+				msgstr: ["%s Elemente"],
+				comments: { flag: "php-format" },
+			});
+
+			expect(diagnostic).to.deep.equal({
+				code: "format-type-mismatch",
+				severity: "error",
+				message:
+					'Format string error: directive "%d" of msgid is "%s" in msgstr, php-format entry "%d items" in "" context.',
+				msgctxt: "",
+				msgid: "%d items",
+			});
+		});
+
+		it("should report the reordered directives without positions", () => {
+			expect(
+				checkFormat({
+					msgid: "%s: %d",
+					msgstr: ["%d: %s"],
+					comments: { flag: "javascript-format" },
+				}).map(({ code }) => code),
+			).to.deep.equal(["format-reordered-directive"]);
+		});
+
+		it("should only warn about the missing directives of the plural forms", () => {
+			expect(
+				checkFormat({
+					msgid: "One file",
+					msgid_plural: "%d files",
+					msgstr: ["Eine Datei", "Dateien"],
+					comments: { flag: "c-format" },
+				}).map(({ severity }) => severity),
+			).to.deep.equal(["warning"]);
+		});
+
+		it("should skip the entries without format flags, fuzzy or untranslated", () => {
+			for (const entry of [
+				{ msgid: "%d", msgstr: ["%s"] },
+				{ msgid: "%d", msgstr: ["%s"], comments: { flag: "no-c-format" } },
+				{ msgid: "%d", msgstr: ["%s"], comments: { flag: "fuzzy, c-format" } },
+				{ msgid: "%d", msgstr: [""], comments: { flag: "c-format" } },
+			]) {
+				expect(checkFormat(entry)).to.deep.equal([]);
+			}
+		});
+	});
+
+	describe("validation", () => {
+		it("should collect the format diagnostics", async () => {
+			const po = await readFile(
+				path.join(__dirname, "fixtures/format-strings.po"),
+			);
+			const parsed = gettextParser.po.parse(po, { validation: "collect" });
+
+			expect(
+				parsed.diagnostics?.map(({ code, severity, msgid, lineNumber }) => [
+					code,
+					severity,
+					msgid,
+					lineNumber,
+				]),
+			).to.deep.equal([
+				["format-missing-directive", "error", "%d of %d", 11],
+				["format-missing-directive", "error", "Hello %(name)s", 15],
+				["format-extra-directive", "error", "Hello %(name)s", 15],
+			]);
+		});
+
+		it("should throw the format errors", async () => {
+			const po = await readFile(
+				path.join(__dirname, "fixtures/format-strings.po"),
+			);
+
+			expect(
+				gettextParser.po.parse.bind(gettextParser.po, po, { validation: true }),
+			).to.throw(SyntaxError, /Format string error: directive "%d" of msgid/);
+		});
+	});
+
+	describe("entry points", () => {
+		it("should expose the format string checks", () => {
+			for (const { format } of [gettextParser, browser]) {
+				expect(format.check).to.equal(checkFormat);
+				expect(format.checkTable).to.equal(checkFormats);
+				expect(format.parseDirectives).to.equal(parseFormatDirectives);
+			}
+		});
+	});
+});
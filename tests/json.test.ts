@@ -0,0 +1,369 @@
+import { readFile as fsReadFile } from "node:fs";
+import * as path from "node:path";
+import { fileURLToPath } from "node:url";
+import { promisify } from "node:util";
+import { describe, expect, it } from "vitest";
+import gettextParser from "../src/index.js";
+import type { GetTextTranslations } from "../src/types.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const readFile = promisify(fsReadFile);
+
+const table: GetTextTranslations = {
+	charset: "utf-8",
+	headers: {
+		Language: "de",
+		"Plural-Forms": "nplurals=2; plural=(n != 1);",
+	},
+	translations: {
+		"": {
+			"": {
+				msgid: "",
+				msgstr: ["Language: de\nPlural-Forms: nplurals=2; plural=(n != 1);\n"],
+			},
+			"One file": {
+				msgid: "One file",
+				msgid_plural: "%d files",
+				msgstr: ["Eine Datei", "%d Dateien"],
+			},
+			Close: {
+				msgid: "Close",
+				msgstr: ["Schließen"],
+				comments: { flag: "fuzzy" },
+			},
+			Quit: { msgid: "Quit", msgstr: [""] },
+		},
+		menu: {
+			Open: { msgctxt: "menu", msgid: "Open", msgstr: ["Öffnen"] },
+		},
+	},
+};
+
+describe("JSON", () => {
+	describe("compile", () => {
+		it("should compile Jed 1.x", () => {
+			expect(JSON.parse(gettextParser.json.compile(table))).to.deep.equal({
+				domain: "messages",
+				locale_data: {
+					messages: {
+						"": {
+							domain: "messages",
+							lang: "de",
+							plural_forms: "nplurals=2; plural=(n != 1);",
+						},
+						"One file": ["Eine Datei", "%d Dateien"],
+						Quit: [""],
+						"menu\u0004Open": ["Öffnen"],
+					},
+				},
+			});
+		});
+
+		it("should compile Jed before 1.0", () => {
+			const { locale_data } = JSON.parse(
+				gettextParser.json.compile(table, {
+					format: "jed",
+					domain: "app",
+					useFuzzy: true,
+				}),
+			);
+
+			expect(locale_data.app["One file"]).to.deep.equal([
+				"%d files",
+				"Eine Datei",
+				"%d Dateien",
+			]);
+			expect(locale_data.app.Close).to.deep.equal([null, "Schließen"]);
+		});
+
+		it("should compile gettext.js", () => {
+			expect(
+				JSON.parse(
+					gettextParser.json.compile(table, {
+						format: "gettext.js",
+						skipUntranslated: true,
+					}),
+				),
+			).to.deep.equal({
+				"": {
+					language: "de",
+					"plural-forms": "nplurals=2; plural=(n != 1);",
+				},
+				"One file": ["Eine Datei", "%d Dateien"],
+				"menu\u0004Open": "Öffnen",
+			});
+		});
+
+		it("should throw on an unknown format", () => {
+			expect(() =>
+				gettextParser.json.compile(table, {
+					format: "i18n" as "jed",
+				}),
+			).to.throw(TypeError, 'Unknown JSON format "i18n"');
+		});
+	});
+
+	describe("parse", () => {
+		it("should parse Jed 1.x", () => {
+			const parsed = gettextParser.json.parse(
+				gettextParser.json.compile(table),
+			);
+
+			expect(parsed.headers).to.deep.equal({
+				...table.headers,
+				"Content-Type": "text/plain; charset=UTF-8",
+			});
+			expect(parsed.translations[""]["One file"]).to.deep.equal({
+				msgid: "One file",
+				msgid_plural: "One file",
+				msgstr: ["Eine Datei", "%d Dateien"],
+			});
+			expect(parsed.translations.menu.Open).to.deep.equal({
+				msgctxt: "menu",
+				msgid: "Open",
+				msgstr: ["Öffnen"],
+			});
+		});
+
+		it("should detect Jed before 1.0", () => {
+			const parsed = gettextParser.json.parse(
+				JSON.parse(gettextParser.json.compile(table, { format: "jed" })),
+			);
+
+			expect(parsed.translations[""]["One file"].msgid_plural).to.equal(
+				"%d files",
+			);
+			expect(parsed.translations[""].Quit).to.deep.equal({
+				msgid: "Quit",
+				msgstr: [""],
+			});
+		});
+
+		it("should parse gettext.js", () => {
+			const parsed = gettextParser.json.parse(
+				Buffer.from(
+					gettextParser.json.compile(table, { format: "gettext.js" }),
+				),
+			);
+
+			expect(parsed.headers).to.deep.equal({
+				...table.headers,
+				"Content-Type": "text/plain; charset=UTF-8",
+			});
+			expect(parsed.translations[""].Quit.msgstr).to.deep.equal([""]);
+			expect(parsed.translations.menu.Open.msgstr).to.deep.equal(["Öffnen"]);
+		});
+
+		it("should round trip a PO file", async () => {
+			const po = gettextParser.po.parse(
+				await readFile(path.join(__dirname, "fixtures/utf8.po")),
+			);
+			const parsed = gettextParser.json.parse(
+				gettextParser.json.compile(po, { format: "jed" }),
+			);
+
+			expect(parsed.translations.c2["co2-1"]).to.deep.equal({
+				msgctxt: "c2",
+				msgid: "co2-1",
+				msgid_plural: "co2-2",
+				msgstr: ["ct2-1", "ct2-2"],
+			});
+			expect(gettextParser.mo.compile(parsed)).to.be.instanceOf(Buffer);
+		});
+
+		it("should throw on a missing domain", () => {
+			expect(() =>
+				gettextParser.json.parse(
+					{ locale_data: { messages: {} } },
+					{ domain: "app" },
+				),
+			).to.throw(TypeError, 'locale_data has no "app" domain');
+		});
+	});
+
+	describe("i18next", () => {
+		const polish: GetTextTranslations = {
+			charset: "utf-8",
+			headers: {
+				Language: "pl",
+				"Plural-Forms":
+					"nplurals=3; plural=(n==1 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);",
+			},
+			translations: {
+				"": {
+					"app.title": { msgid: "app.title", msgstr: ["Tytuł"] },
+					"{{count}} file": {
+						msgid: "{{count}} file",
+						msgid_plural: "{{count}} files",
+						msgstr: ["{{count}} plik", "{{count}} pliki", "{{count}} plików"],
+					},
+				},
+				menu: {
+					Open: { msgctxt: "menu", msgid: "Open", msgstr: ["Otwórz"] },
+				},
+			},
+		};
+
+		it("should compile the plural suffixes and the contexts", () => {
+			expect(
+				JSON.parse(gettextParser.json.compile(polish, { format: "i18next" })),
+			).to.deep.equal({
+				"app.title": "Tytuł",
+				"{{count}} file_one": "{{count}} plik",
+				"{{count}} file_few": "{{count}} pliki",
+				"{{count}} file_many": "{{count}} plików",
+				Open_menu: "Otwórz",
+			});
+		});
+
+		it("should read the language of the POSIX locale names", () => {
+			for (const Language of ["pl_PL.UTF-8", "pl_PL.UTF-8@euro", "pl@latin"]) {
+				expect(
+					JSON.parse(
+						gettextParser.json.compile(
+							{ ...polish, headers: { ...polish.headers, Language } },
+							{ format: "i18next" },
+						),
+					),
+				).to.have.property("{{count}} file_many", "{{count}} plików");
+			}
+		});
+
+		it("should throw a plural forms error on an invalid language", () => {
+			expect(() =>
+				gettextParser.json.compile(
+					{ ...polish, headers: { ...polish.headers, Language: "not a tag" } },
+					{ format: "i18next" },
+				),
+			).to.throw(
+				RangeError,
+				'Plural forms error: invalid language "not a tag"',
+			);
+		});
+
+		it("should not read the language without plural entries", () => {
+			expect(
+				JSON.parse(
+					gettextParser.json.compile(
+						{
+							...polish,
+							headers: { Language: "not a tag" },
+							translations: { menu: polish.translations.menu },
+						},
+						{ format: "i18next" },
+					),
+				),
+			).to.deep.equal({ Open_menu: "Otwórz" });
+		});
+
+		it("should skip the untranslated entries by default", () => {
+			const table: GetTextTranslations = {
+				...polish,
+				translations: {
+					"": {
+						Hello: { msgid: "Hello", msgstr: ["Cześć"] },
+						Bye: { msgid: "Bye", msgstr: [""] },
+					},
+				},
+			};
+
+			expect(
+				JSON.parse(gettextParser.json.compile(table, { format: "i18next" })),
+			).to.deep.equal({ Hello: "Cześć" });
+			expect(
+				JSON.parse(
+					gettextParser.json.compile(table, {
+						format: "i18next",
+						skipUntranslated: false,
+					}),
+				),
+			).to.deep.equal({ Hello: "Cześć", Bye: "" });
+		});
+
+		it("should compile nested keys and namespaces", () => {
+			const resources = JSON.parse(
+				gettextParser.json.compile(polish, {
+					format: "i18next",
+					keySeparator: ".",
+					context: "namespace",
+					namespace: "common",
+				}),
+			);
+
+			expect(resources.common.app).to.deep.equal({ title: "Tytuł" });
+			expect(resources.menu).to.deep.equal({ Open: "Otwórz" });
+		});
+
+		it("should throw on the conflicting nested keys", () => {
+			expect(() =>
+				gettextParser.json.compile(
+					{
+						charset: "utf-8",
+						translations: {
+							"": {
+								a: { msgid: "a", msgstr: ["A"] },
+								"a.b": { msgid: "a.b", msgstr: ["B"] },
+							},
+						},
+					},
+					{ format: "i18next", keySeparator: "." },
+				),
+			).to.throw(TypeError, 'i18next key conflict: "a.b"');
+		});
+
+		it("should parse the plural suffixes into PO plural arrays", () => {
+			const parsed = gettextParser.json.parse(
+				{
+					common: {
+						app: { title: "Tytuł" },
+						"{{count}} file_many": "{{count}} plików",
+						"{{count}} file_one": "{{count}} plik",
+					},
+					menu: { Open: "Otwórz" },
+				},
+				{
+					format: "i18next",
+					language: "pl",
+					pluralForms: polish.headers?.["Plural-Forms"],
+					context: "namespace",
+					namespace: "common",
+				},
+			);
+
+			expect(parsed.headers).to.deep.equal({
+				...polish.headers,
+				"Content-Type": "text/plain; charset=UTF-8",
+			});
+			expect(parsed.translations[""]["app.title"]).to.deep.equal({
+				msgid: "app.title",
+				msgstr: ["Tytuł"],
+			});
+			expect(parsed.translations[""]["{{count}} file"]).to.deep.equal({
+				msgid: "{{count}} file",
+				msgid_plural: "{{count}} file",
+				msgstr: ["{{count}} plik", "", "{{count}} plików"],
+			});
+			expect(parsed.translations.menu.Open.msgstr).to.deep.equal(["Otwórz"]);
+		});
+
+		it("should round trip through the PO compiler", () => {
+			const parsed = gettextParser.json.parse(
+				gettextParser.json.compile(polish, { format: "i18next" }),
+				{
+					format: "i18next",
+					language: "pl",
+					pluralForms: polish.headers?.["Plural-Forms"],
+				},
+			);
+			const po = gettextParser.po.parse(gettextParser.po.compile(parsed), {
+				validation: true,
+			});
+
+			expect(po.translations[""]["{{count}} file"].msgstr).to.deep.equal(
+				polish.translations[""]["{{count}} file"].msgstr,
+			);
+		});
+	});
+});
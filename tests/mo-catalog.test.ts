@@ -0,0 +1,89 @@
+import { readFile as fsReadFile } from "node:fs";
+import * as path from "node:path";
+import { fileURLToPath } from "node:url";
+import { promisify } from "node:util";
+import { describe, expect, it } from "vitest";
+import gettextParser from "../src/index.js";
+import type { GetTextTranslations } from "../src/types.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const readFile = promisify(fsReadFile);
+
+describe("MO Catalog", () => {
+	for (const name of ["utf8", "latin13", "utf8-no-hash"]) {
+		describe(name, () => {
+			it("should lookup every translation", async () => {
+				const [moData, json] = await Promise.all([
+					readFile(path.join(__dirname, `fixtures/${name}.mo`)),
+					readFile(
+						path.join(__dirname, `fixtures/${name.split("-")[0]}-mo.json`),
+						"utf8",
+					),
+				]);
+
+				const table: GetTextTranslations = JSON.parse(json);
+				const catalog = gettextParser.mo.createCatalog(moData);
+
+				if (!catalog) {
+					throw new Error("Invalid MO object");
+				}
+
+				expect(catalog.charset).to.equal(table.charset);
+				expect(catalog.headers).to.deep.equal(table.headers);
+
+				for (const msgctxt of Object.keys(table.translations)) {
+					for (const msgid of Object.keys(table.translations[msgctxt])) {
+						const { msgstr } = table.translations[msgctxt][msgid];
+
+						expect(catalog.get(msgctxt, msgid)).to.equal(msgstr[0]);
+						expect(catalog.getPlural(msgctxt, msgid)).to.deep.equal(msgstr);
+					}
+				}
+
+				expect(catalog.get("", "missing")).to.equal(undefined);
+				expect(catalog.get("missing", "o1")).to.equal(undefined);
+			});
+		});
+	}
+
+	it("should lookup with and without the hash table", () => {
+		const translations: GetTextTranslations["translations"] = { "": {} };
+
+		for (let i = 0; i < 500; i++) {
+			translations[""][`message ${i}`] = {
+				msgid: `message ${i}`,
+				msgid_plural: `messages ${i}`,
+				msgstr: [`viesti ${i}`, `viestit ${i}`],
+			};
+		}
+
+		for (const hashTable of [true, false]) {
+			const catalog = gettextParser.mo.createCatalog(
+				gettextParser.mo.compile(
+					{ charset: "utf-8", translations: { ...translations } },
+					{ hashTable },
+				),
+			);
+
+			if (!catalog) {
+				throw new Error("Invalid MO object");
+			}
+
+			for (let i = 0; i < 500; i++) {
+				expect(catalog.get("", `message ${i}`)).to.equal(`viesti ${i}`);
+				expect(catalog.getPlural("", `message ${i}`)).to.deep.equal([
+					`viesti ${i}`,
+					`viestit ${i}`,
+				]);
+			}
+
+			expect(catalog.get("", "messages 1")).to.equal(undefined);
+		}
+	});
+
+	it("should return false for invalid input", () => {
+		expect(gettextParser.mo.createCatalog(Buffer.alloc(28))).to.equal(false);
+	});
+});
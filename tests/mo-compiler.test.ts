@@ -4,6 +4,11 @@ import { fileURLToPath } from "node:url";
 import { promisify } from "node:util";
 import { describe, expect, it } from "vitest";
 import gettextParser from "../src/index.js";
+import { hashString } from "../src/shared.js";
+import type {
+	GetTextTranslations,
+	moCompilerStatistics,
+} from "../src/types.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -22,6 +27,255 @@ describe("MO Compiler", () => {
 
 			expect(compiled.toString("utf8")).to.deep.equal(moData.toString("utf8"));
 		});
+
+		it("should compile without the hash table", async () => {
+			const [json, moData] = await Promise.all([
+				readFile(path.join(__dirname, "fixtures/utf8-po.json"), "utf8"),
+				readFile(path.join(__dirname, "fixtures/utf8-no-hash.mo")),
+			]);
+
+			const compiled = gettextParser.mo.compile(JSON.parse(json), {
+				hashTable: false,
+			});
+
+			expect(compiled.readUInt32LE(20)).to.equal(0);
+			expect(compiled.equals(moData)).to.equal(true);
+		});
+	});
+
+	describe("Hash table", () => {
+		it("should size the hash table like msgfmt", () => {
+			const compiled = gettextParser.mo.compile({
+				charset: "utf-8",
+				translations: {
+					"": {
+						"My name is %s.\n": {
+							msgid: "My name is %s.\n",
+							msgstr: ["Je m'appelle %s.\n"],
+						},
+					},
+				},
+			});
+
+			// two strings (header included) give a table of 5 slots
+			expect(compiled.readUInt32LE(20)).to.equal(5);
+			expect(compiled.readUInt32LE(24)).to.equal(28 + 2 * 16);
+
+			const hashTable = [0, 1, 2, 3, 4].map((i) =>
+				compiled.readUInt32LE(60 + i * 4),
+			);
+
+			expect(hashTable).to.deep.equal([1, 0, 0, 0, 2]);
+		});
+
+		// msgfmt-fr.mo was compiled from msgfmt-fr.po by GNU msgfmt (`msgfmt -o fr.mo fr.po`),
+		// it is the expected output of the grunt-po2mo 0.1.2 tests. The msgfmt version was
+		// not recorded, it predates https://savannah.gnu.org/bugs/?49654 and keeps the
+		// POT-Creation-Date header that the current msgfmt releases and this compiler drop
+		describe("GNU msgfmt output", () => {
+			const potCreationDate = "POT-Creation-Date: \n";
+
+			/**
+			 * Removes a line of the header string, the offsets of the strings after it are moved
+			 */
+			function removeHeaderLine(mo: Buffer, line: string): Buffer {
+				const start = mo.indexOf(line);
+				const result = Buffer.concat([
+					mo.subarray(0, start),
+					mo.subarray(start + line.length),
+				]);
+
+				for (const table of [mo.readUInt32LE(12), mo.readUInt32LE(16)]) {
+					for (let i = 0; i < mo.readUInt32LE(8); i++) {
+						const length = result.readUInt32LE(table + i * 8);
+						const offset = result.readUInt32LE(table + i * 8 + 4);
+
+						if (offset > start) {
+							result.writeUInt32LE(offset - line.length, table + i * 8 + 4);
+						} else if (offset + length > start) {
+							result.writeUInt32LE(length - line.length, table + i * 8);
+						}
+					}
+				}
+
+				return result;
+			}
+
+			it("should write the same bytes as msgfmt", async () => {
+				const [po, moData] = await Promise.all([
+					readFile(path.join(__dirname, "fixtures/msgfmt-fr.po")),
+					readFile(path.join(__dirname, "fixtures/msgfmt-fr.mo")),
+				]);
+
+				const compiled = gettextParser.mo.compile(gettextParser.po.parse(po));
+
+				// the header, the table of the msgids and the hash table are unchanged
+				expect(
+					compiled.subarray(0, 44).equals(moData.subarray(0, 44)),
+				).to.equal(true);
+				expect(
+					compiled.subarray(60, 80).equals(moData.subarray(60, 80)),
+				).to.equal(true);
+				expect(
+					compiled.equals(removeHeaderLine(moData, potCreationDate)),
+				).to.equal(true);
+			});
+		});
+	});
+
+	describe("Byte order and revision", () => {
+		it("should compile big-endian MO objects", async () => {
+			const json = await readFile(
+				path.join(__dirname, "fixtures/utf8-po.json"),
+				"utf8",
+			);
+			const little = gettextParser.mo.compile(JSON.parse(json));
+			const big = gettextParser.mo.compile(JSON.parse(json), {
+				endianness: "be",
+			});
+
+			expect([...big.subarray(0, 4)]).to.deep.equal([0x95, 0x04, 0x12, 0xde]);
+			expect(big.length).to.equal(little.length);
+			expect(big.readUInt32BE(20)).to.equal(little.readUInt32LE(20));
+			expect(gettextParser.mo.parse(big)).to.deep.equal(
+				gettextParser.mo.parse(little),
+			);
+		});
+
+		it("should compile the revision 1 header", async () => {
+			const json = await readFile(
+				path.join(__dirname, "fixtures/utf8-po.json"),
+				"utf8",
+			);
+			const expected = gettextParser.mo.parse(
+				gettextParser.mo.compile(JSON.parse(json)),
+			);
+
+			for (const endianness of ["le", "be"] as const) {
+				const compiled = gettextParser.mo.compile(JSON.parse(json), {
+					endianness,
+					revision: 1,
+				});
+				const read = (offset: number) =>
+					endianness === "be"
+						? compiled.readUInt32BE(offset)
+						: compiled.readUInt32LE(offset);
+
+				expect(read(4)).to.equal(1);
+				expect(read(12)).to.equal(48);
+				// no system dependent segments and strings
+				expect(read(28)).to.equal(0);
+				expect(read(36)).to.equal(0);
+				expect(gettextParser.mo.parse(compiled)).to.deep.equal(expected);
+				expect(
+					gettextParser.mo.createCatalog(compiled)?.get("", "o1"),
+				).to.equal("t1");
+			}
+		});
+
+		it("should throw on an unknown byte order or revision", () => {
+			const table = { charset: "utf-8", translations: {} };
+
+			expect(() =>
+				gettextParser.mo.compile(table, {
+					endianness: "pdp" as unknown as "le",
+				}),
+			).to.throw(TypeError, 'Unknown MO endianness "pdp"');
+			expect(() => gettextParser.mo.compile(table, { revision: 2 })).to.throw(
+				TypeError,
+				"Unsupported MO revision 2",
+			);
+		});
+	});
+
+	describe("System dependent strings", () => {
+		const sysdepTable = (): GetTextTranslations => ({
+			charset: "utf-8",
+			headers: { "Content-Type": "text/plain; charset=utf-8" },
+			translations: {
+				"": {
+					"": {
+						msgid: "",
+						msgstr: ["Content-Type: text/plain; charset=utf-8\n"],
+					},
+					"Value %<PRId64>\n": {
+						msgid: "Value %<PRId64>\n",
+						msgstr: ["Wert %<PRId64>\n"],
+					},
+					"%<PRIu32> file of %5<PRIu64>": {
+						msgid: "%<PRIu32> file of %5<PRIu64>",
+						msgid_plural: "%<PRIu32> files of %5<PRIu64>",
+						msgstr: ["%<PRIu32> Datei von %5<PRIu64>", ""],
+					},
+					o1: { msgid: "o1", msgstr: ["t1"] },
+				},
+			},
+		});
+
+		it("should write the system dependent string tables", () => {
+			const compiled = gettextParser.mo.compile(sysdepTable());
+			const read = (offset: number) => compiled.readUInt32LE(offset);
+			const string = (offset: number) =>
+				compiled.subarray(read(offset + 4), read(offset + 4) + read(offset));
+
+			// revision 1 is used for the system dependent strings
+			expect(read(4)).to.equal(1);
+			expect(read(8)).to.equal(2);
+			expect(read(28)).to.equal(3);
+			expect(read(36)).to.equal(2);
+			expect(
+				[0, 1, 2].map((i) => string(read(32) + i * 8).toString()),
+			).to.deep.equal(["PRIu32\0", "PRIu64\0", "PRId64\0"]);
+
+			// the static parts and the segment references of "Value %<PRId64>\n"
+			const struct = read(read(40) + 4);
+
+			expect(
+				compiled.subarray(read(struct), read(struct) + 9).toString(),
+			).to.equal("Value %\n\0");
+			expect([1, 2, 3, 4].map((i) => read(struct + i * 4))).to.deep.equal([
+				7, 2, 2, 0xffffffff,
+			]);
+		});
+
+		it("should add the strings expanded for the platform to the hash table", () => {
+			const compiled = gettextParser.mo.compile(sysdepTable(), {
+				platform: "ilp32",
+			});
+			const size = compiled.readUInt32LE(20);
+			const hashTable = [...Array(size)].map((_, i) =>
+				compiled.readUInt32LE(compiled.readUInt32LE(24) + i * 4),
+			);
+			const hashValue = hashString(Buffer.from("Value %lld\n"));
+			let slot = hashValue % size;
+
+			// the second system dependent string follows the 2 static strings
+			while (hashTable[slot] && hashTable[slot] !== 4) {
+				slot = (slot + 1 + (hashValue % (size - 2))) % size;
+			}
+
+			expect(hashTable.filter(Boolean)).to.have.lengthOf(4);
+			expect(hashTable[slot]).to.equal(4);
+		});
+
+		it("should parse the system dependent strings back", () => {
+			for (const endianness of ["le", "be"] as const) {
+				const parsed = gettextParser.mo.parse(
+					gettextParser.mo.compile(sysdepTable(), { endianness }),
+				);
+
+				expect(parsed?.translations).to.deep.equal(sysdepTable().translations);
+			}
+		});
+
+		it("should throw on revision 0", () => {
+			expect(() =>
+				gettextParser.mo.compile(sysdepTable(), { revision: 0 }),
+			).to.throw(
+				TypeError,
+				"MO revision 0 can't hold the system dependent strings",
+			);
+		});
 	});
 
 	describe("Latin-13", () => {
@@ -36,4 +290,63 @@ describe("MO Compiler", () => {
 			expect(compiled.toString("utf8")).to.equal(moData.toString("utf8"));
 		});
 	});
+
+	describe("Fuzzy entries", () => {
+		const table = () => ({
+			charset: "utf-8",
+			headers: { "Content-Type": "text/plain; charset=utf-8" },
+			translations: {
+				"": {
+					"": {
+						msgid: "",
+						msgstr: ["Content-Type: text/plain; charset=utf-8\n"],
+						comments: { flag: "fuzzy" },
+					},
+					o1: { msgid: "o1", msgstr: ["t1"] },
+					o2: {
+						msgid: "o2",
+						msgstr: ["t2"],
+						comments: { flag: "c-format, fuzzy" },
+					},
+					o3: { msgid: "o3", msgstr: [""] },
+				},
+			},
+		});
+
+		it("should skip the fuzzy entries and keep the header", () => {
+			let statistics: moCompilerStatistics | undefined;
+			const compiled = gettextParser.mo.compile(table(), {
+				onStatistics: (result) => {
+					statistics = result;
+				},
+			});
+			const parsed = gettextParser.mo.parse(compiled) as GetTextTranslations;
+
+			expect(Object.keys(parsed.translations[""])).to.deep.equal(["", "o1"]);
+			expect(parsed.headers?.["Content-Type"]).to.equal(
+				"text/plain; charset=utf-8",
+			);
+			expect(statistics).to.deep.equal({
+				translated: 1,
+				skipped: { fuzzy: 1, untranslated: 1 },
+			});
+		});
+
+		it("should include the fuzzy entries with useFuzzy", () => {
+			let statistics: moCompilerStatistics | undefined;
+			const compiled = gettextParser.mo.compile(table(), {
+				useFuzzy: true,
+				onStatistics: (result) => {
+					statistics = result;
+				},
+			});
+			const parsed = gettextParser.mo.parse(compiled) as GetTextTranslations;
+
+			expect(parsed.translations[""].o2.msgstr).to.deep.equal(["t2"]);
+			expect(statistics).to.deep.equal({
+				translated: 2,
+				skipped: { fuzzy: 0, untranslated: 1 },
+			});
+		});
+	});
 });
@@ -10,6 +10,80 @@ const __dirname = path.dirname(__filename);
 
 const readFile = promisify(fsReadFile);
 
+/**
+ * Builds a little-endian revision 1 MO object with the header as only static
+ * string. The system dependent strings are their static parts with the segment
+ * indexes in between
+ */
+function buildSysdepMo(
+	header: string,
+	segments: string[],
+	strings: [(string | number)[], (string | number)[]][],
+): Buffer {
+	const buffer = Buffer.alloc(1024);
+	const structs = strings.flat();
+	const segmentTable = 64;
+	const origTable = segmentTable + segments.length * 8;
+	const transTable = origTable + strings.length * 4;
+	let position = transTable + strings.length * 4;
+	const structOffsets = structs.map((parts) => {
+		const offset = position;
+
+		position += 4 + 4 * (parts.length + 1);
+
+		return offset;
+	});
+	const writeString = (str: string) => {
+		const offset = position;
+
+		position += buffer.write(`${str}\0`, position);
+
+		return offset;
+	};
+
+	[0x950412de, 1, 1, 48, 56, 0, 64, segments.length, segmentTable].forEach(
+		(value, i) => buffer.writeUInt32LE(value, i * 4),
+	);
+	[strings.length, origTable, transTable].forEach((value, i) =>
+		buffer.writeUInt32LE(value, 36 + i * 4),
+	);
+	buffer.writeUInt32LE(0, 48);
+	buffer.writeUInt32LE(writeString(""), 52);
+	buffer.writeUInt32LE(header.length, 56);
+	buffer.writeUInt32LE(writeString(header), 60);
+
+	segments.forEach((name, i) => {
+		buffer.writeUInt32LE(name.length + 1, segmentTable + i * 8);
+		buffer.writeUInt32LE(writeString(name), segmentTable + i * 8 + 4);
+	});
+
+	structs.forEach((parts, i) => {
+		const table = i % 2 ? transTable : origTable;
+
+		buffer.writeUInt32LE(structOffsets[i], table + Math.floor(i / 2) * 4);
+		buffer.writeUInt32LE(position, structOffsets[i]);
+
+		for (let k = 0; k < parts.length; k += 2) {
+			const last = k === parts.length - 1;
+			const part = parts[k] as string;
+
+			buffer.writeUInt32LE(
+				part.length + (last ? 1 : 0),
+				structOffsets[i] + 4 + k * 4,
+			);
+			buffer.writeUInt32LE(
+				last ? 0xffffffff : (parts[k + 1] as number),
+				structOffsets[i] + 8 + k * 4,
+			);
+			position += buffer.write(part, position);
+		}
+
+		position += 1;
+	});
+
+	return buffer.subarray(0, position);
+}
+
 describe("MO Parser", () => {
 	describe("UTF-8", () => {
 		it("should parse", async () => {
@@ -36,4 +110,65 @@ describe("MO Parser", () => {
 			expect(parsed).to.deep.equal(JSON.parse(json));
 		});
 	});
+
+	describe("System dependent strings", () => {
+		const mo = buildSysdepMo(
+			"Content-Type: text/plain; charset=UTF-8\n",
+			["PRId64", "I"],
+			[
+				[
+					["Value %", 0, "\n"],
+					["Wert %", 0, "\n"],
+				],
+				[
+					["%", 1, "d apples"],
+					["%", 1, "d Äpfel"],
+				],
+			],
+		);
+
+		it("should keep the PO notation of the segments", () => {
+			const parsed = gettextParser.mo.parse(mo);
+
+			expect(parsed?.translations[""]).to.deep.include({
+				"Value %<PRId64>\n": {
+					msgid: "Value %<PRId64>\n",
+					msgstr: ["Wert %<PRId64>\n"],
+				},
+				"%Id apples": { msgid: "%Id apples", msgstr: ["%Id Äpfel"] },
+			});
+		});
+
+		it("should expand the segments for a platform", () => {
+			const expand = (options: Parameters<typeof gettextParser.mo.parse>[2]) =>
+				Object.keys(
+					(
+						gettextParser.mo.parse(mo, undefined, options) || {
+							translations: { "": {} },
+						}
+					).translations[""],
+				);
+
+			expect(expand({ platform: "lp64" })).to.deep.equal([
+				"",
+				"Value %ld\n",
+				"%Id apples",
+			]);
+			expect(expand({ platform: "ilp32" })).to.deep.equal([
+				"",
+				"Value %lld\n",
+				"%Id apples",
+			]);
+			expect(expand({ platform: "llp64" })).to.deep.equal([
+				"",
+				"Value %lld\n",
+				"%d apples",
+			]);
+			// the strings with an unknown segment are left out
+			expect(expand({ platform: { PRId64: "I64d" } })).to.deep.equal([
+				"",
+				"Value %I64d\n",
+			]);
+		});
+	});
 });
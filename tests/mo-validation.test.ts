@@ -0,0 +1,217 @@
+import { readFile as fsReadFile } from "node:fs";
+import * as path from "node:path";
+import { fileURLToPath } from "node:url";
+import { promisify } from "node:util";
+import { describe, expect, it } from "vitest";
+import gettextParser from "../src/index.js";
+import type {
+	GetTextTranslations,
+	MoValidationError,
+	moCompilerOptions,
+} from "../src/types.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const readFile = promisify(fsReadFile);
+
+/**
+ * Compiles a small table, the originals are "", "o1", "o2" and "o3"
+ */
+function compile(options?: moCompilerOptions): Buffer {
+	const table: GetTextTranslations = {
+		charset: "utf-8",
+		headers: { "Content-Type": "text/plain; charset=utf-8" },
+		translations: {
+			"": {
+				"": {
+					msgid: "",
+					msgstr: ["Content-Type: text/plain; charset=utf-8\n"],
+				},
+				o1: { msgid: "o1", msgstr: ["t1"] },
+				o2: { msgid: "o2", msgstr: ["t2"] },
+				"o3 %<PRId64>": { msgid: "o3 %<PRId64>", msgstr: ["t3 %<PRId64>"] },
+			},
+		},
+	};
+
+	return gettextParser.mo.compile(table, options);
+}
+
+describe("MO validation", () => {
+	for (const name of ["utf8", "latin13", "utf8-no-hash", "obsolete"]) {
+		it(`should accept the ${name} fixture`, async () => {
+			const moData = await readFile(
+				path.join(__dirname, `fixtures/${name}.mo`),
+			);
+
+			expect(gettextParser.mo.validate(moData)).to.deep.equal([]);
+		});
+	}
+
+	it("should accept the compiled MO objects", () => {
+		expect(gettextParser.mo.validate(compile())).to.deep.equal([]);
+		expect(
+			gettextParser.mo.validate(compile({ endianness: "be" })),
+		).to.deep.equal([]);
+		expect(
+			gettextParser.mo.validate(compile({ hashTable: false })),
+		).to.deep.equal([]);
+	});
+
+	it("should reject a truncated header", () => {
+		expect(gettextParser.mo.validate(Buffer.alloc(0))).to.deep.equal([
+			{
+				code: "header-size",
+				message: "The MO header needs 28 bytes, the file has 0",
+				offset: 0,
+			},
+		]);
+		expect(
+			gettextParser.mo.validate(compile().subarray(0, 40))[0].code,
+		).to.equal("header-size");
+	});
+
+	it("should reject an unknown magic number or revision", () => {
+		const mo = compile();
+
+		expect(gettextParser.mo.validate(Buffer.alloc(28))[0].code).to.equal(
+			"magic",
+		);
+
+		mo.writeUInt32LE(0x10000, 4);
+
+		expect(gettextParser.mo.validate(mo)).to.deep.equal([
+			{ code: "revision", message: "Unsupported MO revision 1.0", offset: 4 },
+		]);
+	});
+
+	it("should reject a table out of bounds", () => {
+		const mo = compile();
+
+		mo.writeUInt32LE(mo.length - 8, 16);
+
+		expect(gettextParser.mo.validate(mo)).to.deep.equal([
+			{
+				code: "table-bounds",
+				message: `The translations table of 3 entries at offset ${
+					mo.length - 8
+				} exceeds the file size ${mo.length}`,
+				offset: 16,
+			},
+		]);
+	});
+
+	it("should reject a string out of bounds", () => {
+		const mo = compile();
+		const entry = mo.readUInt32LE(16) + 8;
+
+		mo.writeUInt32LE(mo.length, entry + 4);
+
+		expect(gettextParser.mo.validate(mo)).to.deep.equal([
+			{
+				code: "string-bounds",
+				message: `The translation string 1 of 2 bytes at offset ${mo.length} exceeds the file size ${mo.length}`,
+				offset: entry,
+			},
+		]);
+	});
+
+	it("should reject a string without NUL terminator", () => {
+		const mo = compile();
+		const entry = mo.readUInt32LE(16) + 8;
+		const end = mo.readUInt32LE(entry + 4) + mo.readUInt32LE(entry);
+
+		mo[end] = 0x21;
+
+		expect(gettextParser.mo.validate(mo)).to.deep.equal([
+			{
+				code: "missing-nul",
+				message: `The translation string 1 is not terminated by a NUL byte at offset ${end}`,
+				offset: end,
+			},
+		]);
+	});
+
+	it("should reject unsorted originals", () => {
+		const mo = compile({ hashTable: false });
+		const entry = mo.readUInt32LE(12) + 8;
+		const first = mo.subarray(entry, entry + 8);
+		const second = Buffer.from(mo.subarray(entry + 8, entry + 16));
+
+		first.copy(mo, entry + 8);
+		second.copy(mo, entry);
+
+		expect(gettextParser.mo.validate(mo)).to.deep.equal([
+			{
+				code: "sort-order",
+				message: "The original string 2 is not sorted after the previous one",
+				offset: entry + 8,
+			},
+		]);
+	});
+
+	it("should reject an inconsistent hash table", () => {
+		const mo = compile();
+		const offset = mo.readUInt32LE(24);
+		const slots = [...Array(mo.readUInt32LE(20)).keys()].map((slot) =>
+			mo.readUInt32LE(offset + slot * 4),
+		);
+		const empty = slots.indexOf(0);
+		const used = slots.indexOf(2);
+
+		mo.writeUInt32LE(5, offset + empty * 4);
+		mo.writeUInt32LE(0, offset + used * 4);
+
+		expect(gettextParser.mo.validate(mo)).to.deep.equal([
+			{
+				code: "hash-table",
+				message: `The hash table slot ${empty} refers to the string 5, the file has 4`,
+				offset: offset + empty * 4,
+			},
+			{
+				code: "hash-table",
+				message: "The original string 1 is not found in the hash table",
+				offset: mo.readUInt32LE(12) + 8,
+			},
+		]);
+	});
+
+	it("should reject an unknown segment of a system dependent string", () => {
+		const mo = compile();
+		const struct = mo.readUInt32LE(mo.readUInt32LE(40));
+
+		mo.writeUInt32LE(7, struct + 8);
+
+		expect(gettextParser.mo.validate(mo)).to.deep.equal([
+			{
+				code: "sysdep-segment",
+				message:
+					"The original system dependent string 0 refers to the segment 7, the file has 1",
+				offset: struct + 8,
+			},
+		]);
+	});
+
+	it("should throw on the first problem when parsing with validation", () => {
+		const mo = compile();
+
+		mo.writeUInt32LE(mo.length, 12);
+
+		let error: MoValidationError | undefined;
+
+		try {
+			gettextParser.mo.parse(mo, undefined, { validation: true });
+		} catch (err) {
+			error = err as MoValidationError;
+		}
+
+		expect(error).to.be.instanceOf(SyntaxError);
+		expect(error?.code).to.equal("table-bounds");
+		expect(error?.offset).to.equal(12);
+		expect(error?.message).to.match(/^Invalid MO file: The originals table/);
+		expect(
+			gettextParser.mo.parse(compile(), undefined, { validation: true }),
+		).to.not.equal(false);
+	});
+});
@@ -8,5 +8,10 @@ describe("esm module", () => {
 		expect(po.compile).to.be.a("function");
 		expect(mo.parse).to.be.a("function");
 		expect(mo.compile).to.be.a("function");
+		expect(esm.plural.compile).to.be.a("function");
+		expect(esm.Translator).to.be.a("function");
+		expect(esm.flags.isFuzzy).to.be.a("function");
+		expect(esm.format.check).to.be.a("function");
+		expect(esm.stats).to.be.a("function");
 	});
 });
@@ -0,0 +1,168 @@
+import { describe, expect, it } from "vitest";
+import browser from "../src/browser.js";
+import gettextParser from "../src/index.js";
+import {
+	compilePluralExpression,
+	getPluralCategories,
+} from "../src/pluralForms.js";
+import { parsePluralFromHeaders } from "../src/shared.js";
+
+describe("Plural forms", () => {
+	describe("compilePluralExpression", () => {
+		it("should evaluate germanic and romanic plurals", () => {
+			const english = compilePluralExpression("(n != 1)");
+			const french = compilePluralExpression("n>1");
+
+			expect([0, 1, 2, 5].map(english)).to.deep.equal([1, 0, 1, 1]);
+			expect([0, 1, 2, 5].map(french)).to.deep.equal([0, 0, 1, 1]);
+		});
+
+		it("should evaluate nested ternaries", () => {
+			const russian = compilePluralExpression(
+				"(n%10==1 && n%100!=11 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2)",
+			);
+
+			expect([1, 2, 5, 11, 21, 22, 25, 111, 112].map(russian)).to.deep.equal([
+				0, 1, 2, 2, 0, 1, 2, 2, 2,
+			]);
+
+			const arabic = compilePluralExpression(
+				"n==0 ? 0 : n==1 ? 1 : n==2 ? 2 : n%100>=3 && n%100<=10 ? 3 : n%100>=11 ? 4 : 5",
+			);
+
+			expect([0, 1, 2, 3, 11, 100, 102].map(arabic)).to.deep.equal([
+				0, 1, 2, 3, 4, 5, 5,
+			]);
+		});
+
+		it("should evaluate boolean expressions as indexes", () => {
+			const slovenian = compilePluralExpression(
+				"(n%100==1 ? 0 : n%100==2 ? 1 : n%100==3 || n%100==4 ? 2 : 3)",
+			);
+
+			expect([1, 2, 3, 4, 5, 101].map(slovenian)).to.deep.equal([
+				0, 1, 2, 2, 3, 0,
+			]);
+			expect(compilePluralExpression("!(n == 1)")(1)).to.equal(0);
+			expect(compilePluralExpression("0")(42)).to.equal(0);
+		});
+
+		it("should reject malformed expressions", () => {
+			expect(() => compilePluralExpression("")).to.throw(
+				SyntaxError,
+				/Plural expression error: Empty expression/,
+			);
+			expect(() => compilePluralExpression("n != 1 ?")).to.throw(
+				SyntaxError,
+				/Unexpected end of expression/,
+			);
+			expect(() => compilePluralExpression("(n > 1")).to.throw(
+				SyntaxError,
+				/Expected "\)"/,
+			);
+			expect(() => compilePluralExpression("n == 1 1")).to.throw(
+				SyntaxError,
+				/Unexpected "1" at position 7/,
+			);
+			expect(() => compilePluralExpression("alert(1)")).to.throw(
+				SyntaxError,
+				/Unexpected character "a" at position 0/,
+			);
+		});
+	});
+
+	describe("parsePluralFromHeaders", () => {
+		it("should parse the plural expression from the header", () => {
+			const plural = parsePluralFromHeaders({
+				"Plural-Forms": "nplurals=3; plural=(n==1 ? 0 : n>=2 && n<=4 ? 1 : 2);",
+			});
+
+			expect([1, 3, 5].map(plural)).to.deep.equal([0, 1, 2]);
+		});
+
+		it("should fallback to the germanic plural", () => {
+			const plural = parsePluralFromHeaders({});
+
+			expect([0, 1, 2].map(plural)).to.deep.equal([1, 0, 1]);
+		});
+	});
+
+	describe("getPluralCategories", () => {
+		it("should match the plural forms with the CLDR categories", () => {
+			expect(
+				getPluralCategories("en", compilePluralExpression("n != 1"), 2),
+			).to.deep.equal(["one", "other"]);
+			expect(
+				getPluralCategories(
+					"pl",
+					compilePluralExpression(
+						"(n==1 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2)",
+					),
+					3,
+				),
+			).to.deep.equal(["one", "few", "many"]);
+			expect(
+				getPluralCategories("pt_BR", compilePluralExpression("n > 1"), 2),
+			).to.deep.equal(["one", "other"]);
+		});
+
+		it("should list the integer categories without a plural expression", () => {
+			expect(getPluralCategories("ar")).to.deep.equal([
+				"zero",
+				"one",
+				"two",
+				"few",
+				"many",
+				"other",
+			]);
+			expect(getPluralCategories("ja")).to.deep.equal(["other"]);
+		});
+
+		it("should read the codeset and modifier of the POSIX locale names", () => {
+			const plural = compilePluralExpression("n != 1");
+
+			expect(getPluralCategories("en_US.UTF-8", plural, 2)).to.deep.equal([
+				"one",
+				"other",
+			]);
+			expect(getPluralCategories("sr_RS.UTF-8@latin")).to.deep.equal(
+				getPluralCategories("sr-RS"),
+			);
+			expect(getPluralCategories("C", plural, 2)).to.deep.equal([
+				"one",
+				"other",
+			]);
+		});
+
+		it("should throw on an invalid language", () => {
+			expect(() => getPluralCategories("en US")).to.throw(
+				RangeError,
+				'Plural forms error: invalid language "en US".',
+			);
+		});
+
+		it("should throw if the plural forms can't be matched", () => {
+			expect(() =>
+				getPluralCategories(
+					"ja",
+					compilePluralExpression("n==1 ? 0 : n==2 ? 1 : 2"),
+					3,
+				),
+			).to.throw(RangeError, "Plural forms error");
+		});
+	});
+
+	describe("entry points", () => {
+		it("should expose the plural forms helpers", () => {
+			for (const { plural } of [gettextParser, browser]) {
+				expect(plural.compile).to.equal(compilePluralExpression);
+				expect(plural.fromHeaders).to.equal(parsePluralFromHeaders);
+				expect(plural.categories).to.equal(getPluralCategories);
+			}
+
+			const headers = { "Plural-Forms": "nplurals=2; plural=(n != 1);" };
+
+			expect(gettextParser.plural.fromHeaders(headers)(2)).to.equal(1);
+		});
+	});
+});
@@ -0,0 +1,128 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { Transform } from "node:stream";
+import { fileURLToPath } from "node:url";
+import { describe, expect, it } from "vitest";
+import gettextParser from "../src/index.js";
+import type { GetTextTranslations, TranslationEntry } from "../src/types.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const { createCompileStream } = gettextParser.po;
+
+/**
+ * Writes the objects to the compile stream and collects the output
+ */
+function compile(stream: Transform, objects: object[]): Promise<Buffer> {
+	return new Promise((resolve, reject) => {
+		const chunks: Buffer[] = [];
+
+		stream.on("data", (chunk) => chunks.push(chunk));
+		stream.on("end", () => resolve(Buffer.concat(chunks)));
+		stream.on("error", reject);
+
+		for (const object of objects) {
+			stream.write(object);
+		}
+
+		stream.end();
+	});
+}
+
+/**
+ * The header entry and the entries of a translation table, in the compile order
+ */
+function toObjects(table: GetTextTranslations): object[] {
+	const entries = (section: GetTextTranslations["translations"] = {}) =>
+		Object.keys(section).flatMap((msgctxt) =>
+			Object.values(section[msgctxt]).filter(
+				(entry: TranslationEntry) => entry.msgctxt || entry.msgid,
+			),
+		);
+
+	return [
+		table.translations[""][""],
+		...entries(table.translations),
+		...entries(table.obsolete).map((entry) => ({ ...entry, obsolete: true })),
+	];
+}
+
+describe("createCompileStream", () => {
+	for (const fixture of ["utf8-po.json", "latin13-po.json", "obsolete.json"]) {
+		it(`should compile ${fixture} like compile`, async () => {
+			const json = fs.readFileSync(
+				path.join(__dirname, "fixtures", fixture),
+				"utf8",
+			);
+
+			const compiled = await compile(
+				createCompileStream(),
+				toObjects(JSON.parse(json)),
+			);
+
+			expect(compiled).to.deep.equal(
+				gettextParser.po.compile(JSON.parse(json)),
+			);
+		});
+	}
+
+	it("should use the compiler options", async () => {
+		const json = fs.readFileSync(
+			path.join(__dirname, "fixtures/utf8-po.json"),
+			"utf8",
+		);
+		const options = { foldLength: 0, eol: "\r\n" };
+
+		const compiled = await compile(
+			createCompileStream(options),
+			toObjects(JSON.parse(json)),
+		);
+
+		expect(compiled).to.deep.equal(
+			gettextParser.po.compile(JSON.parse(json), options),
+		);
+	});
+
+	it("should compile the entries of a parse stream", async () => {
+		const po = fs.readFileSync(path.join(__dirname, "fixtures/obsolete.po"));
+		const compiled = await new Promise<Buffer>((resolve, reject) => {
+			const chunks: Buffer[] = [];
+
+			fs.createReadStream(path.join(__dirname, "fixtures/obsolete.po"))
+				.pipe(gettextParser.po.createParseStream({}, { entries: true }))
+				.pipe(createCompileStream())
+				.on("data", (chunk) => chunks.push(chunk))
+				.on("end", () => resolve(Buffer.concat(chunks)))
+				.on("error", reject);
+		});
+
+		expect(compiled).to.deep.equal(
+			gettextParser.po.compile(gettextParser.po.parse(po)),
+		);
+	});
+
+	it("should compile the header object", async () => {
+		const compiled = await compile(createCompileStream(), [
+			{ charset: "iso-8859-1", headers: { "content-type": "text/plain" } },
+			{ msgid: "a", msgstr: ["ä"] },
+		]);
+
+		expect(compiled).to.deep.equal(
+			Buffer.from(
+				'msgid ""\nmsgstr "Content-Type: text/plain\\n"\n\nmsgid "a"\nmsgstr "\xe4"\n',
+				"latin1",
+			),
+		);
+	});
+
+	it("should add a default header", async () => {
+		const compiled = await compile(createCompileStream(), [
+			{ msgid: "a", msgstr: ["b"] },
+		]);
+
+		expect(compiled.toString("utf8")).to.equal(
+			'msgid ""\nmsgstr "Content-Type: text/plain\\n"\n\nmsgid "a"\nmsgstr "b"\n',
+		);
+	});
+});
@@ -5,6 +5,7 @@ import { fileURLToPath } from "node:url";
 import { promisify } from "node:util";
 import { describe, expect, it } from "vitest";
 import gettextParser from "../src/index.js";
+import type { TranslationEntryPrevious } from "../src/types.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -188,4 +189,25 @@ describe("PO Compiler", () => {
 			expect(compiled).to.equal(poData);
 		});
 	});
+
+	describe("Previous strings", () => {
+		it("should draw the structured previous strings", async () => {
+			const po = await readFile(path.join(__dirname, "fixtures/previous.po"));
+			const parsed = gettextParser.po.parse(po, { previous: true });
+			const entry = parsed.translations.menu['Open "%s"\n'];
+
+			(entry.previous as TranslationEntryPrevious).msgid_plural = undefined;
+
+			const compiled = gettextParser.po.compile(parsed).toString("utf8");
+
+			expect(compiled).to.contain(
+				'#, fuzzy\n#| msgctxt "menu"\n#| msgid "Open the \\"%s\\" file\\n"\nmsgctxt "menu"',
+			);
+			expect(
+				gettextParser.po.parse(compiled, { previous: true }).translations.menu[
+					'Open "%s"\n'
+				].previous,
+			).to.deep.equal({ msgctxt: "menu", msgid: 'Open the "%s" file\n' });
+		});
+	});
 });
@@ -0,0 +1,164 @@
+import { describe, expect, it } from "vitest";
+import gettextParser from "../src/index.js";
+import { escapeString, foldLine, unescapeString } from "../src/shared.js";
+
+const controls = Array.from({ length: 0x20 }, (_, i) =>
+	String.fromCharCode(i),
+).join("");
+
+/**
+ * Parses a PO string with a single entry and returns the translation
+ */
+function parseMsgstr(msgstr: string, options = {}, charset = "UTF-8") {
+	const po = [
+		'msgid ""',
+		`msgstr "Content-Type: text/plain; charset=${charset}\\n"`,
+		"",
+		'msgid "a"',
+		`msgstr "${msgstr}"`,
+		"",
+	].join("\n");
+
+	return gettextParser.po.parse(Buffer.from(po, "latin1"), options)
+		.translations[""].a.msgstr[0];
+}
+
+describe("PO escape sequences", () => {
+	describe("unescapeString", () => {
+		it("should decode the named escape sequences", () => {
+			expect(unescapeString(String.raw`\a\b\f\n\r\t\v\\\"\'`)).to.equal(
+				"\x07\b\f\n\r\t\v\\\"'",
+			);
+		});
+
+		it("should decode the octal escapes of up to 3 digits", () => {
+			expect(unescapeString("\\0\\12\\1011")).to.equal("\0\nA1");
+		});
+
+		it("should decode the hex escapes", () => {
+			expect(unescapeString("\\x41\\x7f")).to.equal("A\x7f");
+		});
+
+		it("should decode the escaped bytes in the charset", () => {
+			expect(unescapeString("caf\\303\\251")).to.equal("café");
+			expect(unescapeString("caf\\xc3\\xa9")).to.equal("café");
+			expect(unescapeString("caf\\351", "iso-8859-1")).to.equal("café");
+		});
+
+		it("should keep the character of the invalid escapes", () => {
+			const invalid: string[] = [];
+
+			expect(
+				unescapeString("\\q\\x", "utf-8", (sequence) => invalid.push(sequence)),
+			).to.equal("qx");
+			expect(invalid).to.deep.equal(["\\q", "\\x"]);
+		});
+	});
+
+	describe("escapeString", () => {
+		it("should escape the control characters", () => {
+			expect(escapeString('\x07\b\f\n\r\t\v\\"\x01\x1b\x7f')).to.equal(
+				'\\a\\b\\f\\n\\r\\t\\v\\\\\\"\\001\\033\\177',
+			);
+		});
+
+		it("should only escape the newlines without escapeCharacters", () => {
+			expect(escapeString('\t"\n', false)).to.equal('\t"\\n');
+		});
+
+		it("should round trip all the control characters", () => {
+			const value = `${controls}\x7f`;
+
+			expect(unescapeString(escapeString(value))).to.equal(value);
+		});
+	});
+
+	describe("foldLine", () => {
+		it("should not fold within an escape sequence", () => {
+			const line = `${"a".repeat(9)}\\033${"b".repeat(9)}\\x41`;
+
+			for (let maxLen = 1; maxLen < line.length; maxLen++) {
+				const folded = foldLine(line, maxLen);
+
+				expect(folded.join("")).to.equal(line);
+				expect(folded.map((part) => unescapeString(part)).join("")).to.equal(
+					unescapeString(line),
+				);
+			}
+		});
+	});
+
+	describe("PO Parser", () => {
+		it("should decode the escape sequences of the strings", () => {
+			expect(parseMsgstr("\\a\\b\\f\\v\\101\\x42\\303\\251")).to.equal(
+				"\x07\b\f\vABé",
+			);
+		});
+
+		it("should decode the escaped bytes in the charset of the file", () => {
+			expect(parseMsgstr("\\351", {}, "ISO-8859-1")).to.equal("é");
+		});
+
+		it("should decode the escape sequences of the previous strings", () => {
+			const po = ['#| msgid "old\\a\\x41"', 'msgid "a"', 'msgstr "b"', ""].join(
+				"\n",
+			);
+
+			expect(
+				gettextParser.po.parse(po, { previous: true }).translations[""].a
+					.previous,
+			).to.deep.equal({ msgid: "old\x07A" });
+		});
+
+		it("should keep the character of the invalid escapes without validation", () => {
+			expect(parseMsgstr("\\q")).to.equal("q");
+		});
+
+		it("should throw on the invalid escapes with validation", () => {
+			expect(() => parseMsgstr("\\q", { validation: true })).to.throw(
+				'Invalid escape sequence "\\q" at line 5',
+			);
+		});
+
+		it("should collect the invalid escapes with validation: collect", () => {
+			const po = 'msgid "a"\nmsgstr "\\q"\n';
+			const parsed = gettextParser.po.parse(po, { validation: "collect" });
+
+			expect(parsed.diagnostics?.map(({ code }) => code)).to.deep.equal([
+				"invalid-escape",
+			]);
+			expect(parsed.diagnostics?.[0].lineNumber).to.equal(2);
+		});
+	});
+
+	describe("PO Compiler", () => {
+		it("should round trip all the control characters", () => {
+			const msgstr = `${controls}\x7f`;
+			const compiled = gettextParser.po.compile({
+				charset: "utf-8",
+				headers: {},
+				translations: { "": { a: { msgid: "a", msgstr: [msgstr] } } },
+			});
+
+			expect(
+				gettextParser.po.parse(compiled).translations[""].a.msgstr,
+			).to.deep.equal([msgstr]);
+		});
+
+		it("should round trip the control characters in folded lines", () => {
+			const msgstr = `${"word ".repeat(20)}${controls}`.repeat(3);
+			const compiled = gettextParser.po.compile(
+				{
+					charset: "utf-8",
+					headers: {},
+					translations: { "": { a: { msgid: "a", msgstr: [msgstr] } } },
+				},
+				{ foldLength: 20 },
+			);
+
+			expect(
+				gettextParser.po.parse(compiled).translations[""].a.msgstr,
+			).to.deep.equal([msgstr]);
+		});
+	});
+});
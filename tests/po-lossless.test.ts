@@ -0,0 +1,188 @@
+import { readFile as fsReadFile } from "node:fs";
+import * as path from "node:path";
+import { fileURLToPath } from "node:url";
+import { promisify } from "node:util";
+import { describe, expect, it } from "vitest";
+import gettextParser from "../src/index.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const readFile = promisify(fsReadFile);
+
+describe("Lossless PO", () => {
+	describe("Round trip", () => {
+		for (const fixture of [
+			"lossless.po",
+			"utf8.po",
+			"latin13.po",
+			"obsolete.po",
+			"headers-case.po",
+			"validate-duplicate-msgid.po",
+		]) {
+			it(`should compile ${fixture} byte by byte`, async () => {
+				const po = await readFile(path.join(__dirname, "fixtures", fixture));
+				const parsed = gettextParser.po.parse(po, { lossless: true });
+
+				expect(gettextParser.po.compile(parsed)).to.deep.equal(po);
+			});
+		}
+
+		it("should keep the byte order mark and the CRLF line endings", async () => {
+			const po = await readFile(path.join(__dirname, "fixtures/lossless.po"));
+			const crlf = Buffer.concat([
+				Buffer.from([0xef, 0xbb, 0xbf]),
+				Buffer.from(po.toString("utf8").replace(/\n/g, "\r\n")),
+			]);
+			const parsed = gettextParser.po.parse(crlf, { lossless: true });
+
+			expect(gettextParser.po.compile(parsed)).to.deep.equal(crlf);
+		});
+
+		it("should not add positions to the entries", async () => {
+			const po = await readFile(path.join(__dirname, "fixtures/lossless.po"));
+			const parsed = gettextParser.po.parse(po, { lossless: true });
+
+			expect(parsed.translations[""]["Open %s"]).to.deep.equal({
+				msgid: "Open %s",
+				msgstr: ["Ouvrir %s"],
+				comments: { reference: "src/app.js:12", flag: "c-format" },
+			});
+		});
+	});
+
+	describe("Changes", () => {
+		it("should draw only the changed entries", async () => {
+			const po = await readFile(
+				path.join(__dirname, "fixtures/lossless.po"),
+				"utf8",
+			);
+			const parsed = gettextParser.po.parse(po, { lossless: true });
+
+			parsed.translations[""]["Open %s"].msgstr = ["Ouvre %s"];
+
+			const compiled = gettextParser.po.compile(parsed).toString("utf8");
+
+			expect(compiled).to.equal(
+				po.replace(
+					"#, c-format\n#: src/app.js:12\nmsgid \"Open %s\"\nmsgstr 'Ouvrir %s'",
+					'#: src/app.js:12\n#, c-format\nmsgid "Open %s"\nmsgstr "Ouvre %s"',
+				),
+			);
+		});
+
+		it("should draw the changed entries with the line ending of the source", async () => {
+			const po = (
+				await readFile(path.join(__dirname, "fixtures/lossless.po"), "utf8")
+			).replace(/\n/g, "\r\n");
+			const parsed = gettextParser.po.parse(`\uFEFF${po}`, { lossless: true });
+
+			parsed.translations[""]["Open %s"].msgstr = ["Ouvre %s"];
+			parsed.translations[""].Save = { msgid: "Save", msgstr: ["Enregistrer"] };
+
+			const compiled = gettextParser.po.compile(parsed).toString("utf8");
+
+			expect(compiled.startsWith("\uFEFF")).to.equal(true);
+			expect(compiled).not.to.match(/[^\r]\n/);
+			expect(compiled).to.contain(
+				'#: src/app.js:12\r\n#, c-format\r\nmsgid "Open %s"\r\nmsgstr "Ouvre %s"',
+			);
+			expect(compiled).to.contain(
+				'\r\n\r\nmsgid "Save"\r\nmsgstr "Enregistrer"',
+			);
+		});
+
+		it("should draw the changed entries with the eol option", async () => {
+			const po = (
+				await readFile(path.join(__dirname, "fixtures/lossless.po"), "utf8")
+			).replace(/\n/g, "\r\n");
+			const parsed = gettextParser.po.parse(po, { lossless: true });
+
+			parsed.translations[""]["Open %s"].msgstr = ["Ouvre %s"];
+
+			expect(
+				gettextParser.po.compile(parsed, { eol: "\n" }).toString("utf8"),
+			).to.contain(
+				'#: src/app.js:12\n#, c-format\nmsgid "Open %s"\nmsgstr "Ouvre %s"',
+			);
+		});
+
+		it("should keep the byte order mark before an added header", () => {
+			const parsed = gettextParser.po.parse('\uFEFFmsgid "a"\nmsgstr "b"\n', {
+				lossless: true,
+			});
+
+			parsed.headers = { "Content-Type": "text/plain; charset=UTF-8" };
+
+			expect(gettextParser.po.compile(parsed).toString("utf8")).to.equal(
+				'\uFEFFmsgid ""\nmsgstr "Content-Type: text/plain; charset=utf-8\\n"\n\nmsgid "a"\nmsgstr "b"\n',
+			);
+		});
+
+		it("should draw the header when the headers change", async () => {
+			const po = await readFile(
+				path.join(__dirname, "fixtures/lossless.po"),
+				"utf8",
+			);
+			const parsed = gettextParser.po.parse(po, { lossless: true });
+
+			(parsed.headers as Record<string, string>).Language = "fr";
+
+			const compiled = gettextParser.po.compile(parsed).toString("utf8");
+
+			expect(compiled).to.contain(
+				'"Plural-Forms: nplurals=2; plural=(n != 1);\\n"\n"Language: fr\\n"\n\n#, c-format',
+			);
+		});
+
+		it("should drop the removed entries", async () => {
+			const po = await readFile(
+				path.join(__dirname, "fixtures/lossless.po"),
+				"utf8",
+			);
+			const parsed = gettextParser.po.parse(po, { lossless: true });
+
+			parsed.translations.menu = {};
+
+			const compiled = gettextParser.po.compile(parsed).toString("utf8");
+
+			expect(compiled).to.equal(
+				po.replace(
+					'\n\n  msgctxt "menu"\n  msgid "Close"\n  msgstr "Fermer"',
+					"",
+				),
+			);
+		});
+
+		it("should add the new entries after their section", async () => {
+			const po = await readFile(
+				path.join(__dirname, "fixtures/lossless.po"),
+				"utf8",
+			);
+			const parsed = gettextParser.po.parse(po, { lossless: true });
+
+			parsed.translations[""].Save = { msgid: "Save", msgstr: ["Enregistrer"] };
+			parsed.obsolete = {
+				...parsed.obsolete,
+				"": {
+					...parsed.obsolete?.[""],
+					Undo: { msgid: "Undo", msgstr: ["Annuler"] },
+				},
+			};
+
+			const compiled = gettextParser.po.compile(parsed).toString("utf8");
+
+			expect(compiled).to.equal(
+				po
+					.replace(
+						'  msgstr "Fermer"\n',
+						'  msgstr "Fermer"\n\nmsgid "Save"\nmsgstr "Enregistrer"\n',
+					)
+					.replace(
+						'#~ msgstr "Quitter"\n',
+						'#~ msgstr "Quitter"\n\n#~ msgid "Undo"\n#~ msgstr "Annuler"\n',
+					),
+			);
+		});
+	});
+});
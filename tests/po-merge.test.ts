@@ -0,0 +1,152 @@
+import { describe, expect, it } from "vitest";
+import gettextParser from "../src/index.js";
+
+const po = gettextParser.po.parse(`msgid ""
+msgstr ""
+"Content-Type: text/plain; charset=utf-8\\n"
+"POT-Creation-Date: 2024-01-01 10:00+0000\\n"
+"Plural-Forms: nplurals=3; plural=(n==1) ? 0 : (n>=2 && n<=4) ? 1 : 2;\\n"
+
+# translator comment
+#: old.js:1
+msgid "Open file"
+msgstr "Otevřít soubor"
+
+#: old.js:2
+msgid "Save the document to disk"
+msgstr "Uložit dokument na disk"
+
+msgid "Removed message"
+msgstr "Odstraněná zpráva"
+
+msgid "Untranslated removed message"
+msgstr ""
+
+msgid "%d file"
+msgstr "%d soubor"
+
+#~ msgid "Revived message"
+#~ msgstr "Oživená zpráva"
+`);
+
+const pot = gettextParser.po.parse(`msgid ""
+msgstr ""
+"Content-Type: text/plain; charset=CHARSET\\n"
+"POT-Creation-Date: 2024-02-01 10:00+0000\\n"
+
+#. extracted comment
+#: new.js:10
+msgid "Open file"
+msgstr ""
+
+#: new.js:20
+#, c-format
+msgid "Save the documents to disk"
+msgstr ""
+
+msgid "%d file"
+msgid_plural "%d files"
+msgstr[0] ""
+msgstr[1] ""
+
+msgid "Revived message"
+msgstr ""
+
+msgid "Brand new"
+msgstr ""
+`);
+
+describe("PO Merge", () => {
+	const merged = gettextParser.po.merge(po, pot);
+	const translations = merged.translations[""];
+
+	it("should keep the catalog header with the template creation date", () => {
+		expect(merged.charset).to.equal("utf-8");
+		expect(merged.headers?.["POT-Creation-Date"]).to.equal(
+			"2024-02-01 10:00+0000",
+		);
+		expect(merged.headers?.["Content-Type"]).to.equal(
+			"text/plain; charset=utf-8",
+		);
+	});
+
+	it("should keep existing translations with the template comments", () => {
+		expect(translations["Open file"]).to.deep.equal({
+			msgid: "Open file",
+			msgstr: ["Otevřít soubor"],
+			comments: {
+				translator: "translator comment",
+				reference: "new.js:10",
+				extracted: "extracted comment",
+			},
+		});
+	});
+
+	it("should fuzzy match changed messages", () => {
+		expect(translations["Save the documents to disk"]).to.deep.equal({
+			msgid: "Save the documents to disk",
+			msgstr: ["Uložit dokument na disk"],
+			comments: {
+				reference: "new.js:20",
+				flag: "fuzzy, c-format",
+				previous: 'msgid "Save the document to disk"',
+			},
+		});
+	});
+
+	it("should mark changed plural forms as fuzzy", () => {
+		expect(translations["%d file"]).to.deep.equal({
+			msgid: "%d file",
+			msgid_plural: "%d files",
+			msgstr: ["%d soubor", "", ""],
+			comments: {
+				flag: "fuzzy",
+			},
+		});
+	});
+
+	it("should revive obsolete translations and add new messages", () => {
+		expect(translations["Revived message"]).to.deep.equal({
+			msgid: "Revived message",
+			msgstr: ["Oživená zpráva"],
+		});
+		expect(translations["Brand new"]).to.deep.equal({
+			msgid: "Brand new",
+			msgstr: [""],
+		});
+	});
+
+	it("should move removed translations to obsolete", () => {
+		expect(Object.keys(merged.obsolete?.[""] || {})).to.deep.equal([
+			"Removed message",
+		]);
+	});
+
+	it("should not fuzzy match when disabled", () => {
+		const result = gettextParser.po.merge(po, pot, { fuzzyMatching: false });
+
+		expect(result.translations[""]["Save the documents to disk"]).to.deep.equal(
+			{
+				msgid: "Save the documents to disk",
+				msgstr: [""],
+				comments: {
+					reference: "new.js:20",
+					flag: "c-format",
+				},
+			},
+		);
+		expect(Object.keys(result.obsolete?.[""] || {})).to.deep.equal([
+			"Save the document to disk",
+			"Removed message",
+		]);
+	});
+
+	it("should compile the merged catalog", () => {
+		const compiled = gettextParser.po.compile(merged).toString();
+
+		expect(compiled).to.include(
+			'#, fuzzy, c-format\n#| msgid "Save the document to disk"\nmsgid "Save the documents to disk"',
+		);
+		expect(compiled).to.include('#~ msgid "Removed message"');
+	});
+});
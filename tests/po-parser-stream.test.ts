@@ -0,0 +1,162 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { fileURLToPath } from "node:url";
+import { describe, expect, it } from "vitest";
+import gettextParser from "../src/index.js";
+import type { GetTextTranslations, TranslationEntry } from "../src/types.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+/**
+ * Reads a fixture as a WHATWG stream of small chunks, that split the UTF-8 sequences
+ */
+function readableStream(
+	fixture: string,
+	chunkSize = 7,
+): ReadableStream<Uint8Array> {
+	const bytes = new Uint8Array(
+		fs.readFileSync(path.join(__dirname, "fixtures", fixture)),
+	);
+	let position = 0;
+
+	return new ReadableStream({
+		pull(controller) {
+			if (position >= bytes.length) {
+				controller.close();
+				return;
+			}
+
+			controller.enqueue(bytes.subarray(position, position + chunkSize));
+			position += chunkSize;
+		},
+	});
+}
+
+/**
+ * Reads a fixture as an async iterable of chunks
+ */
+async function* asyncIterable(fixture: string): AsyncGenerator<Uint8Array> {
+	for await (const chunk of readableStream(fixture, 32)) {
+		yield chunk;
+	}
+}
+
+describe("parseStream", () => {
+	for (const name of ["utf8", "latin13"]) {
+		it(`should parse the ${name} PO file from a WHATWG stream`, async () => {
+			const table = await gettextParser.po.parseStream(
+				readableStream(`${name}.po`),
+			);
+
+			expect(table).to.deep.equal(
+				JSON.parse(
+					fs.readFileSync(
+						path.join(__dirname, `fixtures/${name}-po.json`),
+						"utf8",
+					),
+				),
+			);
+		});
+	}
+
+	it("should detect the charset from the initial bytes of an async iterable", async () => {
+		const table = await gettextParser.po.parseStream(
+			asyncIterable("latin13.po"),
+			{ initialTreshold: 800 },
+		);
+
+		expect(table.charset).to.equal("iso-8859-13");
+		expect(table).to.deep.equal(
+			gettextParser.po.parse(
+				fs.readFileSync(path.join(__dirname, "fixtures/latin13.po")),
+			),
+		);
+	});
+
+	it("should iterate the entries, the header first", async () => {
+		const table = gettextParser.po.parse(
+			fs.readFileSync(path.join(__dirname, "fixtures/utf8.po")),
+		);
+		const entries: TranslationEntry[] = [];
+
+		for await (const entry of gettextParser.po.parseStream(
+			readableStream("utf8.po"),
+			{ entries: true },
+		)) {
+			entries.push(entry);
+		}
+
+		expect(entries[0].msgid).to.equal("");
+		expect(entries.length).to.equal(
+			Object.values(table.translations).flatMap(Object.keys).length,
+		);
+
+		for (const entry of entries) {
+			expect(entry).to.deep.equal(
+				table.translations[entry.msgctxt || ""][entry.msgid],
+			);
+		}
+	});
+
+	it("should resolve to an empty table for an empty stream", async () => {
+		const table = await gettextParser.po.parseStream(
+			new Response(new Uint8Array(0)).body as ReadableStream<Uint8Array>,
+		);
+
+		expect(table.translations).to.deep.equal({});
+	});
+
+	it("should reject the invalid PO files", async () => {
+		const input = new TextEncoder().encode(
+			'msgid "a"\nmsgstr "b"\nmsgid "a"\n',
+		);
+
+		await expect(
+			gettextParser.po.parseStream(new Response(input).body as never, {
+				validation: true,
+			}),
+		).rejects.toThrow(/Duplicate msgid error/);
+	});
+});
+
+describe("createWebParseStream", () => {
+	const readAll = async <T>(stream: ReadableStream<T>): Promise<T[]> => {
+		const chunks: T[] = [];
+
+		for await (const chunk of stream as unknown as AsyncIterable<T>) {
+			chunks.push(chunk);
+		}
+
+		return chunks;
+	};
+
+	it("should emit the translation table", async () => {
+		const [table] = (await readAll(
+			readableStream("utf8.po").pipeThrough(
+				gettextParser.po.createWebParseStream(),
+			),
+		)) as GetTextTranslations[];
+
+		expect(table).to.deep.equal(
+			JSON.parse(
+				fs.readFileSync(path.join(__dirname, "fixtures/utf8-po.json"), "utf8"),
+			),
+		);
+	});
+
+	it("should emit each entry as soon as it is parsed", async () => {
+		const entries = (await readAll(
+			readableStream("utf8.po").pipeThrough(
+				gettextParser.po.createWebParseStream({ entries: true }),
+			),
+		)) as TranslationEntry[];
+		const table = gettextParser.po.parse(
+			fs.readFileSync(path.join(__dirname, "fixtures/utf8.po")),
+		);
+
+		expect(entries.map((entry) => entry.msgid)).to.deep.equal(
+			Object.values(table.translations).flatMap(Object.keys),
+		);
+	});
+});
@@ -3,6 +3,7 @@ import * as path from "node:path";
 import { fileURLToPath } from "node:url";
 import { describe, expect, it } from "vitest";
 import gettextParser from "../src/index.js";
+import type { GetTextTranslationRaw, poParserOptions } from "../src/types.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -71,4 +72,94 @@ describe("createParseStream", () => {
 
 		expect(promise).toBeTruthy();
 	});
+
+	describe("entries mode", () => {
+		const parseEntries = (
+			fixture: string,
+			options: poParserOptions = {},
+		): Promise<GetTextTranslationRaw[]> =>
+			new Promise((resolve, reject) => {
+				const entries: GetTextTranslationRaw[] = [];
+				const stream = fs
+					.createReadStream(path.join(__dirname, "fixtures", fixture), {
+						highWaterMark: 16,
+					})
+					.pipe(createParseStream(options, { entries: true }));
+
+				stream.on("data", (entry) => entries.push(entry));
+				stream.on("end", () => resolve(entries));
+				stream.on("error", reject);
+			});
+
+		it("should emit the header then each entry", async () => {
+			const entries = await parseEntries("utf8.po");
+			const table = gettextParser.po.parse(
+				fs.readFileSync(path.join(__dirname, "fixtures/utf8.po")),
+			);
+
+			expect(entries[0].msgid).to.equal("");
+			expect(entries[0].msgstr[0]).to.contain("Content-Type");
+			expect(entries.length).to.equal(
+				Object.values(table.translations).flatMap(Object.keys).length,
+			);
+
+			for (const entry of entries) {
+				expect(entry).to.deep.equal(
+					table.translations[entry.msgctxt || ""][entry.msgid],
+				);
+			}
+		});
+
+		it("should emit the completed entries before the end of the input", async () => {
+			const stream = createParseStream(undefined, {
+				initialTreshold: 16,
+				entries: true,
+			});
+			const entries: GetTextTranslationRaw[] = [];
+
+			stream.on("data", (entry) => entries.push(entry));
+
+			stream.write(
+				'msgid ""\nmsgstr "Content-Type: text/plain; charset=utf-8\\n"\n\n',
+			);
+			stream.write('msgid "a"\nmsgstr "b"\n\n# comment\nmsgid "c"\n');
+			await new Promise(setImmediate);
+
+			expect(entries).to.deep.equal([
+				{ msgid: "", msgstr: ["Content-Type: text/plain; charset=utf-8\n"] },
+				{ msgid: "a", msgstr: ["b"] },
+			]);
+
+			stream.end('msgstr "d"\n');
+			await new Promise((resolve) => stream.on("end", resolve));
+
+			expect(entries[2]).to.deep.equal({
+				msgid: "c",
+				msgstr: ["d"],
+				comments: { translator: "comment" },
+			});
+		});
+
+		it("should emit the obsolete entries", async () => {
+			const entries = await parseEntries("obsolete.po");
+			const table = gettextParser.po.parse(
+				fs.readFileSync(path.join(__dirname, "fixtures/obsolete.po")),
+			);
+			const obsolete = entries.filter((entry) => entry.obsolete);
+
+			expect(obsolete.length).to.be.greaterThan(0);
+
+			for (const { obsolete: isObsolete, ...entry } of obsolete) {
+				expect(entry).to.deep.equal(
+					table.obsolete?.[entry.msgctxt || ""][entry.msgid],
+				);
+			}
+		});
+
+		it("should validate the entries", async () => {
+			await expect(
+				parseEntries("validate-duplicate-msgid.po", { validation: true }),
+			).rejects.toThrow(/Duplicate msgid error/);
+		});
+	});
 });
@@ -311,5 +311,159 @@ describe("PO Parser", () => {
 				);
 			});
 		});
+
+		describe("when validation collects diagnostics", () => {
+			const options = { validation: "collect" as const };
+
+			it("should throw (unescaped quote)", async () => {
+				const po = await readFile(
+					path.join(__dirname, "fixtures/error-unescaped-quote.po"),
+				);
+
+				expect(
+					gettextParser.po.parse.bind(gettextParser.po, po, options),
+				).to.throw(invalidKeyError);
+			});
+
+			it("should return all the diagnostics", async () => {
+				const po = await readFile(
+					path.join(__dirname, "fixtures/validate-multiple-errors.po"),
+				);
+
+				const parsed = gettextParser.po.parse(po, options);
+
+				expect(parsed.diagnostics).to.deep.equal([
+					{
+						code: "multiple-msgid-plural",
+						severity: "error",
+						message:
+							'Multiple msgid_plural error: entry "o3-1" in "" context has multiple msgid_plural declarations.',
+						msgid: "o3-1",
+						lineNumber: 23,
+					},
+					{
+						code: "duplicate-msgid",
+						severity: "error",
+						message:
+							'Duplicate msgid error: entry "o1" in "" context has already been declared.',
+						msgid: "o1",
+						lineNumber: 11,
+					},
+					{
+						code: "plural-forms-range",
+						severity: "error",
+						message:
+							'Plural forms range error: Expected to find 2 forms but got 3 for entry "o2-2" in "c1" context.',
+						msgctxt: "c1",
+						msgid: "o2-1",
+						lineNumber: 15,
+					},
+				]);
+				expect(parsed.translations[""].o1.msgstr).to.deep.equal(["t2"]);
+				expect(parsed.translations[""]["o3-1"].msgid_plural).to.equal("o3-3");
+			});
+
+			it("should return no diagnostics for a valid file", async () => {
+				const po = await readFile(path.join(__dirname, "fixtures/utf8.po"));
+
+				expect(gettextParser.po.parse(po, options).diagnostics).to.deep.equal(
+					[],
+				);
+			});
+		});
+	});
+
+	describe("positions", () => {
+		const range = (
+			startLine: number,
+			startColumn: number,
+			endLine: number,
+			endColumn: number,
+		) => ({
+			start: { line: startLine, column: startColumn },
+			end: { line: endLine, column: endColumn },
+		});
+
+		it("should not add positions by default", async () => {
+			const po = await readFile(path.join(__dirname, "fixtures/positions.po"));
+			const parsed = gettextParser.po.parse(po);
+
+			expect(parsed.translations.menu.Open).to.not.have.property("positions");
+		});
+
+		it("should add the positions of an entry with comments and context", async () => {
+			const po = await readFile(path.join(__dirname, "fixtures/positions.po"));
+			const parsed = gettextParser.po.parse(po, { positions: true });
+
+			expect(parsed.translations.menu.Open.positions).to.deep.equal({
+				entry: range(4, 0, 9, 8),
+				comments: range(4, 0, 5, 16),
+				msgctxt: range(6, 0, 6, 14),
+				msgid: range(7, 0, 7, 12),
+				msgstr: [range(8, 0, 9, 8)],
+			});
+		});
+
+		it("should add the positions of plural translations", async () => {
+			const po = await readFile(path.join(__dirname, "fixtures/positions.po"));
+			const parsed = gettextParser.po.parse(po, { positions: true });
+
+			expect(parsed.translations[""]["%d file"].positions).to.deep.equal({
+				entry: range(11, 0, 14, 23),
+				msgid: range(11, 0, 11, 15),
+				msgid_plural: range(12, 0, 12, 23),
+				msgstr: [range(13, 0, 13, 22), range(14, 0, 14, 23)],
+			});
+		});
+
+		it("should add the positions of obsolete entries", async () => {
+			const po = await readFile(path.join(__dirname, "fixtures/positions.po"));
+			const parsed = gettextParser.po.parse(po, { positions: true });
+
+			expect(parsed.obsolete?.[""].Close.positions).to.deep.equal({
+				entry: range(16, 3, 17, 18),
+				msgid: range(16, 3, 16, 16),
+				msgstr: [range(17, 3, 17, 18)],
+			});
+		});
+
+		it("should keep the parsed values", async () => {
+			const po = await readFile(path.join(__dirname, "fixtures/utf8.po"));
+			const parsed = gettextParser.po.parse(po, { positions: true });
+			const expected = gettextParser.po.parse(po);
+
+			for (const msgctxt of Object.keys(expected.translations)) {
+				for (const msgid of Object.keys(expected.translations[msgctxt])) {
+					const { positions, ...entry } = parsed.translations[msgctxt][msgid];
+
+					expect(positions).to.be.an("object");
+					expect(entry).to.deep.equal(expected.translations[msgctxt][msgid]);
+				}
+			}
+		});
+	});
+
+	describe("previous strings", () => {
+		it("should parse the previous strings with the previous option", async () => {
+			const po = await readFile(path.join(__dirname, "fixtures/previous.po"));
+			const entry = gettextParser.po.parse(po, { previous: true }).translations
+				.menu['Open "%s"\n'];
+
+			expect(entry.previous).to.deep.equal({
+				msgctxt: "menu",
+				msgid: 'Open the "%s" file\n',
+				msgid_plural: "Open the files\n",
+			});
+			expect(entry.comments?.previous).to.equal(
+				'msgctxt "menu"\nmsgid ""\n"Open the \\"%s\\" "\n"file\\n"\nmsgid_plural "Open the files\\n"',
+			);
+		});
+
+		it("should not parse the previous strings by default", async () => {
+			const po = await readFile(path.join(__dirname, "fixtures/previous.po"));
+			const entry = gettextParser.po.parse(po).translations.menu['Open "%s"\n'];
+
+			expect(entry).to.not.have.property("previous");
+		});
 	});
 });
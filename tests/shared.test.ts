@@ -7,6 +7,8 @@ import {
 	foldLine,
 	formatCharset,
 	generateHeader,
+	hashString,
+	nextPrime,
 	parseHeader,
 	parseNPluralFromHeadersSafely,
 } from "../src/shared.js";
@@ -208,4 +210,26 @@ X-Poedit-SourceCharset: UTF-8`;
 			expect(nplurals).to.equal(1);
 		});
 	});
+
+	describe("hashString", () => {
+		it("should return 0 for an empty string", () => {
+			expect(hashString(Buffer.from(""))).to.equal(0);
+		});
+
+		it("should compute the hashpjw value", () => {
+			expect(hashString(Buffer.from("a"))).to.equal(0x61);
+			expect(hashString(Buffer.from("ab"))).to.equal(0x672);
+			expect(hashString(Buffer.from("My name is %s.\n"))).to.equal(
+				hashString(Buffer.from("My name is %s.\n\u0000plural")),
+			);
+		});
+	});
+
+	describe("nextPrime", () => {
+		it("should return the next prime like msgfmt", () => {
+			expect(nextPrime(12)).to.equal(13);
+			expect(nextPrime(14)).to.equal(17);
+			expect(nextPrime(2)).to.equal(5);
+		});
+	});
 });
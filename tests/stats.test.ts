@@ -0,0 +1,118 @@
+import { readFile as fsReadFile } from "node:fs";
+import * as path from "node:path";
+import { fileURLToPath } from "node:url";
+import { promisify } from "node:util";
+import { describe, expect, it } from "vitest";
+import browser from "../src/browser.js";
+import gettextParser from "../src/index.js";
+import { stats } from "../src/stats.js";
+import type { GetTextTranslations } from "../src/types.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const readFile = promisify(fsReadFile);
+
+const table: GetTextTranslations = {
+	charset: "utf-8",
+	headers: {},
+	translations: {
+		"": {
+			"": { msgid: "", msgstr: ["Content-Type: text/plain; charset=utf-8\n"] },
+			"Open file": { msgid: "Open file", msgstr: ["Datei öffnen"] },
+			"One file": {
+				msgid: "One file",
+				msgid_plural: "%d files",
+				msgstr: ["Eine Datei", ""],
+			},
+			Close: {
+				msgid: "Close",
+				msgstr: ["Schließen"],
+				comments: { flag: "fuzzy" },
+			},
+			Quit: { msgid: "Quit", msgstr: [""], comments: { flag: "fuzzy" } },
+		},
+		menu: {
+			"Save as…": { msgid: "Save as…", msgstr: ["Speichern unter…"] },
+		},
+	},
+	obsolete: {
+		"": {
+			Print: { msgid: "Print", msgstr: ["Drucken"] },
+		},
+	},
+};
+
+describe("Statistics", () => {
+	it("should count the messages, words and characters", () => {
+		const result = stats(table);
+
+		expect(result.translated).to.deep.equal({
+			messages: 2,
+			words: 4,
+			characters: 17,
+		});
+		expect(result.fuzzy).to.deep.equal({
+			messages: 1,
+			words: 1,
+			characters: 5,
+		});
+		// a plural entry needs all its forms, a fuzzy entry without translation is untranslated
+		expect(result.untranslated).to.deep.equal({
+			messages: 2,
+			words: 5,
+			characters: 20,
+		});
+		expect(result.obsolete).to.deep.equal({
+			messages: 1,
+			words: 1,
+			characters: 5,
+		});
+		expect(result.total).to.deep.equal({
+			messages: 5,
+			words: 10,
+			characters: 42,
+		});
+	});
+
+	it("should count by context", () => {
+		const { contexts } = stats(table);
+
+		expect(Object.keys(contexts)).to.deep.equal(["", "menu"]);
+		expect(contexts[""].translated.messages).to.equal(1);
+		expect(contexts[""].obsolete.messages).to.equal(1);
+		expect(contexts.menu.translated).to.deep.equal({
+			messages: 1,
+			words: 2,
+			characters: 8,
+		});
+	});
+
+	it("should count the same PO and MO tables", async () => {
+		const po = gettextParser.po.parse(
+			await readFile(path.join(__dirname, "fixtures/utf8.po")),
+		);
+		const mo = gettextParser.mo.parse(
+			await readFile(path.join(__dirname, "fixtures/utf8.mo")),
+		) as GetTextTranslations;
+
+		expect(stats(mo).translated).to.deep.equal(stats(po).translated);
+		expect(stats(mo).fuzzy.messages).to.equal(0);
+		expect(stats(mo).obsolete.messages).to.equal(0);
+	});
+
+	it("should count an empty table", () => {
+		expect(stats({ charset: "utf-8", translations: {} }).total).to.deep.equal({
+			messages: 0,
+			words: 0,
+			characters: 0,
+		});
+	});
+
+	describe("entry points", () => {
+		it("should expose the statistics", () => {
+			expect(gettextParser.stats).to.equal(stats);
+			expect(browser.stats).to.equal(stats);
+		});
+	});
+});
@@ -0,0 +1,167 @@
+import { readFile as fsReadFile } from "node:fs";
+import * as path from "node:path";
+import { fileURLToPath } from "node:url";
+import { promisify } from "node:util";
+import { describe, expect, it } from "vitest";
+import { Translator } from "../src/Translator.js";
+import browser from "../src/browser.js";
+import gettextParser from "../src/index.js";
+import type { GetTextTranslations } from "../src/types.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const readFile = promisify(fsReadFile);
+
+const czech: GetTextTranslations = {
+	charset: "utf-8",
+	headers: {
+		"Plural-Forms": "nplurals=3; plural=(n==1) ? 0 : (n>=2 && n<=4) ? 1 : 2;",
+	},
+	translations: {
+		"": {
+			"%d file": {
+				msgid: "%d file",
+				msgid_plural: "%d files",
+				msgstr: ["%d soubor", "%d soubory", "%d souborů"],
+			},
+			Draft: {
+				msgid: "Draft",
+				msgstr: ["Koncept"],
+				comments: { flag: "fuzzy" },
+			},
+			Empty: {
+				msgid: "Empty",
+				msgstr: [""],
+			},
+		},
+	},
+};
+
+const slovak: GetTextTranslations = {
+	charset: "utf-8",
+	headers: {
+		"Plural-Forms": "nplurals=3; plural=(n==1) ? 0 : (n>=2 && n<=4) ? 1 : 2;",
+	},
+	translations: {
+		"": {
+			Empty: {
+				msgid: "Empty",
+				msgstr: ["Prázdny"],
+			},
+		},
+	},
+};
+
+describe("Translator", () => {
+	describe("PO table", async () => {
+		const po = await readFile(path.join(__dirname, "fixtures/utf8.po"));
+		const translator = new Translator(gettextParser.po.parse(po), {
+			locale: "et",
+		});
+
+		it("should translate messages", () => {
+			expect(translator.gettext("o1")).to.equal("t1");
+			expect(translator.gettext("o3-õäöü")).to.equal("t3-žš");
+			expect(translator.pgettext("c1", "co1")).to.equal("ct1");
+		});
+
+		it("should translate plural messages", () => {
+			expect(translator.ngettext("o2-1", "o2-2", 1)).to.equal("t2-1");
+			expect(translator.ngettext("o2-1", "o2-2", 5)).to.equal("t2-2");
+			expect(translator.npgettext("c2", "co2-1", "co2-2", 0)).to.equal("ct2-2");
+		});
+
+		it("should fallback to msgid", () => {
+			expect(translator.gettext("missing")).to.equal("missing");
+			expect(translator.pgettext("c2", "co1")).to.equal("co1");
+			expect(translator.ngettext("missing", "missings", 1)).to.equal("missing");
+			expect(translator.ngettext("missing", "missings", 2)).to.equal(
+				"missings",
+			);
+		});
+	});
+
+	describe("MO table", async () => {
+		const mo = await readFile(path.join(__dirname, "fixtures/latin13.mo"));
+		const translator = new Translator(
+			gettextParser.mo.parse(mo) as GetTextTranslations,
+		);
+
+		it("should translate messages", () => {
+			expect(translator.gettext("o3-õäöü")).to.equal("t3-žš");
+			expect(translator.npgettext("c2", "co2-1", "co2-2", 1)).to.equal("ct2-1");
+		});
+	});
+
+	describe("plural forms", () => {
+		it("should use the Plural-Forms header", () => {
+			const translator = new Translator(czech);
+
+			expect(
+				[1, 3, 5].map((n) => translator.ngettext("%d file", "%d files", n)),
+			).to.deep.equal(["%d soubor", "%d soubory", "%d souborů"]);
+		});
+	});
+
+	describe("fallbacks", () => {
+		it("should skip fuzzy and empty translations", () => {
+			const translator = new Translator(czech);
+
+			expect(translator.gettext("Draft")).to.equal("Draft");
+			expect(translator.gettext("Empty")).to.equal("Empty");
+		});
+
+		it("should lookup the fallback locales", () => {
+			const translator = new Translator(czech, {
+				locale: "cs",
+				fallbackLocales: ["sk"],
+			}).addTranslations("sk", "messages", slovak);
+
+			expect(translator.gettext("Empty")).to.equal("Prázdny");
+
+			translator.setFallbackLocales([]);
+
+			expect(translator.gettext("Empty")).to.equal("Empty");
+		});
+
+		it("should switch locale", () => {
+			const translator = new Translator(czech, { locale: "cs" });
+
+			translator.addTranslations("sk", "messages", slovak);
+			translator.setLocale("sk");
+
+			expect(translator.locale).to.equal("sk");
+			expect(translator.gettext("Empty")).to.equal("Prázdny");
+			expect(translator.ngettext("%d file", "%d files", 3)).to.equal(
+				"%d files",
+			);
+		});
+	});
+
+	describe("domains", () => {
+		it("should switch the text domain", () => {
+			const translator = new Translator(czech, { domain: "app" });
+
+			translator.addTranslations("en", "other", slovak);
+
+			expect(translator.gettext("Empty")).to.equal("Empty");
+			expect(translator.dgettext("other", "Empty")).to.equal("Prázdny");
+
+			translator.textdomain("other");
+
+			expect(translator.domain).to.equal("other");
+			expect(translator.gettext("Empty")).to.equal("Prázdny");
+			expect(translator.dngettext("app", "%d file", "%d files", 1)).to.equal(
+				"%d soubor",
+			);
+		});
+	});
+
+	describe("entry points", () => {
+		it("should expose the Translator class", () => {
+			expect(gettextParser.Translator).to.equal(Translator);
+			expect(browser.Translator).to.equal(Translator);
+		});
+	});
+});
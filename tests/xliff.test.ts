@@ -0,0 +1,268 @@
+import { readFile as fsReadFile } from "node:fs";
+import * as path from "node:path";
+import { fileURLToPath } from "node:url";
+import { promisify } from "node:util";
+import { describe, expect, it } from "vitest";
+import gettextParser from "../src/index.js";
+import type { GetTextTranslations } from "../src/types.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const readFile = promisify(fsReadFile);
+
+const table: GetTextTranslations = {
+	charset: "utf-8",
+	headers: {
+		Language: "de",
+		"Content-Type": "text/plain; charset=UTF-8",
+		"Plural-Forms": "nplurals=2; plural=(n != 1);",
+	},
+	translations: {
+		"": {
+			"": {
+				msgid: "",
+				msgstr: [
+					"Language: de\nContent-Type: text/plain; charset=UTF-8\nPlural-Forms: nplurals=2; plural=(n != 1);\n",
+				],
+			},
+			"One file": {
+				msgid: "One file",
+				msgid_plural: "%d files",
+				msgstr: ["Eine Datei", "%d Dateien"],
+				comments: {
+					extracted: "The number of files",
+					reference: "src/files.c:12",
+					flag: "c-format",
+				},
+			},
+			Close: {
+				msgid: "Close",
+				msgstr: ["Schließen"],
+				comments: { translator: "Check the <button> & label", flag: "fuzzy" },
+			},
+			Quit: { msgid: "Quit", msgstr: [""] },
+		},
+		menu: {
+			Open: { msgctxt: "menu", msgid: "Open", msgstr: ["Öffnen"] },
+		},
+	},
+};
+
+const FIXTURES = [
+	"utf8.po",
+	"latin13.po",
+	"obsolete.po",
+	"previous.po",
+	"lossless.po",
+	"format-strings.po",
+	"headers-case.po",
+	"headers-charset.po",
+	"headers-known.po",
+	"plural.pot",
+	"sort-with-msgctxt-test.pot",
+];
+
+describe("XLIFF compiler", () => {
+	it("should compile XLIFF 1.2 trans-units", () => {
+		const xliff = gettextParser.xliff.compile(table);
+
+		expect(xliff).to.match(/^<\?xml version="1.0" encoding="UTF-8"\?>\n<xliff/);
+		expect(xliff).to.include(
+			'<file original="messages" source-language="en" target-language="de" datatype="po">',
+		);
+		expect(xliff).to.include(
+			'<trans-unit id="2" approved="no" xml:space="preserve">',
+		);
+		expect(xliff).to.include(
+			'<target state="needs-review-translation">Schließen</target>',
+		);
+		expect(xliff).to.include(
+			'<note from="translator">Check the &lt;button&gt; &amp; label</note>',
+		);
+		expect(xliff).to.include(
+			'<group id="1" restype="x-gettext-plurals" xml:space="preserve">',
+		);
+		expect(xliff).to.include('<trans-unit id="1-1" approved="yes"');
+		expect(xliff).to.include(
+			'<context context-type="sourcefile">src/files.c</context>',
+		);
+		expect(xliff).to.include(
+			'<context context-type="x-gettext-msgctxt">menu</context>',
+		);
+		expect(xliff).to.include(
+			'<trans-unit id="3" xml:space="preserve">\n        <source>Quit</source>\n      </trans-unit>',
+		);
+	});
+
+	it("should compile XLIFF 2.0 units", () => {
+		const xliff = gettextParser.xliff.compile(table, {
+			version: "2.0",
+			sourceLanguage: "en-US",
+		});
+
+		expect(xliff).to.include('version="2.0" srcLang="en-US" trgLang="de"');
+		expect(xliff).to.include('<group id="1" type="gettext:plurals">');
+		expect(xliff).to.include(
+			'<mda:meta type="reference">src/files.c:12</mda:meta>',
+		);
+		expect(xliff).to.include(
+			'<note category="developer">The number of files</note>',
+		);
+		expect(xliff).to.include('<segment state="initial">');
+		expect(xliff).to.include('<segment state="translated">');
+	});
+
+	it("should throw on an unknown version", () => {
+		expect(() =>
+			gettextParser.xliff.compile(table, {
+				version: "1.0" as unknown as "1.2",
+			}),
+		).to.throw(TypeError, 'Unknown XLIFF version "1.0"');
+	});
+});
+
+describe("XLIFF parser", () => {
+	it("should parse the units of an agency", () => {
+		const parsed = gettextParser.xliff.parse(`<?xml version="1.0"?>
+<!DOCTYPE xliff>
+<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">
+  <file original="app" source-language="en" target-language="fr">
+    <body>
+      <!-- translated by the agency -->
+      <trans-unit id="a"><source>Save</source><target state="translated">Enregistrer</target></trans-unit>
+      <trans-unit id="b" approved="no"><source>Print &amp; exit</source><target><![CDATA[Imprimer & quitter]]></target><note>Check the length</note></trans-unit>
+      <trans-unit id="c"><source>Help</source><target state="new"></target></trans-unit>
+    </body>
+  </file>
+</xliff>`);
+
+		expect(parsed.headers).to.deep.equal({
+			Language: "fr",
+			"Content-Type": "text/plain; charset=UTF-8",
+		});
+		expect(parsed.translations[""].Save).to.deep.equal({
+			msgid: "Save",
+			msgstr: ["Enregistrer"],
+			comments: {},
+		});
+		expect(parsed.translations[""]["Print & exit"]).to.deep.equal({
+			msgid: "Print & exit",
+			msgstr: ["Imprimer & quitter"],
+			comments: { translator: "Check the length", flag: "fuzzy" },
+		});
+		expect(parsed.translations[""].Help.msgstr).to.deep.equal([""]);
+	});
+
+	it("should follow the state of the XLIFF 2.0 segments", () => {
+		const parsed = gettextParser.xliff.parse(
+			gettextParser.xliff
+				.compile(table, { version: "2.0" })
+				.replace('<segment state="initial">', '<segment state="reviewed">'),
+		);
+
+		expect(parsed.translations[""].Close.comments).to.deep.equal({
+			translator: "Check the <button> & label",
+		});
+	});
+
+	it("should throw on malformed XML", () => {
+		expect(() =>
+			gettextParser.xliff.parse('<xliff version="1.2"><file></xliff>'),
+		).to.throw(SyntaxError, "XML error: unexpected closing tag </xliff>");
+		expect(() =>
+			gettextParser.xliff.parse('<xliff version="1.2">&ext;</xliff>'),
+		).to.throw(SyntaxError, 'XML error: unknown entity "&ext;"');
+	});
+
+	it("should throw on other documents", () => {
+		expect(() => gettextParser.xliff.parse("<html></html>")).to.throw(
+			TypeError,
+			"Invalid XLIFF document: unexpected root element <html>",
+		);
+	});
+});
+
+describe("XLIFF round trip", () => {
+	for (const version of ["1.2", "2.0"] as const) {
+		for (const fixture of FIXTURES) {
+			it(`should keep ${fixture} through XLIFF ${version}`, async () => {
+				const po = await readFile(path.join(__dirname, "fixtures", fixture));
+				const parsed = gettextParser.po.parse(po);
+				const xliff = gettextParser.xliff.compile(parsed, { version });
+
+				expect(
+					gettextParser.po
+						.compile(gettextParser.xliff.parse(xliff))
+						.toString("binary"),
+				).to.equal(gettextParser.po.compile(parsed).toString("binary"));
+			});
+		}
+	}
+});
+
+describe("XLIFF control characters", () => {
+	const bell = (): GetTextTranslations => ({
+		charset: "utf-8",
+		headers: {},
+		translations: {
+			"": {
+				"Ring\x07": {
+					msgid: "Ring\x07",
+					msgstr: ["\x1bKlingeln\x07"],
+					comments: {},
+				},
+			},
+		},
+	});
+
+	for (const [version, placeholder] of [
+		["1.2", '<x id="cp1" ctype="x-gettext-cp-0007"/>'],
+		["2.0", '<cp hex="0007"/>'],
+	] as const) {
+		it(`should write the control characters as placeholders in XLIFF ${version}`, () => {
+			const xliff = gettextParser.xliff.compile(bell(), { version }).toString();
+
+			expect(xliff).to.include(`Ring${placeholder}`);
+			expect(xliff).not.to.include("\x07");
+			expect(xliff).not.to.include("\x1b");
+			expect(
+				gettextParser.xliff.parse(xliff).translations[""]["Ring\x07"],
+			).to.deep.equal(bell().translations[""]["Ring\x07"]);
+		});
+	}
+
+	for (const version of ["1.2", "2.0"] as const) {
+		it(`should encode the control characters of the metadata in XLIFF ${version}`, () => {
+			const entry = {
+				msgctxt: "\x07",
+				msgid: "Ring",
+				msgid_plural: "Rings\x07",
+				msgstr: ["Klingeln", "Klingeln\x1b"],
+				comments: {
+					translator: "\x1b[1m bold \u2407 \u2426",
+					extracted: "bell\x07",
+					previous: 'msgid "Ring\x07"',
+				},
+			};
+			const xliff = gettextParser.xliff
+				.compile(
+					{
+						charset: "utf-8",
+						headers: {},
+						translations: { "\x07": { Ring: entry } },
+					},
+					{ version },
+				)
+				.toString();
+
+			expect(xliff).to.include("bell\u2407");
+			expect(xliff).to.include("\u241b[1m bold \u2426\u2407 \u2426\u2426");
+			expect(xliff).not.to.include("\x07");
+			expect(xliff).not.to.include("\x1b");
+			expect(
+				gettextParser.xliff.parse(xliff).translations["\x07"].Ring,
+			).to.deep.equal(entry);
+		});
+	}
+});